@@ -0,0 +1,270 @@
+/* global Excel */
+
+/**
+ * Per-turn checkpoints for agent edits.
+ *
+ * Before a mutating tool runs, the values/formulas and number formats of its
+ * target ranges are snapshotted and appended to the checkpoint of the current
+ * turn. Reverting a turn writes the snapshots back in reverse order.
+ */
+
+import { type DirtyRange, mergeRanges } from "../dirty-tracker";
+import { getWorksheetById, resolveRange } from "../excel/api";
+import { preloadSheetIds } from "../excel/sheet-id-map";
+import {
+  type RangeSnapshot,
+  saveCheckpoint,
+  type TurnCheckpoint,
+} from "../storage";
+
+const MAX_SNAPSHOT_CELLS = 50_000;
+
+let activeSessionId: string | null = null;
+let activeTurn: TurnCheckpoint | null = null;
+
+export function beginCheckpointTurn(sessionId: string): void {
+  activeSessionId = sessionId;
+  activeTurn = null;
+}
+
+export function endCheckpointTurn(): void {
+  activeSessionId = null;
+  activeTurn = null;
+}
+
+function stripSheet(address: string): string {
+  return address.includes("!") ? address.split("!")[1] : address;
+}
+
+async function snapshotRanges(
+  toolCallId: string,
+  toolName: string,
+  ranges: DirtyRange[],
+): Promise<{ snapshots: RangeSnapshot[]; skipped: string[] }> {
+  return Excel.run(async (context) => {
+    const snapshots: RangeSnapshot[] = [];
+    const skipped: string[] = [];
+
+    for (const target of mergeRanges(ranges)) {
+      if (target.sheetId < 0) continue;
+      const label = `${toolName}: sheet ${target.sheetId}!${target.range}`;
+
+      const sheet = await getWorksheetById(context, target.sheetId);
+      if (!sheet) continue;
+
+      const wholeSheet = target.range === "*";
+      let range = wholeSheet
+        ? sheet.getUsedRangeOrNullObject()
+        : await resolveRange(context, sheet, target.range);
+      range.load("address,rowCount,columnCount");
+      await context.sync();
+
+      let clearAddress: string | undefined = wholeSheet ? "*" : undefined;
+
+      if (range.isNullObject) {
+        // Empty sheet: reverting just clears whatever the tool wrote
+        snapshots.push({
+          toolCallId,
+          toolName,
+          sheetId: target.sheetId,
+          address: "",
+          clearAddress,
+          formulas: [],
+          numberFormat: [],
+        });
+        continue;
+      }
+
+      if (range.rowCount * range.columnCount > MAX_SNAPSHOT_CELLS) {
+        // Large targets (e.g. whole columns): only cells inside the used
+        // range can hold data, so snapshot that part and clear the rest.
+        clearAddress = wholeSheet ? "*" : stripSheet(range.address);
+        range = range.getIntersectionOrNullObject(
+          sheet.getUsedRangeOrNullObject(),
+        );
+        range.load("address,rowCount,columnCount");
+        await context.sync();
+
+        if (range.isNullObject) {
+          snapshots.push({
+            toolCallId,
+            toolName,
+            sheetId: target.sheetId,
+            address: "",
+            clearAddress,
+            formulas: [],
+            numberFormat: [],
+          });
+          continue;
+        }
+        if (range.rowCount * range.columnCount > MAX_SNAPSHOT_CELLS) {
+          skipped.push(
+            `${label} (${range.rowCount * range.columnCount} cells exceeds ${MAX_SNAPSHOT_CELLS})`,
+          );
+          continue;
+        }
+      }
+
+      range.load("formulas,numberFormat");
+      await context.sync();
+
+      snapshots.push({
+        toolCallId,
+        toolName,
+        sheetId: target.sheetId,
+        address: stripSheet(range.address),
+        clearAddress,
+        formulas: range.formulas as (string | number | boolean)[][],
+        numberFormat: range.numberFormat as string[][],
+      });
+    }
+
+    return { snapshots, skipped };
+  });
+}
+
+/**
+ * Snapshot the given ranges into the active turn's checkpoint.
+ * No-op outside of a turn. Never throws: a failed snapshot must not block the
+ * tool, it is recorded as skipped instead.
+ */
+export async function captureCheckpoint(
+  toolCallId: string,
+  toolName: string,
+  ranges: DirtyRange[],
+): Promise<void> {
+  if (!activeSessionId || ranges.length === 0) return;
+  const sessionId = activeSessionId;
+
+  let snapshots: RangeSnapshot[] = [];
+  let skipped: string[] = [];
+  try {
+    ({ snapshots, skipped } = await snapshotRanges(
+      toolCallId,
+      toolName,
+      ranges,
+    ));
+  } catch (err) {
+    console.error("[Checkpoint] Snapshot failed:", err);
+    skipped = [
+      `${toolName}: ${err instanceof Error ? err.message : "snapshot failed"}`,
+    ];
+  }
+
+  if (activeSessionId !== sessionId) return; // turn ended meanwhile
+  if (!activeTurn) {
+    activeTurn = {
+      id: crypto.randomUUID(),
+      sessionId,
+      createdAt: Date.now(),
+      snapshots: [],
+      skipped: [],
+    };
+  }
+  activeTurn.snapshots.push(...snapshots);
+  activeTurn.skipped.push(...skipped);
+
+  try {
+    await saveCheckpoint(activeTurn);
+  } catch (err) {
+    console.error("[Checkpoint] Save failed:", err);
+  }
+}
+
+/**
+ * Snapshot the used range of every sheet. For tools whose targets are only
+ * known after they run (eval_officejs).
+ */
+export async function captureWorkbookCheckpoint(
+  toolCallId: string,
+  toolName: string,
+): Promise<void> {
+  if (!activeSessionId) return;
+
+  let ranges: DirtyRange[] = [];
+  try {
+    ranges = await Excel.run(async (context) => {
+      const sheets = context.workbook.worksheets;
+      sheets.load("items/id");
+      await context.sync();
+      const idMap = await preloadSheetIds(sheets.items);
+      return sheets.items.map((s) => ({
+        sheetId: idMap.get(s.id) ?? -1,
+        range: "*",
+      }));
+    });
+  } catch (err) {
+    console.error("[Checkpoint] Failed to list sheets:", err);
+    return;
+  }
+
+  await captureCheckpoint(toolCallId, toolName, ranges);
+}
+
+/**
+ * The only turn that can be reverted: the latest one with snapshots that is
+ * not reverted yet. Reverting an older turn would overwrite cells that later
+ * turns changed.
+ */
+export function latestRevertibleCheckpoint(
+  checkpoints: TurnCheckpoint[],
+): TurnCheckpoint | undefined {
+  return [...checkpoints]
+    .reverse()
+    .find((c) => c.snapshots.length > 0 && !c.revertedAt);
+}
+
+export interface RevertResult {
+  restored: number;
+  errors: string[];
+}
+
+/**
+ * Restore every snapshot of a turn, latest first, so each range ends up in
+ * the state it had before the turn's first write to it. Contents are not
+ * compared first: edits made to those cells since the turn are overwritten.
+ */
+export async function revertCheckpoint(
+  checkpoint: TurnCheckpoint,
+): Promise<RevertResult> {
+  const errors: string[] = [];
+  let restored = 0;
+
+  await Excel.run(async (context) => {
+    for (const snap of [...checkpoint.snapshots].reverse()) {
+      const label = `sheet ${snap.sheetId}!${snap.address || "*"}`;
+      try {
+        const sheet = await getWorksheetById(context, snap.sheetId);
+        if (!sheet) {
+          errors.push(`${label}: worksheet no longer exists`);
+          continue;
+        }
+
+        if (snap.clearAddress === "*") {
+          const used = sheet.getUsedRangeOrNullObject();
+          await context.sync();
+          if (!used.isNullObject) used.clear(Excel.ClearApplyTo.contents);
+        } else if (snap.clearAddress) {
+          sheet.getRange(snap.clearAddress).clear(Excel.ClearApplyTo.contents);
+        }
+
+        if (snap.address) {
+          const range = sheet.getRange(snap.address);
+          range.formulas = snap.formulas;
+          range.numberFormat = snap.numberFormat;
+        }
+        await context.sync();
+        restored++;
+      } catch (err) {
+        errors.push(
+          `${label}: ${err instanceof Error ? err.message : "restore failed"}`,
+        );
+      }
+    }
+  });
+
+  const updated = { ...checkpoint, revertedAt: Date.now() };
+  await saveCheckpoint(updated);
+
+  return { restored, errors };
+}
@@ -66,6 +66,30 @@ export function parseRange(range: string): {
   };
 }
 
+/**
+ * Inverse of parseRange: format a 0-indexed bounding box as A1 notation.
+ */
+export function formatRange(bounds: {
+  startCol: number;
+  startRow: number;
+  endCol: number;
+  endRow: number;
+}): string {
+  const start = `${columnIndexToLetter(bounds.startCol)}${bounds.startRow + 1}`;
+  const end = `${columnIndexToLetter(bounds.endCol)}${bounds.endRow + 1}`;
+  return start === end ? start : `${start}:${end}`;
+}
+
+function columnIndexToLetter(index: number): string {
+  let letter = "";
+  let temp = index;
+  while (temp >= 0) {
+    letter = String.fromCharCode((temp % 26) + 65) + letter;
+    temp = Math.floor(temp / 26) - 1;
+  }
+  return letter;
+}
+
 function parseCellAddress(addr: string): { col: number; row: number } | null {
   const match = addr.match(/^([A-Z]+)(\d+)$/i);
   if (!match) return null;
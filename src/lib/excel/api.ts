@@ -1,7 +1,67 @@
-/* global Excel */
-
+/* global Excel, Office */
+
+import { buildDependencyTrace, type TraceResult } from "./dependency-trace";
+import { createCellMatcher } from "./find-replace";
+import {
+  type CellRole,
+  DEFAULT_CONVENTION,
+  type FormatConvention,
+  mergeConvention,
+  type NumberFormatKind,
+  planFormatting,
+} from "./format-conventions";
+import {
+  type CellRect,
+  coalesceCells,
+  parseArea,
+  rectToA1,
+} from "./formula-refs";
+import {
+  type Bounds,
+  type Constraint,
+  constraintExcess,
+  minimize,
+  type Score,
+  seekRoot,
+} from "./goal-seek";
+import {
+  type CellFormat,
+  type DiffGrid,
+  type DiffOptions,
+  diffGrids,
+  type RangeDiff,
+} from "./range-diff";
 import { createSearchPageCollector } from "./search-data-pagination";
+import {
+  type GridArea,
+  layoutSensitivity,
+  scenarios,
+  sensitivityExtent,
+} from "./sensitivity";
 import { getStableSheetId, preloadSheetIds } from "./sheet-id-map";
+import {
+  binLabel,
+  createRandom,
+  type Distribution,
+  type OutputSummary,
+  sample,
+  summarize,
+  validateDistribution,
+} from "./simulation";
+import {
+  parseStructuredReference,
+  parseTotalsFormula,
+  type StructuredReference,
+  type TableSection,
+  type TotalsFunction,
+  totalsFormula,
+} from "./table-refs";
+import {
+  type AuditCheck,
+  auditWorkbookSnapshot,
+  type SheetAudit,
+} from "./workbook-audit";
+import { loadWorkbookSnapshot } from "./workbook-snapshot";
 
 export interface CellData {
   value: string | number | boolean | null;
@@ -15,6 +75,43 @@ export interface CellStyle {
   fgColor?: string;
   bold?: boolean;
   italic?: boolean;
+  underline?: string;
+  strikethrough?: boolean;
+  horizontalAlignment?: string;
+  verticalAlignment?: string;
+  wrapText?: boolean;
+  indentLevel?: number;
+  numberFormat?: string;
+}
+
+/** Same shape as set_cell_range's borderStyles, so layouts can be copied */
+export interface BorderSide {
+  style: string;
+  weight: string;
+  color?: string;
+}
+
+export type CellBorders = Partial<
+  Record<"top" | "bottom" | "left" | "right", BorderSide>
+>;
+
+export interface HyperlinkInfo {
+  url?: string;
+  /** In-workbook target, e.g. "Sheet2!A1" */
+  documentReference?: string;
+  screenTip?: string;
+}
+
+export interface CommentReplyInfo {
+  id: string;
+  author: string;
+  content: string;
+  createdAt: string;
+}
+
+export interface CommentThreadInfo extends CommentReplyInfo {
+  resolved: boolean;
+  replies?: CommentReplyInfo[];
 }
 
 export interface WorksheetInfo {
@@ -24,7 +121,16 @@ export interface WorksheetInfo {
   cells: Record<string, string | number | boolean | null>;
   formulas?: Record<string, string>;
   styles?: Record<string, CellStyle>;
-  borders?: Record<string, unknown>;
+  borders?: Record<string, CellBorders>;
+  mergedAreas?: string[];
+  /** Points, for columns and rows holding returned cells */
+  columnWidths?: Record<string, number>;
+  /** Only rows whose height differs from the sheet's standard height */
+  rowHeights?: Record<string, number>;
+  dataValidation?: DataValidationInfo[];
+  hyperlinks?: Record<string, HyperlinkInfo>;
+  notes?: Record<string, string>;
+  comments?: Record<string, CommentThreadInfo>;
 }
 
 export interface GetCellRangesResult {
@@ -61,15 +167,6 @@ function parseRangeAddress(address: string): {
   return { startCol: col, startRow: row };
 }
 
-function excelColorToHex(
-  color: Excel.RangeFont | Excel.RangeFill,
-): string | undefined {
-  const c = color as { color?: string };
-  if (!c.color || c.color === "null") return undefined;
-  if (c.color.startsWith("#")) return c.color.toUpperCase();
-  return c.color;
-}
-
 async function getPointsPerStandardColumnWidth(
   context: Excel.RequestContext,
   sheet: Excel.Worksheet,
@@ -119,6 +216,111 @@ export async function getWorksheetById(
   return null;
 }
 
+const A1_REFERENCE =
+  /^(\$?[A-Z]{1,3}\$?\d+(:\$?[A-Z]{1,3}\$?\d+)?|\$?[A-Z]{1,3}:\$?[A-Z]{1,3}|\$?\d+:\$?\d+)$/i;
+
+function tableSectionRange(
+  target: Excel.Table | Excel.TableColumn,
+  section: TableSection,
+): Excel.Range {
+  switch (section) {
+    case "all":
+      return target.getRange();
+    case "headers":
+      return target.getHeaderRowRange();
+    case "totals":
+      return target.getTotalRowRange();
+    default:
+      return target.getDataBodyRange();
+  }
+}
+
+async function resolveTableReference(
+  context: Excel.RequestContext,
+  ref: StructuredReference,
+): Promise<Excel.Range> {
+  const table = context.workbook.tables.getItemOrNullObject(ref.table);
+  await context.sync();
+  if (table.isNullObject) throw new Error(`Table "${ref.table}" not found`);
+
+  if (ref.section === "totals") {
+    table.load("showTotals");
+    await context.sync();
+    if (!table.showTotals) {
+      throw new Error(`Table "${ref.table}" has no totals row`);
+    }
+  }
+
+  if (!ref.columns) return tableSectionRange(table, ref.section);
+
+  const [first, last] = ref.columns.map((name) =>
+    table.columns.getItemOrNullObject(name),
+  );
+  await context.sync();
+  for (const [i, column] of [first, last].entries()) {
+    if (column.isNullObject) {
+      throw new Error(
+        `Column "${ref.columns[i]}" not found in table "${ref.table}"`,
+      );
+    }
+  }
+  const start = tableSectionRange(first, ref.section);
+  return ref.columns[0] === ref.columns[1]
+    ? start
+    : start.getBoundingRect(tableSectionRange(last, ref.section));
+}
+
+/**
+ * Resolve an A1 address, defined name, table name or structured reference
+ * (e.g. `Sales[Amount]`) to a range on the given sheet. Names are looked up
+ * in the sheet's scope first, then the workbook's.
+ */
+export async function resolveRange(
+  context: Excel.RequestContext,
+  sheet: Excel.Worksheet,
+  ref: string,
+): Promise<Excel.Range> {
+  if (A1_REFERENCE.test(ref)) return sheet.getRange(ref);
+
+  let range: Excel.Range;
+  const structured = parseStructuredReference(ref);
+  if (structured) {
+    range = await resolveTableReference(context, structured);
+  } else {
+    const sheetName = sheet.names.getItemOrNullObject(ref);
+    const workbookName = context.workbook.names.getItemOrNullObject(ref);
+    const table = context.workbook.tables.getItemOrNullObject(ref);
+    await context.sync();
+
+    const item = sheetName.isNullObject ? workbookName : sheetName;
+    if (!item.isNullObject) {
+      range = item.getRangeOrNullObject();
+      range.load("address");
+      await context.sync();
+      if (range.isNullObject) {
+        throw new Error(`Name "${ref}" does not refer to a range`);
+      }
+    } else if (!table.isNullObject) {
+      range = table.getDataBodyRange();
+    } else {
+      throw new Error(
+        `"${ref}" is neither an A1 address, a defined name nor a table`,
+      );
+    }
+  }
+
+  range.load("address");
+  range.worksheet.load("id");
+  sheet.load("id");
+  await context.sync();
+  if (range.worksheet.id !== sheet.id) {
+    throw new Error(
+      `"${ref}" refers to ${range.address}, which is on another sheet`,
+    );
+  }
+  return range;
+}
+
 export async function getWorksheetStableId(
   context: Excel.RequestContext,
   sheet: Excel.Worksheet,
@@ -128,12 +330,200 @@ export async function getWorksheetStableId(
   return getStableSheetId(sheet.id);
 }
 
+/** Addresses (without sheet) of the merged areas overlapping a range. */
+async function loadMergedAreas(
+  context: Excel.RequestContext,
+  range: Excel.Range,
+): Promise<string[]> {
+  const merged = range.getMergedAreasOrNullObject();
+  merged.load("areas/items/address");
+  await context.sync();
+  if (merged.isNullObject) return [];
+  return merged.areas.items.map(
+    (area) => area.address.split("!")[1] ?? area.address,
+  );
+}
+
+const MAX_STYLE_CELLS = 10_000;
+
+function describeHyperlink(
+  hyperlink: Excel.RangeHyperlink | undefined,
+): HyperlinkInfo | null {
+  if (!hyperlink?.address && !hyperlink?.documentReference) return null;
+  return {
+    ...(hyperlink.address && { url: hyperlink.address }),
+    ...(hyperlink.documentReference && {
+      documentReference: hyperlink.documentReference,
+    }),
+    ...(hyperlink.screenTip && { screenTip: hyperlink.screenTip }),
+  };
+}
+
+function cellInAreas(address: string, areas: CellRect[]): boolean {
+  const cell = parseArea(address.split("!").pop() ?? address);
+  return (
+    !!cell &&
+    areas.some(
+      (a) =>
+        cell.startRow >= a.startRow &&
+        cell.startRow <= a.endRow &&
+        cell.startCol >= a.startCol &&
+        cell.startCol <= a.endCol,
+    )
+  );
+}
+
+function cellKey(address: string): string {
+  return (address.split("!").pop() ?? address).replace(/\$/g, "");
+}
+
+/** Notes and threaded comment threads anchored inside the given areas */
+async function loadCellAnnotations(
+  context: Excel.RequestContext,
+  sheet: Excel.Worksheet,
+  areas: CellRect[],
+): Promise<{
+  notes: Record<string, string>;
+  comments: Record<string, CommentThreadInfo>;
+}> {
+  const notes: Record<string, string> = {};
+  const comments: Record<string, CommentThreadInfo> = {};
+
+  // Notes need ExcelApi 1.18; older hosts only have threaded comments
+  const noteItems = Office.context.requirements.isSetSupported(
+    "ExcelApi",
+    "1.18",
+  )
+    ? sheet.notes
+    : null;
+  noteItems?.load("items/content");
+  sheet.comments.load(
+    "items/id,items/content,items/authorName,items/creationDate,items/resolved",
+  );
+  await context.sync();
+
+  const noteLocations = (noteItems?.items ?? []).map((note) => {
+    const location = note.getLocation();
+    location.load("address");
+    return { note, location };
+  });
+  const commentLocations = sheet.comments.items.map((comment) => {
+    const location = comment.getLocation();
+    location.load("address");
+    comment.replies.load(
+      "items/id,items/content,items/authorName,items/creationDate",
+    );
+    return { comment, location };
+  });
+  await context.sync();
+
+  for (const { note, location } of noteLocations) {
+    if (cellInAreas(location.address, areas)) {
+      notes[cellKey(location.address)] = note.content;
+    }
+  }
+  for (const { comment, location } of commentLocations) {
+    if (!cellInAreas(location.address, areas)) continue;
+    const replies = comment.replies.items.map((reply) => ({
+      id: reply.id,
+      author: reply.authorName,
+      content: reply.content,
+      createdAt: new Date(reply.creationDate).toISOString(),
+    }));
+    comments[cellKey(location.address)] = {
+      id: comment.id,
+      author: comment.authorName,
+      content: comment.content,
+      createdAt: new Date(comment.creationDate).toISOString(),
+      resolved: comment.resolved,
+      ...(replies.length > 0 && { replies }),
+    };
+  }
+  return { notes, comments };
+}
+
+// Nearest set_cell_range borderStyles value, so reads can be written back
+const BORDER_STYLE_NAMES: Record<string, string> = {
+  Continuous: "solid",
+  Dash: "dashed",
+  DashDot: "dashed",
+  DashDotDot: "dashed",
+  SlantDashDot: "dashed",
+  Dot: "dotted",
+  Double: "double",
+};
+
+const BORDER_WEIGHT_NAMES: Record<string, string> = {
+  Hairline: "thin",
+  Thin: "thin",
+  Medium: "medium",
+  Thick: "thick",
+};
+
+function describeCellStyle(
+  props: Excel.CellProperties,
+  numberFormat: unknown,
+): CellStyle {
+  const style: CellStyle = {};
+  const format = props.format;
+  const font = format?.font;
+  if (font?.size) style.sz = font.size;
+  if (font?.name) style.family = font.name;
+  if (font?.bold !== null && font?.bold !== undefined) style.bold = font.bold;
+  if (font?.italic !== null && font?.italic !== undefined) {
+    style.italic = font.italic;
+  }
+  if (font?.color) style.color = font.color.toUpperCase();
+  if (font?.underline && font.underline !== "None") {
+    style.underline = lowerFirst(font.underline);
+  }
+  if (font?.strikethrough) style.strikethrough = true;
+  if (format?.fill?.color) style.fgColor = format.fill.color.toUpperCase();
+  if (format?.horizontalAlignment && format.horizontalAlignment !== "General") {
+    style.horizontalAlignment = lowerFirst(format.horizontalAlignment);
+  }
+  if (format?.verticalAlignment && format.verticalAlignment !== "Bottom") {
+    style.verticalAlignment = lowerFirst(format.verticalAlignment);
+  }
+  if (format?.wrapText) style.wrapText = true;
+  if (format?.indentLevel) style.indentLevel = format.indentLevel;
+  if (typeof numberFormat === "string" && numberFormat !== "General") {
+    style.numberFormat = numberFormat;
+  }
+  return style;
+}
+
+function describeBorders(props: Excel.CellProperties): CellBorders | null {
+  const sides = props.format?.borders;
+  if (!sides) return null;
+  const result: CellBorders = {};
+  for (const side of ["top", "bottom", "left", "right"] as const) {
+    const border = sides[side];
+    if (!border?.style || border.style === "None") continue;
+    result[side] = {
+      style: BORDER_STYLE_NAMES[border.style] ?? "solid",
+      weight: BORDER_WEIGHT_NAMES[border.weight ?? "Thin"] ?? "thin",
+      ...(border.color && { color: border.color.toUpperCase() }),
+    };
+  }
+  return Object.keys(result).length > 0 ? result : null;
+}
+
 export async function getCellRanges(
   sheetId: number,
   ranges: string[],
-  options: { includeStyles?: boolean; cellLimit?: number } = {},
+  options: {
+    includeStyles?: boolean;
+    /** Probing validation rules takes many syncs, so callers opt in */
+    includeDataValidation?: boolean;
+    cellLimit?: number;
+  } = {},
 ): Promise<GetCellRangesResult> {
-  const { includeStyles = true, cellLimit = 2000 } = options;
+  const {
+    includeStyles = true,
+    includeDataValidation = false,
+    cellLimit = 2000,
+  } = options;
 
   return Excel.run(async (context) => {
     const sheet = await getWorksheetById(context, sheetId);
@@ -141,7 +531,7 @@ export async function getCellRanges(
       throw new Error(`Worksheet with ID ${sheetId} not found`);
     }
 
-    sheet.load("name,id");
+    sheet.load("name,id,standardHeight");
     const usedRange = sheet.getUsedRangeOrNullObject();
     usedRange.load("address");
     await context.sync();
@@ -153,6 +543,14 @@ export async function getCellRanges(
     const cells: Record<string, string | number | boolean | null> = {};
     const formulas: Record<string, string> = {};
     const styles: Record<string, CellStyle> = {};
+    const borders: Record<string, CellBorders> = {};
+    let borderCount = 0;
+    const mergedAreas: string[] = [];
+    const columnWidths: Record<string, number> = {};
+    const rowHeights: Record<string, number> = {};
+    const dataValidation: DataValidationInfo[] = [];
+    const hyperlinks: Record<string, HyperlinkInfo> = {};
+    const areas: CellRect[] = [];
     let totalCells = 0;
     let hasMore = false;
 
@@ -162,7 +560,7 @@ export async function getCellRanges(
         break;
       }
 
-      const range = sheet.getRange(rangeAddr);
+      const range = await resolveRange(context, sheet, rangeAddr);
       range.load("values,formulas,address,rowCount,columnCount");
       await context.sync();
 
@@ -175,7 +573,13 @@ export async function getCellRanges(
         : 0;
       const startRow = startMatch ? Number.parseInt(startMatch[2], 10) - 1 : 0;
 
-      const styleTargetsMap = new Map<string, Excel.Range>();
+      areas.push({
+        startRow,
+        startCol,
+        endRow: startRow + range.rowCount - 1,
+        endCol: startCol + range.columnCount - 1,
+      });
+      const styled = new Set<string>();
 
       for (let r = 0; r < range.rowCount && totalCells < cellLimit; r++) {
         for (let c = 0; c < range.columnCount && totalCells < cellLimit; c++) {
@@ -186,53 +590,118 @@ export async function getCellRanges(
           if (value !== null && value !== "" && value !== undefined) {
             cells[addr] = value as string | number | boolean;
             totalCells++;
-            if (includeStyles) {
-              styleTargetsMap.set(addr, range.getCell(r, c));
-            }
+            styled.add(`${r},${c}`);
           }
 
           if (typeof formula === "string" && formula.startsWith("=")) {
             formulas[addr] = formula;
-            if (includeStyles) {
-              styleTargetsMap.set(addr, range.getCell(r, c));
-            }
+            styled.add(`${r},${c}`);
           }
         }
       }
 
-      if (includeStyles && styleTargetsMap.size > 0) {
-        const styleTargets = Array.from(styleTargetsMap.entries());
-        for (const [, cell] of styleTargets) {
-          cell.format.font.load("name,size,color,bold,italic");
-          cell.format.fill.load("color");
+      // Whole-column ranges would make getCellProperties load a million
+      // cells; only the top rows are styled then
+      const styleRows = Math.min(
+        range.rowCount,
+        Math.max(1, Math.floor(MAX_STYLE_CELLS / range.columnCount)),
+      );
+      const styleCols = Math.min(range.columnCount, MAX_STYLE_CELLS);
+      const styleRange = range
+        .getCell(0, 0)
+        .getResizedRange(styleRows - 1, styleCols - 1);
+
+      if (!includeStyles) {
+        const links = styleRange.getCellProperties({ hyperlink: true });
+        await context.sync();
+        for (let r = 0; r < styleRows; r++) {
+          for (let c = 0; c < styleCols; c++) {
+            const link = describeHyperlink(links.value[r][c].hyperlink);
+            if (!link) continue;
+            hyperlinks[cellAddress(startRow + r, startCol + c)] = link;
+          }
         }
+      } else {
+        const props = styleRange.getCellProperties({
+          hyperlink: true,
+          format: {
+            font: {
+              name: true,
+              size: true,
+              color: true,
+              bold: true,
+              italic: true,
+              underline: true,
+              strikethrough: true,
+            },
+            fill: { color: true },
+            horizontalAlignment: true,
+            verticalAlignment: true,
+            wrapText: true,
+            indentLevel: true,
+            borders: { style: true, weight: true, color: true },
+          },
+        });
+        styleRange.load("numberFormat");
+        const columnProps = styleRange.getColumnProperties({
+          format: { columnWidth: true },
+        });
+        const rowProps = styleRange.getRowProperties({
+          format: { rowHeight: true },
+        });
         await context.sync();
 
-        for (const [addr, cell] of styleTargets) {
-          const rangeStyle: CellStyle = {};
-          const font = cell.format.font;
-          const fill = cell.format.fill;
-
-          if (font.size) rangeStyle.sz = font.size;
-          if (font.name) rangeStyle.family = font.name;
-          if (font.bold !== null && font.bold !== undefined)
-            rangeStyle.bold = font.bold;
-          if (font.italic !== null && font.italic !== undefined)
-            rangeStyle.italic = font.italic;
-
-          const fontColor = excelColorToHex(font as Excel.RangeFont);
-          if (fontColor) rangeStyle.color = fontColor;
-
-          const fillColor = excelColorToHex(fill as Excel.RangeFill);
-          if (fillColor) rangeStyle.fgColor = fillColor;
-
-          if (Object.keys(rangeStyle).length > 0) {
-            styles[addr] = rangeStyle;
+        for (let r = 0; r < styleRows; r++) {
+          for (let c = 0; c < styleCols; c++) {
+            const addr = cellAddress(startRow + r, startCol + c);
+            const link = describeHyperlink(props.value[r][c].hyperlink);
+            if (link) hyperlinks[addr] = link;
+            const cellBorders = describeBorders(props.value[r][c]);
+            if (cellBorders && borderCount < cellLimit) {
+              borders[addr] = cellBorders;
+              borderCount++;
+            }
+            if (!styled.has(`${r},${c}`)) continue;
+
+            const rangeStyle = describeCellStyle(
+              props.value[r][c],
+              styleRange.numberFormat[r][c],
+            );
+            if (Object.keys(rangeStyle).length > 0) {
+              styles[addr] = rangeStyle;
+            }
+            columnWidths[columnIndexToLetter(startCol + c)] =
+              columnProps.value[c].format?.columnWidth ?? 0;
+            const height = rowProps.value[r].format?.rowHeight;
+            if (height !== undefined && height !== sheet.standardHeight) {
+              rowHeights[String(startRow + r + 1)] = height;
+            }
           }
         }
       }
+
+      mergedAreas.push(...(await loadMergedAreas(context, range)));
+
+      if (includeDataValidation) {
+        dataValidation.push(
+          ...(await loadDataValidation(
+            context,
+            sheet,
+            startRow,
+            startCol,
+            range.rowCount,
+            range.columnCount,
+          )),
+        );
+      }
     }
 
+    const { notes, comments } = await loadCellAnnotations(
+      context,
+      sheet,
+      areas,
+    );
+
     return {
       success: true,
       hasMore,
@@ -243,7 +712,14 @@ export async function getCellRanges(
         cells,
         ...(Object.keys(formulas).length > 0 && { formulas }),
         ...(includeStyles && Object.keys(styles).length > 0 && { styles }),
-        borders: {},
+        ...(Object.keys(borders).length > 0 && { borders }),
+        ...(mergedAreas.length > 0 && { mergedAreas }),
+        ...(Object.keys(columnWidths).length > 0 && { columnWidths }),
+        ...(Object.keys(rowHeights).length > 0 && { rowHeights }),
+        ...(dataValidation.length > 0 && { dataValidation }),
+        ...(Object.keys(hyperlinks).length > 0 && { hyperlinks }),
+        ...(Object.keys(notes).length > 0 && { notes }),
+        ...(Object.keys(comments).length > 0 && { comments }),
       },
     };
   });
@@ -270,7 +746,7 @@ export async function getRangeAsCsv(
     if (!sheet) throw new Error(`Worksheet with ID ${sheetId} not found`);
 
     sheet.load("name");
-    const range = sheet.getRange(rangeAddr);
+    const range = await resolveRange(context, sheet, rangeAddr);
     range.load("values,rowCount,columnCount");
     await context.sync();
 
@@ -374,16 +850,18 @@ export async function searchData(
         ) as Excel.Worksheet[])
       : sheets.items;
 
-    const pattern = useRegex
-      ? new RegExp(searchTerm, matchCase ? "" : "i")
-      : null;
+    const matcher = createCellMatcher(searchTerm, {
+      matchCase,
+      matchEntireCell,
+      useRegex,
+    });
 
     for (const sheet of sheetsToSearch) {
       if (stopSearch) break;
 
       sheet.load("name,id");
       const searchRange = range
-        ? sheet.getRange(range)
+        ? await resolveRange(context, sheet, range)
         : sheet.getUsedRangeOrNullObject();
       searchRange.load("values,formulas,address,rowCount,columnCount");
       await context.sync();
@@ -401,22 +879,7 @@ export async function searchData(
           const searchTarget =
             matchFormulas && formula ? String(formula) : String(value ?? "");
 
-          let isMatch = false;
-          if (pattern) {
-            isMatch = pattern.test(searchTarget);
-          } else {
-            const compareVal = matchCase
-              ? searchTarget
-              : searchTarget.toLowerCase();
-            const compareTerm = matchCase
-              ? searchTerm
-              : searchTerm.toLowerCase();
-            isMatch = matchEntireCell
-              ? compareVal === compareTerm
-              : compareVal.includes(compareTerm);
-          }
-
-          if (!isMatch) continue;
+          if (!matcher.test(searchTarget)) continue;
 
           const shouldStop = pageCollector.add({
             sheetName: sheet.name,
@@ -455,12 +918,289 @@ export async function searchData(
   });
 }
 
+export interface FindReplaceChange {
+  sheetName: string;
+  sheetId: number;
+  a1: string;
+  before: string;
+  after: string;
+}
+
+export interface FindReplaceResult {
+  success: boolean;
+  applied: boolean;
+  changes: FindReplaceChange[];
+  totalChanges: number;
+  returned: number;
+  offset: number;
+  hasMore: boolean;
+  nextOffset: number | null;
+  /** Formula cells whose displayed value matched but can't be replaced */
+  skippedFormulaResults?: string[];
+  /** Written cells per sheet, for dirty tracking */
+  changedRanges?: { sheetId: number; range: string }[];
+}
+
+const MAX_SKIPPED_LISTED = 20;
+
+export async function findReplace(params: {
+  searchTerm: string;
+  replacement: string;
+  apply: boolean;
+  sheetId?: number;
+  range?: string;
+  matchCase?: boolean;
+  matchEntireCell?: boolean;
+  matchFormulas?: boolean;
+  useRegex?: boolean;
+  offset?: number;
+  maxResults?: number;
+}): Promise<FindReplaceResult> {
+  const {
+    searchTerm,
+    replacement,
+    apply,
+    sheetId,
+    range,
+    matchFormulas = false,
+    offset = 0,
+    maxResults = 200,
+  } = params;
+  const matcher = createCellMatcher(searchTerm, params);
+
+  return Excel.run(async (context) => {
+    const sheets = context.workbook.worksheets;
+    sheets.load("items/id");
+    await context.sync();
+    const stableIdMap = await preloadSheetIds(sheets.items);
+
+    const sheetsToSearch = sheetId
+      ? ([await getWorksheetById(context, sheetId)].filter(
+          Boolean,
+        ) as Excel.Worksheet[])
+      : sheets.items;
+    if (sheetId && sheetsToSearch.length === 0) {
+      throw new Error(`Worksheet with ID ${sheetId} not found`);
+    }
+
+    // Dry runs page through changes; applying writes all of them
+    const pageCollector = createSearchPageCollector<FindReplaceChange>(
+      offset,
+      maxResults,
+    );
+    let total = 0;
+    const skipped: string[] = [];
+    const changedRanges: { sheetId: number; range: string }[] = [];
+
+    for (const sheet of sheetsToSearch) {
+      sheet.load("name,id");
+      sheet.protection.load("protected");
+      const searchRange = range
+        ? await resolveRange(context, sheet, range)
+        : sheet.getUsedRangeOrNullObject();
+      searchRange.load("values,formulas,address,rowCount,columnCount");
+      await context.sync();
+      if (searchRange.isNullObject) continue;
+
+      const { startCol, startRow } = parseRangeAddress(searchRange.address);
+      const stableSheetId =
+        stableIdMap.get(sheet.id) || (await getStableSheetId(sheet.id));
+      const written: { row: number; col: number; after: string }[] = [];
+
+      for (let r = 0; r < searchRange.rowCount; r++) {
+        for (let c = 0; c < searchRange.columnCount; c++) {
+          const formula = searchRange.formulas[r][c];
+          const isFormula =
+            typeof formula === "string" && formula.startsWith("=");
+          const value = searchRange.values[r][c];
+          const before =
+            matchFormulas && isFormula ? formula : String(value ?? "");
+          if (before === "" || !matcher.test(before)) continue;
+
+          const a1 = cellAddress(startRow + r, startCol + c);
+          if (isFormula && !matchFormulas) {
+            if (skipped.length < MAX_SKIPPED_LISTED) {
+              skipped.push(`${sheet.name}!${a1}`);
+            }
+            continue;
+          }
+          const after = matcher.replace(before, replacement);
+          if (after === before) continue;
+
+          total++;
+          pageCollector.add({
+            sheetName: sheet.name,
+            sheetId: stableSheetId,
+            a1,
+            before,
+            after,
+          });
+          written.push({ row: startRow + r, col: startCol + c, after });
+        }
+      }
+
+      if (!apply || written.length === 0) continue;
+
+      const rects = coalesceCells(written);
+      if (sheet.protection.protected) {
+        for (const rect of rects) {
+          await assertUnlocked(context, sheet, sheet.getRange(rectToA1(rect)));
+        }
+      }
+      for (const { row, col, after } of written) {
+        const cell = searchRange.getCell(row - startRow, col - startCol);
+        if (matchFormulas) cell.formulas = [[after]];
+        else cell.values = [[after]];
+      }
+      await context.sync();
+      for (const rect of rects) {
+        changedRanges.push({ sheetId: stableSheetId, range: rectToA1(rect) });
+      }
+    }
+
+    const page = pageCollector.toPage();
+    return {
+      success: true,
+      applied: apply,
+      changes: pageCollector.matches,
+      totalChanges: total,
+      returned: page.returned,
+      offset: page.offset,
+      hasMore: page.hasMore,
+      nextOffset: page.nextOffset,
+      ...(skipped.length > 0 && { skippedFormulaResults: skipped }),
+      ...(changedRanges.length > 0 && { changedRanges }),
+    };
+  });
+}
+
+export type CompareSource =
+  | { sheetId: number; range?: string }
+  /** Already-parsed data, e.g. a CSV from the VFS */
+  | { label: string; values: unknown[][] };
+
+export interface CompareRangesResult extends RangeDiff {
+  success: boolean;
+  left: string;
+  right: string;
+  messages?: string[];
+}
+
+async function loadDiffGrid(
+  context: Excel.RequestContext,
+  source: CompareSource,
+  options: { formulas: boolean; formats: boolean },
+  messages: string[],
+): Promise<{ label: string; grid: DiffGrid }> {
+  if ("values" in source) {
+    return {
+      label: source.label,
+      grid: { startRow: 0, startCol: 0, values: source.values },
+    };
+  }
+
+  const sheet = await getWorksheetById(context, source.sheetId);
+  if (!sheet) throw new Error(`Worksheet with ID ${source.sheetId} not found`);
+  sheet.load("name");
+  const range = source.range
+    ? await resolveRange(context, sheet, source.range)
+    : sheet.getUsedRangeOrNullObject(true);
+  range.load(
+    "address,values,formulas,formulasR1C1,numberFormat,rowIndex,columnIndex,rowCount,columnCount",
+  );
+  await context.sync();
+  if (range.isNullObject) {
+    return {
+      label: `${sheet.name} (empty)`,
+      grid: { startRow: 0, startCol: 0, values: [] },
+    };
+  }
+
+  const label = `${sheet.name}!${range.address.split("!")[1]}`;
+  const grid: DiffGrid = {
+    startRow: range.rowIndex,
+    startCol: range.columnIndex,
+    values: range.values,
+    ...(options.formulas && {
+      formulas: range.formulas,
+      formulasR1C1: range.formulasR1C1,
+    }),
+  };
+
+  if (options.formats) {
+    if (range.rowCount * range.columnCount > MAX_STYLE_CELLS) {
+      messages.push(
+        `${label} has more than ${MAX_STYLE_CELLS} cells; formats were not compared`,
+      );
+    } else {
+      const props = range.getCellProperties({
+        format: {
+          font: { bold: true, italic: true, color: true },
+          fill: { color: true },
+        },
+      });
+      await context.sync();
+      grid.formats = props.value.map((row, r) =>
+        row.map(
+          (cell, c): CellFormat => ({
+            numberFormat: String(range.numberFormat[r][c] ?? "General"),
+            bold: cell.format?.font?.bold ?? null,
+            italic: cell.format?.font?.italic ?? null,
+            fontColor: cell.format?.font?.color?.toUpperCase() ?? null,
+            fill: cell.format?.fill?.color?.toUpperCase() ?? null,
+          }),
+        ),
+      );
+    }
+  }
+  return { label, grid };
+}
+
+export async function compareRanges(
+  left: CompareSource,
+  right: CompareSource,
+  options: DiffOptions = {},
+): Promise<CompareRangesResult> {
+  const { compareFormulas = true, compareFormats = false } = options;
+
+  return Excel.run(async (context) => {
+    const messages: string[] = [];
+    const load = { formulas: compareFormulas, formats: compareFormats };
+    const a = await loadDiffGrid(context, left, load, messages);
+    const b = await loadDiffGrid(context, right, load, messages);
+    if (compareFormats && ("values" in left || "values" in right)) {
+      messages.push("Formats can only be compared between two ranges");
+    }
+
+    const diff = diffGrids(a.grid, b.grid, {
+      ...options,
+      compareFormulas,
+      compareFormats,
+    });
+    return {
+      success: true,
+      left: a.label,
+      right: b.label,
+      ...diff,
+      ...(messages.length > 0 && { messages }),
+    };
+  });
+}
+
 export interface ExcelObject {
   id: string;
-  type: "chart" | "pivotTable";
+  type:
+    | "chart"
+    | "pivotTable"
+    | "table"
+    | "conditionalFormat"
+    | "namedRange"
+    | "shape";
   name: string;
   sheetId: number;
   sheetName: string;
+  range?: string;
+  details?: Record<string, unknown>;
 }
 
 export interface GetAllObjectsResult {
@@ -503,43 +1243,98 @@ export async function getAllObjects(
       const stableSheetId =
         stableIdMap.get(sheet.id) || (await getStableSheetId(sheet.id));
 
-      for (const chart of charts.items) {
-        chart.load("id,name");
-        await context.sync();
-        if (!id || chart.id === id) {
-          objects.push({
-            id: chart.id,
-            type: "chart",
-            name: chart.name,
-            sheetId: stableSheetId,
-            sheetName: sheet.name,
-          });
-        }
+      for (const chart of await loadCharts(context, charts, id)) {
+        objects.push({
+          ...chart,
+          type: "chart",
+          sheetId: stableSheetId,
+          sheetName: sheet.name,
+        });
       }
 
-      for (const pivot of pivotTables.items) {
-        pivot.load("id,name");
-        await context.sync();
-        if (!id || pivot.id === id) {
-          objects.push({
-            id: pivot.id,
-            type: "pivotTable",
-            name: pivot.name,
-            sheetId: stableSheetId,
-            sheetName: sheet.name,
-          });
-        }
+      for (const pivot of await loadPivotTables(context, pivotTables, id)) {
+        objects.push({
+          ...pivot,
+          type: "pivotTable",
+          sheetId: stableSheetId,
+          sheetName: sheet.name,
+        });
       }
-    }
 
-    return { success: true, objects };
-  });
+      for (const table of await loadTables(context, sheet.tables, id)) {
+        objects.push({
+          ...table,
+          type: "table",
+          sheetId: stableSheetId,
+          sheetName: sheet.name,
+        });
+      }
+
+      for (const cf of await loadConditionalFormats(context, sheet, id)) {
+        objects.push({
+          ...cf,
+          type: "conditionalFormat",
+          sheetId: stableSheetId,
+          sheetName: sheet.name,
+        });
+      }
+
+      for (const item of await loadNamedItems(
+        context,
+        sheet.names,
+        "sheet",
+        id,
+      )) {
+        objects.push(namedRangeObject(item, stableSheetId, sheet.name));
+      }
+
+      for (const shape of await loadShapes(context, sheet.shapes, id)) {
+        objects.push({
+          ...shape,
+          type: "shape",
+          sheetId: stableSheetId,
+          sheetName: sheet.name,
+        });
+      }
+    }
+
+    // Workbook-scoped names are listed under the sheet they refer to
+    const checkedSheetNames = new Set(sheetsToCheck.map((s) => s.name));
+    for (const item of await loadNamedItems(
+      context,
+      context.workbook.names,
+      "workbook",
+      id,
+    )) {
+      if (!item.sheetName) {
+        if (!sheetId) objects.push(namedRangeObject(item, 0, ""));
+        continue;
+      }
+      if (!checkedSheetNames.has(item.sheetName)) continue;
+      const target = sheets.items.find((s) => s.name === item.sheetName);
+      objects.push(
+        namedRangeObject(item, stableIdMap.get(target.id) ?? 0, item.sheetName),
+      );
+    }
+
+    return { success: true, objects };
+  });
 }
 
 export interface CellInput {
   value?: unknown;
   formula?: string;
+  /** Legacy note; "" deletes it */
   note?: string;
+  /** Link target; `remove` also clears the cell's formatting */
+  hyperlink?: HyperlinkInfo & { remove?: boolean };
+  /** Start, answer, resolve or delete the cell's threaded comment */
+  comment?: {
+    content?: string;
+    reply?: string;
+    resolved?: boolean;
+    delete?: boolean;
+  };
   cellStyles?: {
     fontWeight?: "normal" | "bold";
     fontStyle?: "normal" | "italic";
@@ -559,6 +1354,52 @@ export interface CellInput {
   };
 }
 
+async function writeComments(
+  context: Excel.RequestContext,
+  sheet: Excel.Worksheet,
+  edits: [string, NonNullable<CellInput["comment"]>][],
+): Promise<string[]> {
+  const messages: string[] = [];
+  sheet.comments.load("items");
+  await context.sync();
+  const locations = sheet.comments.items.map((comment) => {
+    const location = comment.getLocation();
+    location.load("address");
+    return { comment, location };
+  });
+  await context.sync();
+  const threads = new Map(
+    locations.map(({ comment, location }) => [
+      cellKey(location.address),
+      comment,
+    ]),
+  );
+
+  for (const [addr, edit] of edits) {
+    let thread = threads.get(addr);
+    if (edit.delete) {
+      if (thread) thread.delete();
+      continue;
+    }
+    if (edit.content) {
+      if (thread) {
+        messages.push(
+          `${addr} already has a comment thread; use reply to answer it.`,
+        );
+      } else {
+        thread = sheet.comments.add(addr, edit.content);
+      }
+    }
+    if (edit.reply) {
+      if (thread) thread.replies.add(edit.reply);
+      else messages.push(`${addr} has no comment thread to reply to.`);
+    }
+    if (edit.resolved !== undefined && thread) thread.resolved = edit.resolved;
+  }
+  await context.sync();
+  return messages;
+}
+
 export interface SetCellRangeResult {
   success: boolean;
   cellsWritten: number;
@@ -575,16 +1416,29 @@ export async function setCellRange(
     resizeWidth?: { type: "points" | "standard"; value: number };
     resizeHeight?: { type: "points" | "standard"; value: number };
     allowOverwrite?: boolean;
+    merge?: "merge" | "mergeAcross" | "unmerge";
   } = {},
 ): Promise<SetCellRangeResult> {
-  const { copyToRange, resizeWidth, resizeHeight, allowOverwrite } = options;
+  const { copyToRange, resizeWidth, resizeHeight, allowOverwrite, merge } =
+    options;
+
+  // Checked before anything is written, so the write doesn't half land
+  const hasNotes = cells.some((row) => row.some((c) => c.note !== undefined));
+  if (
+    hasNotes &&
+    !Office.context.requirements.isSetSupported("ExcelApi", "1.18")
+  ) {
+    throw new Error(
+      "Notes need ExcelApi 1.18, which this Excel does not support; use a comment instead",
+    );
+  }
 
   return Excel.run(async (context) => {
     const sheet = await getWorksheetById(context, sheetId);
     if (!sheet) throw new Error(`Worksheet with ID ${sheetId} not found`);
 
     const messages: string[] = [];
-    let range = sheet.getRange(rangeAddr);
+    let range = await resolveRange(context, sheet, rangeAddr);
     range.load("rowCount,columnCount,values,formulas,address");
     await context.sync();
 
@@ -603,12 +1457,18 @@ export async function setCellRange(
       await context.sync();
     }
 
+    await assertUnlocked(context, sheet, range);
+
     if (!allowOverwrite) {
       const nonEmptyCells: string[] = [];
       const { startCol, startRow } = parseRangeAddress(range.address);
 
       for (let r = 0; r < range.rowCount; r++) {
         for (let c = 0; c < range.columnCount; c++) {
+          // Cells without a value or formula (e.g. only a comment) are left
+          // as they are, so annotating filled cells needs no overwrite
+          const input = cells[r]?.[c];
+          if (!input?.formula && (input?.value ?? null) === null) continue;
           const value = range.values[r][c];
           const formula = range.formulas[r][c];
           const hasValue =
@@ -634,9 +1494,43 @@ export async function setCellRange(
       }
     }
 
+    const { startCol: writeCol, startRow: writeRow } = parseRangeAddress(
+      range.address,
+    );
+    const hasContent = (cell: CellInput | undefined) =>
+      !!cell?.formula ||
+      (cell?.value !== undefined && cell.value !== null && cell.value !== "");
+
+    if (merge === "unmerge") {
+      range.unmerge();
+    } else {
+      // Excel only shows the top-left cell of a merged area; anything written
+      // to the rest is kept but invisible
+      for (const address of await loadMergedAreas(context, range)) {
+        const area = parseArea(address);
+        if (!area) continue;
+        const hidden: string[] = [];
+        for (let r = area.startRow; r <= area.endRow; r++) {
+          for (let c = area.startCol; c <= area.endCol; c++) {
+            if (r === area.startRow && c === area.startCol) continue;
+            if (hasContent(cells[r - writeRow]?.[c - writeCol])) {
+              hidden.push(cellAddress(r, c));
+            }
+          }
+        }
+        if (hidden.length > 0) {
+          messages.push(
+            `${hidden.join(", ")} ${hidden.length === 1 ? "is" : "are"} hidden inside merged area ${address}; only ${cellAddress(area.startRow, area.startCol)} is displayed. Write to the top-left cell or unmerge first.`,
+          );
+        }
+      }
+    }
+
     const values: unknown[][] = [];
     const formulas: (string | null)[][] = [];
     let hasFormulas = false;
+    const notesToWrite: [string, string][] = [];
+    const commentsToWrite: [string, NonNullable<CellInput["comment"]>][] = [];
 
     for (let r = 0; r < cells.length; r++) {
       values[r] = [];
@@ -665,9 +1559,32 @@ export async function setCellRange(
     for (let r = 0; r < cells.length; r++) {
       for (let c = 0; c < cells[r].length; c++) {
         const cell = cells[r][c];
-        if (!cell.cellStyles && !cell.borderStyles && !cell.note) continue;
+        if (
+          !cell.cellStyles &&
+          !cell.borderStyles &&
+          cell.note === undefined &&
+          !cell.hyperlink &&
+          !cell.comment
+        ) {
+          continue;
+        }
 
         const cellRange = range.getCell(r, c);
+        const addr = cellAddress(writeRow + r, writeCol + c);
+
+        // Before styling, since linking applies Excel's Hyperlink style
+        if (cell.hyperlink?.remove) {
+          cellRange.clear(Excel.ClearApplyTo.removeHyperlinks);
+        } else if (cell.hyperlink) {
+          const { url, documentReference, screenTip } = cell.hyperlink;
+          cellRange.hyperlink = {
+            ...(url && { address: url }),
+            ...(documentReference && { documentReference }),
+            ...(screenTip && { screenTip }),
+          };
+        }
+        if (cell.note !== undefined) notesToWrite.push([addr, cell.note]);
+        if (cell.comment) commentsToWrite.push([addr, cell.comment]);
 
         if (cell.cellStyles) {
           const s = cell.cellStyles;
@@ -732,20 +1649,55 @@ export async function setCellRange(
             }
           }
         }
-
-        if (cell.note) {
-          cellRange.load("address");
-          await context.sync();
-          const cellAddr = cellRange.address.split("!")[1] || cellRange.address;
-          sheet.notes.add(cellAddr, cell.note);
-        }
       }
     }
 
     await context.sync();
 
+    if (notesToWrite.length > 0) {
+      const existing = notesToWrite.map(([addr]) =>
+        sheet.notes.getItemOrNullObject(addr),
+      );
+      await context.sync();
+      notesToWrite.forEach(([addr, content], i) => {
+        const note = existing[i];
+        if (note.isNullObject) {
+          if (content) sheet.notes.add(addr, content);
+        } else if (content) {
+          note.content = content;
+        } else {
+          note.delete();
+        }
+      });
+      await context.sync();
+    }
+
+    if (commentsToWrite.length > 0) {
+      messages.push(...(await writeComments(context, sheet, commentsToWrite)));
+    }
+
+    if (merge === "merge" || merge === "mergeAcross") {
+      // Merging keeps the top-left value of each merged area only
+      const across = merge === "mergeAcross";
+      const dropped: string[] = [];
+      for (let r = 0; r < cells.length; r++) {
+        for (let c = 0; c < cells[r].length; c++) {
+          const kept = c === 0 && (across || r === 0);
+          if (!kept && hasContent(cells[r][c])) {
+            dropped.push(cellAddress(writeRow + r, writeCol + c));
+          }
+        }
+      }
+      range.merge(across);
+      if (dropped.length > 0) {
+        messages.push(
+          `Merging discarded the values of ${dropped.join(", ")}; only the top-left cell of each merged area keeps its value.`,
+        );
+      }
+    }
+
     if (copyToRange) {
-      const destRange = sheet.getRange(copyToRange);
+      const destRange = await resolveRange(context, sheet, copyToRange);
       destRange.copyFrom(range, Excel.RangeCopyType.all);
       await context.sync();
     }
@@ -807,7 +1759,8 @@ export async function clearCellRange(
     const sheet = await getWorksheetById(context, sheetId);
     if (!sheet) throw new Error(`Worksheet with ID ${sheetId} not found`);
 
-    const range = sheet.getRange(rangeAddr);
+    const range = await resolveRange(context, sheet, rangeAddr);
+    await assertUnlocked(context, sheet, range);
 
     switch (clearType) {
       case "contents":
@@ -842,8 +1795,8 @@ export async function copyTo(
     const sheet = await getWorksheetById(context, sheetId);
     if (!sheet) throw new Error(`Worksheet with ID ${sheetId} not found`);
 
-    const source = sheet.getRange(sourceRange);
-    const dest = sheet.getRange(destinationRange);
+    const source = await resolveRange(context, sheet, sourceRange);
+    const dest = await resolveRange(context, sheet, destinationRange);
     dest.copyFrom(source, Excel.RangeCopyType.all);
     await context.sync();
 
@@ -1039,7 +1992,9 @@ export async function resizeRange(
     const sheet = await getWorksheetById(context, sheetId);
     if (!sheet) throw new Error(`Worksheet with ID ${sheetId} not found`);
 
-    const targetRange = range ? sheet.getRange(range) : sheet.getRange();
+    const targetRange = range
+      ? await resolveRange(context, sheet, range)
+      : sheet.getRange();
 
     if (width) {
       const cols = targetRange.getEntireColumn();
@@ -1087,7 +2042,7 @@ export async function navigateTo(
     sheet.activate();
 
     if (range) {
-      const targetRange = sheet.getRange(range);
+      const targetRange = await resolveRange(context, sheet, range);
       targetRange.select();
     }
 
@@ -1108,6 +2063,7 @@ export interface SheetMetadata {
   maxColumns: number;
   frozenRows: number;
   frozenColumns: number;
+  protection?: SheetProtectionInfo;
 }
 
 export interface WorkbookMetadata {
@@ -1118,10 +2074,69 @@ export interface WorkbookMetadata {
   activeSheetId: number;
   activeSheetName: string;
   selectedRange: string;
+  workbookProtected: boolean;
+  /** Values and formulas of the selected cells that hold data */
+  selection?: SelectionContents;
 }
 
-export async function getWorkbookMetadata(): Promise<WorkbookMetadata> {
-  return Excel.run(async (context) => {
+export interface SelectionContents {
+  /** The part of the selection within the used range */
+  address: string;
+  cells: WorksheetInfo["cells"];
+  formulas?: WorksheetInfo["formulas"];
+  /** More cells are selected than the limit; only the first rows are shown */
+  truncated?: boolean;
+}
+
+/**
+ * Read the selection, trimmed to the used range and to the first rows that
+ * fit in `cellLimit`, so selecting whole columns stays cheap.
+ */
+async function loadSelectionContents(
+  sheetId: number,
+  cellLimit: number,
+): Promise<SelectionContents | undefined> {
+  const target = await Excel.run(async (context) => {
+    const sheet = context.workbook.worksheets.getActiveWorksheet();
+    const used = sheet.getUsedRangeOrNullObject(true);
+    await context.sync();
+    if (used.isNullObject) return null;
+    const data = context.workbook
+      .getSelectedRange()
+      .getIntersectionOrNullObject(used);
+    data.load("address,rowCount,columnCount,cellCount");
+    await context.sync();
+    if (data.isNullObject) return null;
+    if (data.cellCount <= cellLimit) {
+      return { address: data.address.split("!")[1], truncated: false };
+    }
+    const rows = Math.floor(cellLimit / data.columnCount);
+    if (rows < 1) return null;
+    const head = data
+      .getCell(0, 0)
+      .getResizedRange(rows - 1, data.columnCount - 1);
+    head.load("address");
+    await context.sync();
+    return { address: head.address.split("!")[1], truncated: true };
+  });
+  if (!target) return undefined;
+
+  const { worksheet } = await getCellRanges(sheetId, [target.address], {
+    includeStyles: false,
+    cellLimit,
+  });
+  return {
+    address: target.address,
+    cells: worksheet.cells,
+    ...(worksheet.formulas && { formulas: worksheet.formulas }),
+    ...(target.truncated && { truncated: true }),
+  };
+}
+
+export async function getWorkbookMetadata(
+  options: { includeSelection?: boolean; selectionCellLimit?: number } = {},
+): Promise<WorkbookMetadata> {
+  const metadata: WorkbookMetadata = await Excel.run(async (context) => {
     const workbook = context.workbook;
     workbook.load("name");
     const sheets = workbook.worksheets;
@@ -1132,6 +2147,7 @@ export async function getWorkbookMetadata(): Promise<WorkbookMetadata> {
 
     const selectedRange = workbook.getSelectedRange();
     selectedRange.load("address");
+    workbook.protection.load("protected");
 
     await context.sync();
 
@@ -1147,10 +2163,20 @@ export async function getWorkbookMetadata(): Promise<WorkbookMetadata> {
       usedRange.load("rowCount,columnCount");
       const freezeLocation = sheet.freezePanes.getLocationOrNullObject();
       freezeLocation.load("rowCount,columnCount");
+      sheet.protection.load("protected,options");
       sheetData.push({ sheet, usedRange, freezeLocation });
     }
     await context.sync();
 
+    const protections = new Map<Excel.Worksheet, SheetProtectionInfo>();
+    for (const { sheet, usedRange } of sheetData) {
+      if (!sheet.protection.protected) continue;
+      protections.set(
+        sheet,
+        await loadSheetProtection(context, sheet, usedRange),
+      );
+    }
+
     const stableIdMap = await preloadSheetIds(sheets.items);
 
     const sheetsMetadata: SheetMetadata[] = await Promise.all(
@@ -1163,6 +2189,7 @@ export async function getWorkbookMetadata(): Promise<WorkbookMetadata> {
         frozenColumns: freezeLocation.isNullObject
           ? 0
           : freezeLocation.columnCount,
+        ...(protections.has(sheet) && { protection: protections.get(sheet) }),
       })),
     );
 
@@ -1194,202 +2221,3892 @@ export async function getWorkbookMetadata(): Promise<WorkbookMetadata> {
       activeSheetId: activeSheetStableId,
       activeSheetName: activeSheet.name,
       selectedRange: rangeAddress,
+      workbookProtected: workbook.protection.protected,
     };
   });
-}
 
-async function clearRowColumnAxis(
-  context: Excel.RequestContext,
-  axis: Excel.RowColumnPivotHierarchyCollection,
-): Promise<void> {
-  axis.load("items");
-  await context.sync();
-  for (const item of axis.items) {
-    axis.remove(item);
+  if (options.includeSelection) {
+    try {
+      const selection = await loadSelectionContents(
+        metadata.activeSheetId,
+        options.selectionCellLimit ?? 500,
+      );
+      if (selection) metadata.selection = selection;
+    } catch (error) {
+      // Multi-area selections can't be read as one range
+      console.warn("[getWorkbookMetadata] Selection not included:", error);
+    }
   }
+  return metadata;
 }
 
-async function clearDataAxis(
-  context: Excel.RequestContext,
-  axis: Excel.DataPivotHierarchyCollection,
-): Promise<void> {
-  axis.load("items");
-  await context.sync();
-  for (const item of axis.items) {
-    axis.remove(item);
-  }
-}
+export async function modifyObject(params: {
+  operation: "create" | "update" | "delete";
+  sheetId: number;
+  objectType: "pivotTable" | "chart" | "table" | "namedRange" | "shape";
+  id?: string;
+  properties?: NamedRangeProperties &
+    TableProperties &
+    ChartProperties &
+    PivotTableProperties &
+    ShapeProperties;
+}): Promise<ModifyObjectResult> {
+  const { operation, sheetId, objectType, id, properties } = params;
 
-async function applyPivotFields(
-  context: Excel.RequestContext,
-  pivot: Excel.PivotTable,
-  properties: {
-    rows?: { field: string }[];
-    columns?: { field: string }[];
-    values?: { field: string; summarizeBy?: string }[];
-  },
-  clearExisting = false,
-): Promise<void> {
-  if (clearExisting) {
-    if (properties.rows) {
-      await clearRowColumnAxis(context, pivot.rowHierarchies);
+  return Excel.run(async (context) => {
+    const sheet = await getWorksheetById(context, sheetId);
+    if (!sheet) throw new Error(`Worksheet with ID ${sheetId} not found`);
+
+    if (objectType === "namedRange") {
+      return modifyNamedRange(context, sheet, operation, id, properties);
     }
-    if (properties.columns) {
-      await clearRowColumnAxis(context, pivot.columnHierarchies);
+    if (objectType === "table") {
+      return modifyTable(context, sheet, operation, id, properties);
     }
-    if (properties.values) {
-      await clearDataAxis(context, pivot.dataHierarchies);
+
+    if (objectType === "chart") {
+      return modifyChart(context, sheet, operation, id, properties);
+    }
+    if (objectType === "shape") {
+      return modifyShape(context, sheet, operation, id, properties);
     }
-    await context.sync();
-  }
 
-  if (properties.rows) {
-    for (const row of properties.rows) {
-      const hierarchy = pivot.hierarchies.getItem(row.field);
-      pivot.rowHierarchies.add(hierarchy);
+    return modifyPivotTable(context, sheet, operation, id, properties);
+  });
+}
+
+// ============================================================================
+// Conditional formatting
+// ============================================================================
+
+export type ConditionalFormatRuleType =
+  | "colorScale"
+  | "dataBar"
+  | "iconSet"
+  | "cellValue"
+  | "custom";
+
+export interface ConditionalFormatStyle {
+  fontColor?: string;
+  fillColor?: string;
+  bold?: boolean;
+  italic?: boolean;
+}
+
+export interface ColorScalePoint {
+  type: keyof typeof Excel.ConditionalFormatColorCriterionType;
+  value?: string;
+  color: string;
+}
+
+export interface DataBarBound {
+  type: keyof typeof Excel.ConditionalFormatRuleType;
+  value?: string;
+}
+
+export interface IconThreshold {
+  type: keyof typeof Excel.ConditionalFormatIconRuleType;
+  operator?: "greaterThan" | "greaterThanOrEqual";
+  value: string;
+}
+
+export interface ConditionalFormatProperties {
+  cellValue?: {
+    operator: keyof typeof Excel.ConditionalCellValueOperator;
+    formula1: string;
+    formula2?: string;
+  };
+  formula?: string;
+  format?: ConditionalFormatStyle;
+  colorScale?: {
+    minimum: ColorScalePoint;
+    midpoint?: ColorScalePoint;
+    maximum: ColorScalePoint;
+  };
+  dataBar?: {
+    color?: string;
+    negativeColor?: string;
+    gradient?: boolean;
+    showValue?: boolean;
+    direction?: keyof typeof Excel.ConditionalDataBarDirection;
+    lowerBound?: DataBarBound;
+    upperBound?: DataBarBound;
+  };
+  iconSet?: {
+    style: string;
+    reverse?: boolean;
+    showIconOnly?: boolean;
+    thresholds?: IconThreshold[];
+  };
+  priority?: number;
+  stopIfTrue?: boolean;
+}
+
+export interface ModifyConditionalFormatResult {
+  success: boolean;
+  operation: string;
+  id?: string;
+  range?: string;
+}
+
+function lowerFirst(value: string): string {
+  return value.charAt(0).toLowerCase() + value.slice(1);
+}
+
+function readConditionalStyle(
+  format: Excel.ConditionalRangeFormat,
+): ConditionalFormatStyle {
+  const style: ConditionalFormatStyle = {};
+  if (format.font.color) style.fontColor = format.font.color;
+  if (format.fill.color) style.fillColor = format.fill.color;
+  if (format.font.bold) style.bold = true;
+  if (format.font.italic) style.italic = true;
+  return style;
+}
+
+/** Load every conditional format on a sheet with its range and rule details. */
+async function loadConditionalFormats(
+  context: Excel.RequestContext,
+  sheet: Excel.Worksheet,
+  id?: string,
+): Promise<Omit<ExcelObject, "type" | "sheetId" | "sheetName">[]> {
+  const collection = sheet.getRange().conditionalFormats;
+  collection.load("items/id,items/type,items/priority,items/stopIfTrue");
+  await context.sync();
+
+  const items = collection.items.filter((cf) => !id || cf.id === id);
+  const ranges = items.map((cf) => {
+    const range = cf.getRangeOrNullObject();
+    range.load("address");
+    switch (cf.type) {
+      case Excel.ConditionalFormatType.cellValue:
+        cf.cellValue.load("rule");
+        cf.cellValue.format.font.load("color,bold,italic");
+        cf.cellValue.format.fill.load("color");
+        break;
+      case Excel.ConditionalFormatType.custom:
+        cf.custom.rule.load("formula");
+        cf.custom.format.font.load("color,bold,italic");
+        cf.custom.format.fill.load("color");
+        break;
+      case Excel.ConditionalFormatType.colorScale:
+        cf.colorScale.load("criteria");
+        break;
+      case Excel.ConditionalFormatType.dataBar:
+        cf.dataBar.load(
+          "barDirection,showDataBarOnly,lowerBoundRule,upperBoundRule",
+        );
+        cf.dataBar.positiveFormat.load("fillColor,gradientFill");
+        cf.dataBar.negativeFormat.load("fillColor");
+        break;
+      case Excel.ConditionalFormatType.iconSet:
+        cf.iconSet.load("style,reverseIconOrder,showIconOnly,criteria");
+        break;
     }
-  }
+    return range;
+  });
+  await context.sync();
 
-  if (properties.columns) {
-    for (const column of properties.columns) {
-      const hierarchy = pivot.hierarchies.getItem(column.field);
-      pivot.columnHierarchies.add(hierarchy);
+  return items.map((cf, i) => {
+    const ruleType = lowerFirst(cf.type);
+    const address = ranges[i].isNullObject
+      ? undefined
+      : ranges[i].address.split("!")[1];
+    const details: Record<string, unknown> = {
+      ruleType,
+      priority: cf.priority,
+      stopIfTrue: cf.stopIfTrue,
+    };
+
+    switch (cf.type) {
+      case Excel.ConditionalFormatType.cellValue: {
+        const rule = cf.cellValue.rule;
+        details.cellValue = {
+          operator: lowerFirst(rule.operator),
+          formula1: rule.formula1,
+          ...(rule.formula2 ? { formula2: rule.formula2 } : {}),
+        };
+        details.format = readConditionalStyle(cf.cellValue.format);
+        break;
+      }
+      case Excel.ConditionalFormatType.custom:
+        details.formula = cf.custom.rule.formula;
+        details.format = readConditionalStyle(cf.custom.format);
+        break;
+      case Excel.ConditionalFormatType.colorScale: {
+        const toPoint = (c?: Excel.ConditionalColorScaleCriterion) =>
+          c && {
+            type: lowerFirst(c.type),
+            ...(c.formula ? { value: c.formula } : {}),
+            color: c.color,
+          };
+        const { minimum, midpoint, maximum } = cf.colorScale.criteria;
+        details.colorScale = {
+          minimum: toPoint(minimum),
+          ...(midpoint ? { midpoint: toPoint(midpoint) } : {}),
+          maximum: toPoint(maximum),
+        };
+        break;
+      }
+      case Excel.ConditionalFormatType.dataBar: {
+        const bar = cf.dataBar;
+        const toBound = (r: Excel.ConditionalDataBarRule) => ({
+          type: lowerFirst(r.type),
+          ...(r.formula ? { value: r.formula } : {}),
+        });
+        details.dataBar = {
+          color: bar.positiveFormat.fillColor,
+          negativeColor: bar.negativeFormat.fillColor,
+          gradient: bar.positiveFormat.gradientFill,
+          showValue: !bar.showDataBarOnly,
+          direction: lowerFirst(bar.barDirection),
+          lowerBound: toBound(bar.lowerBoundRule),
+          upperBound: toBound(bar.upperBoundRule),
+        };
+        break;
+      }
+      case Excel.ConditionalFormatType.iconSet:
+        details.iconSet = {
+          style: lowerFirst(cf.iconSet.style),
+          reverse: cf.iconSet.reverseIconOrder,
+          showIconOnly: cf.iconSet.showIconOnly,
+          // The first criterion is implicit (everything below the next one)
+          thresholds: cf.iconSet.criteria.slice(1).map((c) => ({
+            type: lowerFirst(c.type),
+            operator: lowerFirst(c.operator),
+            value: c.formula,
+          })),
+        };
+        break;
     }
-  }
 
-  if (properties.values) {
-    const summarizeMap: Record<string, Excel.AggregationFunction> = {
-      sum: Excel.AggregationFunction.sum,
-      count: Excel.AggregationFunction.count,
-      average: Excel.AggregationFunction.average,
-      max: Excel.AggregationFunction.max,
-      min: Excel.AggregationFunction.min,
+    return {
+      id: cf.id,
+      name: address ? `${ruleType} ${address}` : ruleType,
+      range: address,
+      details,
     };
-    for (const value of properties.values) {
-      const hierarchy = pivot.hierarchies.getItem(value.field);
-      const dataHierarchy = pivot.dataHierarchies.add(hierarchy);
-      if (value.summarizeBy) {
-        dataHierarchy.summarizeBy =
-          summarizeMap[value.summarizeBy] ?? Excel.AggregationFunction.sum;
+  });
+}
+
+function applyConditionalStyle(
+  format: Excel.ConditionalRangeFormat,
+  style: ConditionalFormatStyle,
+): void {
+  if (style.fontColor) format.font.color = style.fontColor;
+  if (style.fillColor) format.fill.color = style.fillColor;
+  if (style.bold !== undefined) format.font.bold = style.bold;
+  if (style.italic !== undefined) format.font.italic = style.italic;
+}
+
+function applyConditionalFormatRule(
+  cf: Excel.ConditionalFormat,
+  ruleType: ConditionalFormatRuleType,
+  props: ConditionalFormatProperties,
+): void {
+  switch (ruleType) {
+    case "cellValue":
+      if (props.cellValue) {
+        cf.cellValue.rule = {
+          operator:
+            Excel.ConditionalCellValueOperator[props.cellValue.operator],
+          formula1: props.cellValue.formula1,
+          formula2: props.cellValue.formula2,
+        };
+      }
+      if (props.format)
+        applyConditionalStyle(cf.cellValue.format, props.format);
+      break;
+    case "custom":
+      if (props.formula) cf.custom.rule.formula = props.formula;
+      if (props.format) applyConditionalStyle(cf.custom.format, props.format);
+      break;
+    case "colorScale":
+      if (props.colorScale) {
+        const toCriterion = (p?: ColorScalePoint) =>
+          p && {
+            type: Excel.ConditionalFormatColorCriterionType[p.type],
+            formula: p.value,
+            color: p.color,
+          };
+        cf.colorScale.criteria = {
+          minimum: toCriterion(props.colorScale.minimum),
+          midpoint: toCriterion(props.colorScale.midpoint),
+          maximum: toCriterion(props.colorScale.maximum),
+        };
+      }
+      break;
+    case "dataBar": {
+      const bar = props.dataBar;
+      if (!bar) break;
+      if (bar.color) cf.dataBar.positiveFormat.fillColor = bar.color;
+      if (bar.negativeColor) {
+        cf.dataBar.negativeFormat.fillColor = bar.negativeColor;
+      }
+      if (bar.gradient !== undefined) {
+        cf.dataBar.positiveFormat.gradientFill = bar.gradient;
+      }
+      if (bar.showValue !== undefined) {
+        cf.dataBar.showDataBarOnly = !bar.showValue;
+      }
+      if (bar.direction) {
+        cf.dataBar.barDirection =
+          Excel.ConditionalDataBarDirection[bar.direction];
+      }
+      if (bar.lowerBound) {
+        cf.dataBar.lowerBoundRule = {
+          type: Excel.ConditionalFormatRuleType[bar.lowerBound.type],
+          formula: bar.lowerBound.value,
+        };
+      }
+      if (bar.upperBound) {
+        cf.dataBar.upperBoundRule = {
+          type: Excel.ConditionalFormatRuleType[bar.upperBound.type],
+          formula: bar.upperBound.value,
+        };
+      }
+      break;
+    }
+    case "iconSet": {
+      const icons = props.iconSet;
+      if (!icons) break;
+      if (!(icons.style in Excel.IconSet)) {
+        throw new Error(`Unknown icon set style: ${icons.style}`);
+      }
+      cf.iconSet.style =
+        Excel.IconSet[icons.style as keyof typeof Excel.IconSet];
+      if (icons.reverse !== undefined) {
+        cf.iconSet.reverseIconOrder = icons.reverse;
       }
+      if (icons.showIconOnly !== undefined) {
+        cf.iconSet.showIconOnly = icons.showIconOnly;
+      }
+      if (icons.thresholds) {
+        // Excel ignores everything but customIcon on the first criterion
+        cf.iconSet.criteria = [
+          {} as Excel.ConditionalIconCriterion,
+          ...icons.thresholds.map((t) => ({
+            type: Excel.ConditionalFormatIconRuleType[t.type],
+            operator:
+              Excel.ConditionalIconCriterionOperator[
+                t.operator ?? "greaterThanOrEqual"
+              ],
+            formula: t.value,
+          })),
+        ];
+      }
+      break;
     }
   }
 }
 
-export async function modifyObject(params: {
+export async function modifyConditionalFormat(params: {
   operation: "create" | "update" | "delete";
   sheetId: number;
-  objectType: "pivotTable" | "chart";
+  range?: string;
   id?: string;
-  properties?: {
-    name?: string;
-    source?: string;
-    range?: string;
-    anchor?: string;
-    rows?: { field: string }[];
-    columns?: { field: string }[];
-    values?: { field: string; summarizeBy?: string }[];
-    title?: string;
-    chartType?: string;
-  };
-}): Promise<ModifyObjectResult> {
-  const { operation, sheetId, objectType, id, properties } = params;
+  ruleType?: ConditionalFormatRuleType;
+  properties?: ConditionalFormatProperties;
+}): Promise<ModifyConditionalFormatResult> {
+  const { operation, sheetId, range, id, ruleType } = params;
+  const properties = params.properties ?? {};
 
   return Excel.run(async (context) => {
     const sheet = await getWorksheetById(context, sheetId);
     if (!sheet) throw new Error(`Worksheet with ID ${sheetId} not found`);
 
-    if (objectType === "chart") {
-      const charts = sheet.charts;
-
-      switch (operation) {
-        case "create": {
-          if (!properties?.source || !properties?.chartType) {
-            throw new Error("Chart creation requires source and chartType");
-          }
-          const sourceRange = sheet.getRange(properties.source);
-          const chart = charts.add(
-            properties.chartType as Excel.ChartType,
-            sourceRange,
-            Excel.ChartSeriesBy.auto,
+    switch (operation) {
+      case "create": {
+        if (!range || !ruleType) {
+          throw new Error(
+            "Conditional format creation requires range and ruleType",
           );
-          if (properties.title) chart.title.text = properties.title;
-          if (properties.anchor) {
-            const anchorCell = sheet.getRange(properties.anchor);
-            chart.setPosition(anchorCell);
-          }
-          chart.load("id");
-          await context.sync();
-          return { success: true, operation, id: chart.id };
         }
-        case "update": {
-          if (!id) throw new Error("Chart update requires id");
-          const chart = charts.getItem(id);
-          if (properties?.chartType) {
-            chart.chartType = properties.chartType as Excel.ChartType;
-          }
-          if (properties?.source) {
-            const sourceRange = sheet.getRange(properties.source);
-            chart.setData(sourceRange, Excel.ChartSeriesBy.auto);
-          }
-          if (properties?.anchor) {
-            const anchorCell = sheet.getRange(properties.anchor);
-            chart.setPosition(anchorCell);
-          }
-          if (properties?.title) chart.title.text = properties.title;
-          await context.sync();
-          return { success: true, operation, id };
+        if (ruleType === "cellValue" && !properties.cellValue) {
+          throw new Error("cellValue rules require properties.cellValue");
         }
-        case "delete": {
-          if (!id) throw new Error("Chart delete requires id");
-          const chart = charts.getItem(id);
-          chart.delete();
-          await context.sync();
-          return { success: true, operation };
+        if (ruleType === "custom" && !properties.formula) {
+          throw new Error("custom rules require properties.formula");
+        }
+        if (ruleType === "colorScale" && !properties.colorScale) {
+          throw new Error("colorScale rules require properties.colorScale");
+        }
+        if (ruleType === "iconSet" && !properties.iconSet) {
+          throw new Error("iconSet rules require properties.iconSet");
         }
-      }
-    } else {
-      const pivotTables = sheet.pivotTables;
 
-      switch (operation) {
-        case "create": {
-          if (!properties?.source || !properties?.range) {
-            throw new Error("PivotTable creation requires source and range");
-          }
-          const sourceRange = sheet.getRange(properties.source);
-          const destRange = sheet.getRange(properties.range);
-          const pivot = sheet.pivotTables.add(
-            properties.name || "PivotTable",
-            sourceRange,
-            destRange,
-          );
-          if (properties?.rows || properties?.columns || properties?.values) {
-            await applyPivotFields(context, pivot, properties);
-          }
-          pivot.load("id");
-          await context.sync();
-          return { success: true, operation, id: pivot.id };
+        const target = await resolveRange(context, sheet, range);
+        const cf = target.conditionalFormats.add(
+          Excel.ConditionalFormatType[ruleType],
+        );
+        applyConditionalFormatRule(cf, ruleType, properties);
+        if (properties.priority !== undefined)
+          cf.priority = properties.priority;
+        if (properties.stopIfTrue !== undefined) {
+          cf.stopIfTrue = properties.stopIfTrue;
         }
-        case "update": {
-          if (!id) throw new Error("PivotTable update requires id");
-          const pivot = pivotTables.getItem(id);
-          if (properties?.name) pivot.name = properties.name;
-          if (properties?.rows || properties?.columns || properties?.values) {
-            await applyPivotFields(context, pivot, properties, true);
-          }
-          await context.sync();
-          return { success: true, operation, id };
+        cf.load("id");
+        target.load("address");
+        await context.sync();
+        return {
+          success: true,
+          operation,
+          id: cf.id,
+          range: target.address.split("!")[1],
+        };
+      }
+      case "update": {
+        if (!id) throw new Error("Conditional format update requires id");
+        const cf = sheet.getRange().conditionalFormats.getItem(id);
+        const cfRange = cf.getRangeOrNullObject();
+        cf.load("type");
+        cfRange.load("address");
+        await context.sync();
+
+        const currentType = lowerFirst(cf.type) as ConditionalFormatRuleType;
+        if (ruleType && ruleType !== currentType) {
+          throw new Error(
+            `Rule ${id} is a ${currentType} rule; delete it and create a new ${ruleType} rule instead`,
+          );
         }
-        case "delete": {
-          if (!id) throw new Error("PivotTable delete requires id");
-          const pivot = pivotTables.getItem(id);
-          pivot.delete();
-          await context.sync();
-          return { success: true, operation };
+        applyConditionalFormatRule(cf, currentType, properties);
+        if (properties.priority !== undefined)
+          cf.priority = properties.priority;
+        if (properties.stopIfTrue !== undefined) {
+          cf.stopIfTrue = properties.stopIfTrue;
         }
+        await context.sync();
+        return {
+          success: true,
+          operation,
+          id,
+          range: cfRange.isNullObject
+            ? undefined
+            : cfRange.address.split("!")[1],
+        };
+      }
+      case "delete": {
+        if (!id) throw new Error("Conditional format delete requires id");
+        const cf = sheet.getRange().conditionalFormats.getItem(id);
+        const cfRange = cf.getRangeOrNullObject();
+        cfRange.load("address");
+        await context.sync();
+        cf.delete();
+        await context.sync();
+        return {
+          success: true,
+          operation,
+          id,
+          range: cfRange.isNullObject
+            ? undefined
+            : cfRange.address.split("!")[1],
+        };
       }
     }
 
     return { success: false, operation: "unknown" };
   });
 }
+
+// ============================================================================
+// Data validation
+// ============================================================================
+
+export interface DataValidationSpec {
+  type:
+    | "list"
+    | "wholeNumber"
+    | "decimal"
+    | "date"
+    | "time"
+    | "textLength"
+    | "custom";
+  operator?: keyof typeof Excel.DataValidationOperator;
+  formula1?: string | number;
+  formula2?: string | number;
+  values?: string[];
+  source?: string;
+  inCellDropDown?: boolean;
+  formula?: string;
+  ignoreBlanks?: boolean;
+  inputMessage?: { title?: string; message: string };
+  errorAlert?: {
+    show?: boolean;
+    style?: keyof typeof Excel.DataValidationAlertStyle;
+    title?: string;
+    message?: string;
+  };
+}
+
+export interface DataValidationInfo extends Omit<DataValidationSpec, "type"> {
+  range: string;
+  /** "inconsistent" when the range holds too many distinct rules to list */
+  type: DataValidationSpec["type"] | "inconsistent";
+}
+
+export interface ModifyDataValidationResult {
+  success: boolean;
+  operation: string;
+  range: string;
+}
+
+const MAX_VALIDATION_PROBES = 256;
+
+function describeDataValidation(dv: Excel.DataValidation): DataValidationSpec {
+  const type = lowerFirst(dv.type) as DataValidationSpec["type"];
+  const spec: DataValidationSpec = {
+    type,
+    ignoreBlanks: dv.ignoreBlanks,
+  };
+  const rule = dv.rule;
+
+  if (type === "list" && rule.list) {
+    const source = String(rule.list.source ?? "");
+    if (source.startsWith("=")) spec.source = source;
+    else spec.values = source.split(",").map((v) => v.trim());
+    spec.inCellDropDown = rule.list.inCellDropDown;
+  } else if (type === "custom" && rule.custom) {
+    spec.formula = rule.custom.formula;
+  } else {
+    const basic = rule[type as "wholeNumber"] as
+      | Excel.BasicDataValidation
+      | Excel.DateTimeDataValidation
+      | undefined;
+    if (basic) {
+      spec.operator = lowerFirst(
+        basic.operator,
+      ) as DataValidationSpec["operator"];
+      spec.formula1 = basic.formula1 as string | number;
+      if (basic.formula2 !== undefined && basic.formula2 !== "") {
+        spec.formula2 = basic.formula2 as string | number;
+      }
+    }
+  }
+
+  if (dv.prompt.showPrompt && dv.prompt.message) {
+    spec.inputMessage = {
+      ...(dv.prompt.title ? { title: dv.prompt.title } : {}),
+      message: dv.prompt.message,
+    };
+  }
+  const alert = dv.errorAlert;
+  if (!alert.showAlert) {
+    spec.errorAlert = { show: false };
+  } else if (alert.title || alert.message || alert.style !== "Stop") {
+    spec.errorAlert = {
+      style: lowerFirst(alert.style) as "stop",
+      ...(alert.title ? { title: alert.title } : {}),
+      ...(alert.message ? { message: alert.message } : {}),
+    };
+  }
+
+  return spec;
+}
+
+/**
+ * List the validation rules inside a block of cells. `range.dataValidation`
+ * only describes uniform ranges, so mixed blocks are split in halves until
+ * every piece has a single rule (or none). Pieces with the same rule are
+ * reported together as a comma-separated address.
+ */
+async function loadDataValidation(
+  context: Excel.RequestContext,
+  sheet: Excel.Worksheet,
+  startRow: number,
+  startCol: number,
+  rowCount: number,
+  columnCount: number,
+): Promise<DataValidationInfo[]> {
+  interface Block {
+    row: number;
+    col: number;
+    rows: number;
+    cols: number;
+    range?: Excel.Range;
+  }
+
+  const found = new Map<
+    string,
+    { spec: DataValidationSpec; ranges: string[] }
+  >();
+  const inconsistent: string[] = [];
+  let pending: Block[] = [
+    { row: startRow, col: startCol, rows: rowCount, cols: columnCount },
+  ];
+  let probes = 0;
+
+  while (pending.length > 0) {
+    for (const block of pending) {
+      block.range = sheet.getRangeByIndexes(
+        block.row,
+        block.col,
+        block.rows,
+        block.cols,
+      );
+      block.range.load("address");
+      block.range.dataValidation.load("type");
+    }
+    probes += pending.length;
+    await context.sync();
+
+    const uniform = pending.filter(
+      (b) =>
+        b.range.dataValidation.type !== "None" &&
+        b.range.dataValidation.type !== "Inconsistent" &&
+        b.range.dataValidation.type !== "MixedCriteria",
+    );
+    for (const block of uniform) {
+      block.range.dataValidation.load("rule,prompt,errorAlert,ignoreBlanks");
+    }
+    if (uniform.length > 0) await context.sync();
+
+    for (const block of uniform) {
+      const spec = describeDataValidation(block.range.dataValidation);
+      const key = JSON.stringify(spec);
+      const address = block.range.address.split("!")[1];
+      const entry = found.get(key);
+      if (entry) entry.ranges.push(address);
+      else found.set(key, { spec, ranges: [address] });
+    }
+
+    const next: Block[] = [];
+    for (const block of pending) {
+      const type = block.range.dataValidation.type;
+      if (type !== "Inconsistent" && type !== "MixedCriteria") continue;
+      if (probes + next.length + 2 > MAX_VALIDATION_PROBES) {
+        inconsistent.push(block.range.address.split("!")[1]);
+        continue;
+      }
+      if (block.rows >= block.cols) {
+        const half = Math.ceil(block.rows / 2);
+        next.push(
+          { ...block, rows: half, range: undefined },
+          {
+            ...block,
+            row: block.row + half,
+            rows: block.rows - half,
+            range: undefined,
+          },
+        );
+      } else {
+        const half = Math.ceil(block.cols / 2);
+        next.push(
+          { ...block, cols: half, range: undefined },
+          {
+            ...block,
+            col: block.col + half,
+            cols: block.cols - half,
+            range: undefined,
+          },
+        );
+      }
+    }
+    pending = next;
+  }
+
+  const result: DataValidationInfo[] = Array.from(found.values()).map(
+    ({ spec, ranges }) => ({ range: ranges.join(","), ...spec }),
+  );
+  if (inconsistent.length > 0) {
+    result.push({ range: inconsistent.join(","), type: "inconsistent" });
+  }
+  return result;
+}
+
+function buildDataValidationRule(
+  spec: DataValidationSpec,
+): Excel.DataValidationRule {
+  switch (spec.type) {
+    case "list": {
+      let source: string;
+      if (spec.values?.length) {
+        if (spec.values.some((v) => v.includes(","))) {
+          throw new Error(
+            "List values cannot contain commas; put them in a range and use source instead",
+          );
+        }
+        source = spec.values.join(",");
+      } else if (spec.source) {
+        source = spec.source.startsWith("=") ? spec.source : `=${spec.source}`;
+      } else {
+        throw new Error("List validation requires values or source");
+      }
+      return {
+        list: { source, inCellDropDown: spec.inCellDropDown ?? true },
+      };
+    }
+    case "custom":
+      if (!spec.formula) throw new Error("Custom validation requires formula");
+      return { custom: { formula: spec.formula } };
+    default: {
+      if (!spec.operator || spec.formula1 === undefined) {
+        throw new Error(
+          `${spec.type} validation requires operator and formula1`,
+        );
+      }
+      if (
+        (spec.operator === "between" || spec.operator === "notBetween") &&
+        spec.formula2 === undefined
+      ) {
+        throw new Error(`Operator ${spec.operator} requires formula2`);
+      }
+      return {
+        [spec.type]: {
+          operator: Excel.DataValidationOperator[spec.operator],
+          formula1: spec.formula1,
+          ...(spec.formula2 !== undefined ? { formula2: spec.formula2 } : {}),
+        },
+      };
+    }
+  }
+}
+
+export async function modifyDataValidation(params: {
+  operation: "set" | "clear";
+  sheetId: number;
+  range: string;
+  validation?: DataValidationSpec;
+}): Promise<ModifyDataValidationResult> {
+  const { operation, sheetId, range, validation } = params;
+
+  return Excel.run(async (context) => {
+    const sheet = await getWorksheetById(context, sheetId);
+    if (!sheet) throw new Error(`Worksheet with ID ${sheetId} not found`);
+
+    const target = await resolveRange(context, sheet, range);
+    target.load("address");
+    const dv = target.dataValidation;
+
+    if (operation === "clear") {
+      dv.clear();
+    } else {
+      if (!validation)
+        throw new Error("Setting validation requires validation");
+      const rule = buildDataValidationRule(validation);
+      // A range with an existing rule rejects a new one until cleared
+      dv.clear();
+      dv.rule = rule;
+      if (validation.ignoreBlanks !== undefined) {
+        dv.ignoreBlanks = validation.ignoreBlanks;
+      }
+      if (validation.inputMessage) {
+        dv.prompt = {
+          showPrompt: true,
+          title: validation.inputMessage.title ?? "",
+          message: validation.inputMessage.message,
+        };
+      }
+      if (validation.errorAlert) {
+        const alert = validation.errorAlert;
+        dv.errorAlert = {
+          showAlert: alert.show ?? true,
+          style: Excel.DataValidationAlertStyle[alert.style ?? "stop"],
+          title: alert.title ?? "",
+          message: alert.message ?? "",
+        };
+      }
+    }
+
+    await context.sync();
+    return { success: true, operation, range: target.address.split("!")[1] };
+  });
+}
+
+// ============================================================================
+// Named ranges
+// ============================================================================
+
+export interface NamedRangeProperties {
+  name?: string;
+  refersTo?: string;
+  comment?: string;
+  scope?: "workbook" | "sheet";
+}
+
+interface LoadedName {
+  name: string;
+  scope: "workbook" | "sheet";
+  refersTo: string;
+  comment: string;
+  visible: boolean;
+  value: unknown;
+  /** Sheet name and address (without sheet) of the referenced range */
+  sheetName?: string;
+  address?: string;
+}
+
+function splitSheetAddress(address: string): {
+  sheetName: string;
+  address: string;
+} {
+  const bang = address.lastIndexOf("!");
+  const sheetPart = address.slice(0, bang);
+  const sheetName =
+    sheetPart.startsWith("'") && sheetPart.endsWith("'")
+      ? sheetPart.slice(1, -1).replace(/''/g, "'")
+      : sheetPart;
+  return { sheetName, address: address.slice(bang + 1) };
+}
+
+async function loadNamedItems(
+  context: Excel.RequestContext,
+  names: Excel.NamedItemCollection,
+  scope: "workbook" | "sheet",
+  id?: string,
+): Promise<LoadedName[]> {
+  names.load(
+    "items/name,items/type,items/formula,items/comment,items/visible,items/value",
+  );
+  await context.sync();
+
+  const items = names.items.filter((n) => !id || n.name === id);
+  const ranges = items.map((n) => {
+    const range = n.getRangeOrNullObject();
+    range.load("address");
+    return range;
+  });
+  await context.sync();
+
+  return items.map((n, i) => ({
+    name: n.name,
+    scope,
+    refersTo: n.formula,
+    comment: n.comment,
+    visible: n.visible,
+    value: n.value,
+    ...(ranges[i].isNullObject ? {} : splitSheetAddress(ranges[i].address)),
+  }));
+}
+
+function namedRangeObject(
+  item: LoadedName,
+  sheetId: number,
+  sheetName: string,
+): ExcelObject {
+  return {
+    id: item.name,
+    type: "namedRange",
+    name: item.name,
+    sheetId,
+    sheetName,
+    ...(item.address ? { range: item.address } : {}),
+    details: {
+      scope: item.scope,
+      refersTo: item.refersTo,
+      ...(item.comment ? { comment: item.comment } : {}),
+      ...(!item.visible ? { visible: false } : {}),
+      ...(!item.address ? { value: item.value } : {}),
+    },
+  };
+}
+
+/** Turn an A1 address or formula into an absolute `=Sheet!$A$1` reference. */
+async function toNameReference(
+  context: Excel.RequestContext,
+  sheet: Excel.Worksheet,
+  refersTo: string,
+): Promise<string> {
+  if (refersTo.startsWith("=")) return refersTo;
+  const range = await resolveRange(context, sheet, refersTo);
+  range.load("address");
+  await context.sync();
+  const { sheetName, address } = splitSheetAddress(range.address);
+  const absolute = address.replace(/\$?([A-Z]+)\$?(\d+)/g, "$$$1$$$2");
+  return `='${sheetName.replace(/'/g, "''")}'!${absolute}`;
+}
+
+async function modifyNamedRange(
+  context: Excel.RequestContext,
+  sheet: Excel.Worksheet,
+  operation: "create" | "update" | "delete",
+  id: string | undefined,
+  properties: NamedRangeProperties = {},
+): Promise<ModifyObjectResult> {
+  const collectionFor = (scope?: string) =>
+    scope === "sheet" ? sheet.names : context.workbook.names;
+
+  if (operation === "create") {
+    if (!properties.name || !properties.refersTo) {
+      throw new Error("Named range creation requires name and refersTo");
+    }
+    const reference = await toNameReference(
+      context,
+      sheet,
+      properties.refersTo,
+    );
+    collectionFor(properties.scope).add(
+      properties.name,
+      reference,
+      properties.comment,
+    );
+    await context.sync();
+    return { success: true, operation, id: properties.name };
+  }
+
+  if (!id) throw new Error(`Named range ${operation} requires id`);
+  const sheetItem = sheet.names.getItemOrNullObject(id);
+  const workbookItem = context.workbook.names.getItemOrNullObject(id);
+  await context.sync();
+  const item = sheetItem.isNullObject ? workbookItem : sheetItem;
+  if (item.isNullObject) throw new Error(`Named range "${id}" not found`);
+
+  if (operation === "delete") {
+    item.delete();
+    await context.sync();
+    return { success: true, operation };
+  }
+
+  item.load("name,formula,comment,scope");
+  await context.sync();
+
+  const currentScope = item.scope === "Worksheet" ? "sheet" : "workbook";
+  const reference = properties.refersTo
+    ? await toNameReference(context, sheet, properties.refersTo)
+    : undefined;
+  const newName = properties.name ?? item.name;
+  const newScope = properties.scope ?? currentScope;
+
+  if (newName !== item.name || newScope !== currentScope) {
+    // Names and scopes are read-only, so move the name by re-creating it
+    const formula = reference ?? item.formula;
+    const comment = properties.comment ?? item.comment;
+    const target = collectionFor(newScope);
+    if (
+      newScope === currentScope &&
+      newName.toLowerCase() === item.name.toLowerCase()
+    ) {
+      // A case-only rename clashes with itself, so the old name must go
+      // first; put it back if Excel rejects the new spelling
+      const { name, formula: oldFormula, comment: oldComment } = item;
+      item.delete();
+      target.add(newName, formula, comment);
+      try {
+        await context.sync();
+      } catch (error) {
+        collectionFor(currentScope).add(name, oldFormula, oldComment);
+        await context.sync();
+        throw error;
+      }
+      return { success: true, operation, id: newName };
+    }
+    // Add first: if the new name is invalid or taken, the old one survives
+    target.add(newName, formula, comment);
+    await context.sync();
+    item.delete();
+  } else {
+    if (reference) item.formula = reference;
+    if (properties.comment !== undefined) item.comment = properties.comment;
+  }
+  await context.sync();
+  return { success: true, operation, id: newName };
+}
+
+// ============================================================================
+// Pivot tables
+// ============================================================================
+
+export interface PivotValueField {
+  field: string;
+  summarizeBy?: string;
+  /** Display name, e.g. "Total Sales" instead of "Sum of Sales" */
+  name?: string;
+  numberFormat?: string;
+  showAs?: {
+    calculation: string;
+    /** Row or column field the calculation runs along */
+    baseField?: string;
+    /** Item of baseField to compare with, for percentOf/differenceFrom */
+    baseItem?: string;
+  };
+}
+
+export interface PivotFieldFilter {
+  field: string;
+  /** Manual filter: the items to show */
+  items?: string[];
+  label?: {
+    condition: string;
+    value?: string;
+    lowerBound?: string;
+    upperBound?: string;
+    exclusive?: boolean;
+  };
+  value?: {
+    condition: string;
+    /** Data field to compare, e.g. "Sum of Sales" */
+    dataField: string;
+    value?: number;
+    lowerBound?: number;
+    upperBound?: number;
+    selectionType?: "items" | "percent" | "sum";
+    exclusive?: boolean;
+  };
+  clear?: boolean;
+}
+
+export interface PivotTableProperties {
+  name?: string;
+  source?: string;
+  range?: string;
+  rows?: { field: string }[];
+  columns?: { field: string }[];
+  values?: PivotValueField[];
+  filters?: { field: string }[];
+  fieldFilters?: PivotFieldFilter[];
+  layout?: "compact" | "outline" | "tabular";
+  subtotals?: "top" | "bottom" | "off";
+  grandTotals?: { rows?: boolean; columns?: boolean };
+  refresh?: boolean;
+}
+
+const SUBTOTAL_LOCATIONS: Record<string, Excel.SubtotalLocationType> = {
+  top: Excel.SubtotalLocationType.atTop,
+  bottom: Excel.SubtotalLocationType.atBottom,
+  off: Excel.SubtotalLocationType.off,
+};
+
+// Label filter conditions that compare a substring rather than a value
+const SUBSTRING_CONDITIONS = new Set(["beginsWith", "endsWith", "contains"]);
+
+function enumValue<T extends Record<string, string>>(
+  values: T,
+  key: string,
+  what: string,
+): T[keyof T] {
+  const value = values[key as keyof T];
+  if (value === undefined) throw new Error(`Unknown ${what} "${key}"`);
+  return value;
+}
+
+async function findPivotTable(
+  context: Excel.RequestContext,
+  pivotTables: Excel.PivotTableCollection,
+  id: string,
+): Promise<Excel.PivotTable> {
+  pivotTables.load("items/id,items/name");
+  await context.sync();
+  const pivot = pivotTables.items.find((p) => p.id === id || p.name === id);
+  if (!pivot) throw new Error(`PivotTable "${id}" not found`);
+  return pivot;
+}
+
+async function clearRowColumnAxis(
+  context: Excel.RequestContext,
+  axis: Excel.RowColumnPivotHierarchyCollection,
+): Promise<void> {
+  axis.load("items");
+  await context.sync();
+  for (const item of axis.items) {
+    axis.remove(item);
+  }
+}
+
+async function clearFilterAxis(
+  context: Excel.RequestContext,
+  axis: Excel.FilterPivotHierarchyCollection,
+): Promise<void> {
+  axis.load("items");
+  await context.sync();
+  for (const item of axis.items) {
+    axis.remove(item);
+  }
+}
+
+async function clearDataAxis(
+  context: Excel.RequestContext,
+  axis: Excel.DataPivotHierarchyCollection,
+): Promise<void> {
+  axis.load("items");
+  await context.sync();
+  for (const item of axis.items) {
+    axis.remove(item);
+  }
+}
+
+async function applyPivotFields(
+  context: Excel.RequestContext,
+  pivot: Excel.PivotTable,
+  properties: PivotTableProperties,
+  clearExisting = false,
+): Promise<void> {
+  if (clearExisting) {
+    if (properties.rows) {
+      await clearRowColumnAxis(context, pivot.rowHierarchies);
+    }
+    if (properties.columns) {
+      await clearRowColumnAxis(context, pivot.columnHierarchies);
+    }
+    if (properties.filters) {
+      await clearFilterAxis(context, pivot.filterHierarchies);
+    }
+    if (properties.values) {
+      await clearDataAxis(context, pivot.dataHierarchies);
+    }
+    await context.sync();
+  }
+
+  if (properties.rows) {
+    for (const row of properties.rows) {
+      const hierarchy = pivot.hierarchies.getItem(row.field);
+      pivot.rowHierarchies.add(hierarchy);
+    }
+  }
+
+  if (properties.columns) {
+    for (const column of properties.columns) {
+      const hierarchy = pivot.hierarchies.getItem(column.field);
+      pivot.columnHierarchies.add(hierarchy);
+    }
+  }
+
+  if (properties.filters) {
+    for (const filter of properties.filters) {
+      const hierarchy = pivot.hierarchies.getItem(filter.field);
+      pivot.filterHierarchies.add(hierarchy);
+    }
+  }
+
+  if (properties.values) {
+    // Base fields must already be on the row/column axis
+    await context.sync();
+    for (const value of properties.values) {
+      const hierarchy = pivot.hierarchies.getItem(value.field);
+      const dataHierarchy = pivot.dataHierarchies.add(hierarchy);
+      if (value.summarizeBy) {
+        dataHierarchy.summarizeBy = enumValue(
+          Excel.AggregationFunction,
+          value.summarizeBy,
+          "summarizeBy",
+        );
+      }
+      if (value.name) dataHierarchy.name = value.name;
+      if (value.numberFormat) dataHierarchy.numberFormat = value.numberFormat;
+      if (value.showAs) {
+        const { calculation, baseField, baseItem } = value.showAs;
+        const field = baseField
+          ? pivot.hierarchies.getItem(baseField).fields.getItem(baseField)
+          : undefined;
+        dataHierarchy.showAs = {
+          calculation: enumValue(
+            Excel.ShowAsCalculation,
+            calculation,
+            "showAs calculation",
+          ),
+          ...(field && { baseField: field }),
+          ...(field && baseItem && { baseItem: field.items.getItem(baseItem) }),
+        };
+      }
+    }
+  }
+}
+
+function applyFieldFilter(
+  pivot: Excel.PivotTable,
+  filter: PivotFieldFilter,
+): void {
+  const field = pivot.hierarchies
+    .getItem(filter.field)
+    .fields.getItem(filter.field);
+  if (filter.clear) {
+    field.clearAllFilters();
+    return;
+  }
+
+  if (filter.items) {
+    field.applyFilter({ manualFilter: { selectedItems: filter.items } });
+  }
+  if (filter.label) {
+    const { condition, value, lowerBound, upperBound, exclusive } =
+      filter.label;
+    field.applyFilter({
+      labelFilter: {
+        condition: enumValue(
+          Excel.LabelFilterCondition,
+          condition,
+          "label filter condition",
+        ),
+        ...(value !== undefined &&
+          (SUBSTRING_CONDITIONS.has(condition)
+            ? { substring: value }
+            : { comparator: value })),
+        ...(lowerBound !== undefined && { lowerBound }),
+        ...(upperBound !== undefined && { upperBound }),
+        ...(exclusive !== undefined && { exclusive }),
+      },
+    });
+  }
+  if (filter.value) {
+    const { condition, dataField, value, lowerBound, upperBound } =
+      filter.value;
+    const topBottom = condition === "topN" || condition === "bottomN";
+    field.applyFilter({
+      valueFilter: {
+        condition: enumValue(
+          Excel.ValueFilterCondition,
+          condition,
+          "value filter condition",
+        ),
+        value: dataField,
+        ...(value !== undefined &&
+          (topBottom ? { threshold: value } : { comparator: value })),
+        ...(lowerBound !== undefined && { lowerBound }),
+        ...(upperBound !== undefined && { upperBound }),
+        ...(topBottom && {
+          selectionType: enumValue(
+            Excel.TopBottomSelectionType,
+            filter.value.selectionType ?? "items",
+            "selectionType",
+          ),
+        }),
+        ...(filter.value.exclusive !== undefined && {
+          exclusive: filter.value.exclusive,
+        }),
+      },
+    });
+  }
+}
+
+async function applyPivotProperties(
+  context: Excel.RequestContext,
+  pivot: Excel.PivotTable,
+  properties: PivotTableProperties,
+  clearExisting: boolean,
+): Promise<void> {
+  if (properties.name) pivot.name = properties.name;
+  if (
+    properties.rows ||
+    properties.columns ||
+    properties.values ||
+    properties.filters
+  ) {
+    await applyPivotFields(context, pivot, properties, clearExisting);
+  }
+
+  const layout = pivot.layout;
+  if (properties.layout) {
+    layout.layoutType = enumValue(
+      Excel.PivotLayoutType,
+      properties.layout,
+      "layout",
+    );
+  }
+  if (properties.subtotals) {
+    layout.subtotalLocation = SUBTOTAL_LOCATIONS[properties.subtotals];
+  }
+  if (properties.grandTotals?.rows !== undefined) {
+    layout.showRowGrandTotals = properties.grandTotals.rows;
+  }
+  if (properties.grandTotals?.columns !== undefined) {
+    layout.showColumnGrandTotals = properties.grandTotals.columns;
+  }
+  await context.sync();
+
+  for (const filter of properties.fieldFilters ?? []) {
+    applyFieldFilter(pivot, filter);
+  }
+  if (properties.refresh) pivot.refresh();
+  await context.sync();
+}
+
+async function loadPivotTables(
+  context: Excel.RequestContext,
+  pivotTables: Excel.PivotTableCollection,
+  id?: string,
+): Promise<Omit<ExcelObject, "type" | "sheetId" | "sheetName">[]> {
+  pivotTables.load("items/id,items/name");
+  await context.sync();
+
+  const withSources = Office.context.requirements.isSetSupported(
+    "ExcelApi",
+    "1.15",
+  );
+  const withFilters = Office.context.requirements.isSetSupported(
+    "ExcelApi",
+    "1.12",
+  );
+  const items = pivotTables.items.filter(
+    (p) => !id || p.id === id || p.name === id,
+  );
+  const loaded = items.map((pivot) => {
+    pivot.rowHierarchies.load("items/name");
+    pivot.columnHierarchies.load("items/name");
+    pivot.filterHierarchies.load("items/name");
+    pivot.dataHierarchies.load(
+      "items/name,items/summarizeBy,items/numberFormat,items/showAs",
+    );
+    pivot.layout.load(
+      "layoutType,subtotalLocation,showRowGrandTotals,showColumnGrandTotals",
+    );
+    const range = pivot.layout.getRange();
+    range.load("address");
+    return {
+      range,
+      source: withSources ? pivot.getDataSourceString() : undefined,
+    };
+  });
+  await context.sync();
+
+  // Filters live on the fields of the row, column and filter hierarchies
+  const fieldFilters = items.map((pivot) => {
+    if (!withFilters) return [];
+    return [
+      ...pivot.rowHierarchies.items,
+      ...pivot.columnHierarchies.items,
+      ...pivot.filterHierarchies.items,
+    ].map((h) => ({
+      field: h.name,
+      filters: h.fields.getItem(h.name).getFilters(),
+    }));
+  });
+  if (withFilters) await context.sync();
+
+  return items.map((pivot, i) => {
+    const { range, source } = loaded[i];
+    const layout = pivot.layout;
+    const filters: Record<string, unknown> = {};
+    for (const { field, filters: result } of fieldFilters[i]) {
+      const active = Object.fromEntries(
+        Object.entries(result.value ?? {}).filter(([, f]) => f),
+      );
+      if (Object.keys(active).length > 0) filters[field] = active;
+    }
+
+    return {
+      id: pivot.id,
+      name: pivot.name,
+      range: range.address.split("!")[1],
+      details: {
+        ...(source && { source: source.value }),
+        rows: pivot.rowHierarchies.items.map((h) => h.name),
+        columns: pivot.columnHierarchies.items.map((h) => h.name),
+        values: pivot.dataHierarchies.items.map((h) => ({
+          name: h.name,
+          summarizeBy: lowerFirst(h.summarizeBy),
+          ...(h.numberFormat &&
+            h.numberFormat !== "General" && { numberFormat: h.numberFormat }),
+          ...(h.showAs?.calculation &&
+            h.showAs.calculation !== "None" && {
+              showAs: lowerFirst(h.showAs.calculation),
+            }),
+        })),
+        filters: pivot.filterHierarchies.items.map((h) => h.name),
+        ...(Object.keys(filters).length > 0 && { fieldFilters: filters }),
+        layout: lowerFirst(layout.layoutType),
+        subtotals: { AtTop: "top", AtBottom: "bottom", Off: "off" }[
+          layout.subtotalLocation
+        ],
+        grandTotals: {
+          rows: layout.showRowGrandTotals,
+          columns: layout.showColumnGrandTotals,
+        },
+      },
+    };
+  });
+}
+
+async function modifyPivotTable(
+  context: Excel.RequestContext,
+  sheet: Excel.Worksheet,
+  operation: "create" | "update" | "delete",
+  id: string | undefined,
+  properties: PivotTableProperties = {},
+): Promise<ModifyObjectResult> {
+  if (operation === "create") {
+    if (!properties.source || !properties.range) {
+      throw new Error("PivotTable creation requires source and range");
+    }
+    const sourceRange = await resolveRange(context, sheet, properties.source);
+    const destRange = await resolveRange(context, sheet, properties.range);
+    const pivot = sheet.pivotTables.add(
+      properties.name || "PivotTable",
+      sourceRange,
+      destRange,
+    );
+    await applyPivotProperties(
+      context,
+      pivot,
+      { ...properties, name: undefined },
+      false,
+    );
+    pivot.load("id");
+    await context.sync();
+    return { success: true, operation, id: pivot.id };
+  }
+
+  if (!id) throw new Error(`PivotTable ${operation} requires id`);
+  const pivot = await findPivotTable(context, sheet.pivotTables, id);
+
+  if (operation === "delete") {
+    pivot.delete();
+    await context.sync();
+    return { success: true, operation };
+  }
+
+  await applyPivotProperties(context, pivot, properties, true);
+  return { success: true, operation, id };
+}
+
+// ============================================================================
+// Charts
+// ============================================================================
+
+export interface ChartAxisProperties {
+  title?: string;
+  min?: number;
+  max?: number;
+  majorUnit?: number;
+  numberFormat?: string;
+  gridlines?: boolean;
+  visible?: boolean;
+}
+
+export interface ChartSeriesProperties {
+  /** Matches an existing series by name; otherwise a new series is added */
+  name: string;
+  values?: string;
+  categories?: string;
+  chartType?: string;
+  color?: string;
+  axisGroup?: "primary" | "secondary";
+  dataLabels?: boolean;
+  delete?: boolean;
+}
+
+export interface ChartProperties {
+  name?: string;
+  source?: string;
+  anchor?: string;
+  title?: string;
+  chartType?: string;
+  seriesBy?: "auto" | "rows" | "columns";
+  width?: number;
+  height?: number;
+  legend?: "top" | "bottom" | "left" | "right" | "corner" | "none";
+  dataLabels?: {
+    showValue?: boolean;
+    showPercentage?: boolean;
+    showCategoryName?: boolean;
+    showSeriesName?: boolean;
+    position?: string;
+    numberFormat?: string;
+  };
+  categoryAxis?: ChartAxisProperties;
+  valueAxis?: ChartAxisProperties;
+  secondaryValueAxis?: ChartAxisProperties;
+  series?: ChartSeriesProperties[];
+}
+
+// Chart types without axes; loading axis properties on them fails
+const AXISLESS_CHART = /^(pie|doughnut|treemap|sunburst|funnel|regionMap)/i;
+
+/** Map a camelCase chart type (any Excel.ChartType key) to its enum value. */
+function resolveChartType(type: string): Excel.ChartType {
+  const wanted = type === "scatter" ? "xyscatter" : type.toLowerCase();
+  const key = Object.keys(Excel.ChartType).find(
+    (k) => k.toLowerCase() === wanted,
+  );
+  if (!key || key === "invalid") {
+    throw new Error(
+      `Unknown chart type "${type}". Use an Excel.ChartType such as columnClustered, columnStacked, barStacked100, lineMarkers, area, pie, doughnut, xyscatter, bubble, waterfall, histogram, pareto, boxwhisker, treemap, sunburst or funnel`,
+    );
+  }
+  return Excel.ChartType[key as keyof typeof Excel.ChartType];
+}
+
+async function findChart(
+  context: Excel.RequestContext,
+  charts: Excel.ChartCollection,
+  id: string,
+): Promise<Excel.Chart> {
+  charts.load("items/id,items/name");
+  await context.sync();
+  const chart = charts.items.find((c) => c.id === id || c.name === id);
+  if (!chart) throw new Error(`Chart "${id}" not found`);
+  return chart;
+}
+
+function describeAxis(axis: Excel.ChartAxis): Record<string, unknown> {
+  return {
+    ...(axis.title.text && { title: axis.title.text }),
+    ...(axis.minimum !== undefined && { min: axis.minimum }),
+    ...(axis.maximum !== undefined && { max: axis.maximum }),
+    ...(axis.numberFormat &&
+      axis.numberFormat !== "General" && { numberFormat: axis.numberFormat }),
+    gridlines: axis.majorGridlines.visible,
+    ...(!axis.visible && { visible: false }),
+  };
+}
+
+async function loadCharts(
+  context: Excel.RequestContext,
+  charts: Excel.ChartCollection,
+  id?: string,
+): Promise<Omit<ExcelObject, "type" | "sheetId" | "sheetName">[]> {
+  charts.load(
+    "items/id,items/name,items/chartType,items/width,items/height,items/top,items/left," +
+      "items/title/text,items/legend/visible,items/legend/position",
+  );
+  await context.sync();
+
+  const withSources = Office.context.requirements.isSetSupported(
+    "ExcelApi",
+    "1.15",
+  );
+  const items = charts.items.filter((c) => !id || c.id === id || c.name === id);
+  const loaded = items.map((chart) => {
+    chart.series.load(
+      "items/name,items/chartType,items/axisGroup,items/hasDataLabels",
+    );
+    chart.dataLabels.load("showValue,showPercentage,showCategoryName");
+    return chart;
+  });
+  await context.sync();
+
+  const results: Omit<ExcelObject, "type" | "sheetId" | "sheetName">[] = [];
+  for (const chart of loaded) {
+    let sources = withSources
+      ? chart.series.items.map((s) => ({
+          values: s.getDimensionDataSourceString("Values"),
+          categories: s.getDimensionDataSourceString("Categories"),
+        }))
+      : [];
+    if (sources.length > 0) {
+      try {
+        await context.sync();
+      } catch {
+        // Series fed by literals rather than ranges have no source string
+        sources = [];
+      }
+    }
+    let axes: Record<string, unknown> | undefined;
+    if (!AXISLESS_CHART.test(chart.chartType)) {
+      const category = chart.axes.categoryAxis;
+      const value = chart.axes.valueAxis;
+      for (const axis of [category, value]) {
+        axis.load("minimum,maximum,numberFormat,visible");
+        axis.title.load("text");
+        axis.majorGridlines.load("visible");
+      }
+      try {
+        await context.sync();
+        axes = {
+          categoryAxis: describeAxis(category),
+          valueAxis: describeAxis(value),
+        };
+      } catch {
+        // Some chart types reject axis access; report the rest
+      }
+    }
+
+    const series = chart.series.items.map((s, i) => ({
+      name: s.name,
+      chartType: lowerFirst(s.chartType),
+      ...(s.axisGroup === "Secondary" && { axisGroup: "secondary" }),
+      ...(s.hasDataLabels && { dataLabels: true }),
+      ...(sources[i] && {
+        values: sources[i].values.value,
+        ...(sources[i].categories.value && {
+          categories: sources[i].categories.value,
+        }),
+      }),
+    }));
+    const labels = chart.dataLabels;
+
+    results.push({
+      id: chart.id,
+      name: chart.name,
+      details: {
+        chartType: lowerFirst(chart.chartType),
+        ...(chart.title.text && { title: chart.title.text }),
+        legend: chart.legend.visible
+          ? lowerFirst(chart.legend.position)
+          : "none",
+        width: chart.width,
+        height: chart.height,
+        top: chart.top,
+        left: chart.left,
+        ...((labels.showValue ||
+          labels.showPercentage ||
+          labels.showCategoryName) && {
+          dataLabels: {
+            showValue: labels.showValue,
+            showPercentage: labels.showPercentage,
+            showCategoryName: labels.showCategoryName,
+          },
+        }),
+        ...axes,
+        series,
+      },
+    });
+  }
+  return results;
+}
+
+function applyAxisProperties(
+  axis: Excel.ChartAxis,
+  properties: ChartAxisProperties,
+): void {
+  if (properties.title !== undefined) axis.title.text = properties.title;
+  if (properties.min !== undefined) axis.minimum = properties.min;
+  if (properties.max !== undefined) axis.maximum = properties.max;
+  if (properties.majorUnit !== undefined) {
+    axis.majorUnit = properties.majorUnit;
+  }
+  if (properties.numberFormat !== undefined) {
+    axis.numberFormat = properties.numberFormat;
+  }
+  if (properties.gridlines !== undefined) {
+    axis.majorGridlines.visible = properties.gridlines;
+  }
+  if (properties.visible !== undefined) axis.visible = properties.visible;
+}
+
+async function applyChartProperties(
+  context: Excel.RequestContext,
+  sheet: Excel.Worksheet,
+  chart: Excel.Chart,
+  properties: ChartProperties,
+): Promise<void> {
+  if (properties.name) chart.name = properties.name;
+  if (properties.title !== undefined) chart.title.text = properties.title;
+  if (properties.chartType) {
+    chart.chartType = resolveChartType(properties.chartType);
+  }
+  if (properties.anchor) {
+    chart.setPosition(await resolveRange(context, sheet, properties.anchor));
+  }
+  if (properties.width) chart.width = properties.width;
+  if (properties.height) chart.height = properties.height;
+
+  if (properties.legend === "none") {
+    chart.legend.visible = false;
+  } else if (properties.legend) {
+    chart.legend.visible = true;
+    chart.legend.position =
+      Excel.ChartLegendPosition[
+        properties.legend as keyof typeof Excel.ChartLegendPosition
+      ];
+  }
+
+  if (properties.dataLabels) {
+    const labels = chart.dataLabels;
+    const d = properties.dataLabels;
+    if (d.showValue !== undefined) labels.showValue = d.showValue;
+    if (d.showPercentage !== undefined) {
+      labels.showPercentage = d.showPercentage;
+    }
+    if (d.showCategoryName !== undefined) {
+      labels.showCategoryName = d.showCategoryName;
+    }
+    if (d.showSeriesName !== undefined) {
+      labels.showSeriesName = d.showSeriesName;
+    }
+    if (d.position) {
+      labels.position =
+        Excel.ChartDataLabelPosition[
+          d.position as keyof typeof Excel.ChartDataLabelPosition
+        ];
+    }
+    if (d.numberFormat) labels.numberFormat = d.numberFormat;
+  }
+
+  if (properties.series?.length) {
+    chart.series.load("items/name");
+    await context.sync();
+    for (const spec of properties.series) {
+      let series = chart.series.items.find((s) => s.name === spec.name);
+      if (spec.delete) {
+        if (!series) throw new Error(`Series "${spec.name}" not found`);
+        series.delete();
+        continue;
+      }
+      if (!series) {
+        if (!spec.values) {
+          throw new Error(
+            `Series "${spec.name}" not found; new series require values`,
+          );
+        }
+        series = chart.series.add(spec.name);
+      }
+      if (spec.values) {
+        series.setValues(await resolveRange(context, sheet, spec.values));
+      }
+      if (spec.categories) {
+        series.setXAxisValues(
+          await resolveRange(context, sheet, spec.categories),
+        );
+      }
+      if (spec.chartType) series.chartType = resolveChartType(spec.chartType);
+      if (spec.axisGroup) {
+        series.axisGroup =
+          spec.axisGroup === "secondary"
+            ? Excel.ChartAxisGroup.secondary
+            : Excel.ChartAxisGroup.primary;
+      }
+      if (spec.color) {
+        series.format.fill.setSolidColor(spec.color);
+        series.format.line.color = spec.color;
+      }
+      if (spec.dataLabels !== undefined) series.hasDataLabels = spec.dataLabels;
+    }
+    // The secondary axis only exists once a series is plotted on it
+    await context.sync();
+  }
+
+  if (properties.categoryAxis) {
+    applyAxisProperties(chart.axes.categoryAxis, properties.categoryAxis);
+  }
+  if (properties.valueAxis) {
+    applyAxisProperties(chart.axes.valueAxis, properties.valueAxis);
+  }
+  if (properties.secondaryValueAxis) {
+    applyAxisProperties(
+      chart.axes.getItem(
+        Excel.ChartAxisType.value,
+        Excel.ChartAxisGroup.secondary,
+      ),
+      properties.secondaryValueAxis,
+    );
+  }
+  await context.sync();
+}
+
+async function modifyChart(
+  context: Excel.RequestContext,
+  sheet: Excel.Worksheet,
+  operation: "create" | "update" | "delete",
+  id: string | undefined,
+  properties: ChartProperties = {},
+): Promise<ModifyObjectResult> {
+  const seriesBy = Excel.ChartSeriesBy[properties.seriesBy ?? "auto"];
+
+  if (operation === "create") {
+    if (!properties.source || !properties.chartType) {
+      throw new Error("Chart creation requires source and chartType");
+    }
+    const source = await resolveRange(context, sheet, properties.source);
+    const chart = sheet.charts.add(
+      resolveChartType(properties.chartType),
+      source,
+      seriesBy,
+    );
+    await applyChartProperties(context, sheet, chart, {
+      ...properties,
+      chartType: undefined,
+    });
+    chart.load("id");
+    await context.sync();
+    return { success: true, operation, id: chart.id };
+  }
+
+  if (!id) throw new Error(`Chart ${operation} requires id`);
+  const chart = await findChart(context, sheet.charts, id);
+
+  if (operation === "delete") {
+    chart.delete();
+    await context.sync();
+    return { success: true, operation };
+  }
+
+  if (properties.source) {
+    chart.setData(
+      await resolveRange(context, sheet, properties.source),
+      seriesBy,
+    );
+  }
+  await applyChartProperties(context, sheet, chart, properties);
+  return { success: true, operation, id };
+}
+
+// ============================================================================
+// Shapes and images
+// ============================================================================
+
+export interface ShapeProperties {
+  name?: string;
+  /** "image", "textBox" or an Excel.GeometricShapeType key like "rectangle" */
+  shapeType?: string;
+  /** PNG or JPEG contents; the tool layer reads them from the VFS */
+  imageBase64?: string;
+  text?: string;
+  anchor?: string;
+  width?: number;
+  height?: number;
+  fill?: string;
+  lineColor?: string;
+  fontSize?: number;
+  fontColor?: string;
+  bold?: boolean;
+  horizontalAlignment?: "left" | "center" | "right";
+}
+
+// Shape types the add-in can create or describe; charts and slicers are
+// listed under their own object types
+const LISTED_SHAPES = new Set(["Image", "GeometricShape", "Line", "Group"]);
+
+async function loadShapes(
+  context: Excel.RequestContext,
+  shapes: Excel.ShapeCollection,
+  id?: string,
+): Promise<Omit<ExcelObject, "type" | "sheetId" | "sheetName">[]> {
+  shapes.load(
+    "items/id,items/name,items/type,items/left,items/top,items/width,items/height",
+  );
+  await context.sync();
+
+  const items = shapes.items.filter(
+    (s) => LISTED_SHAPES.has(s.type) && (!id || s.id === id || s.name === id),
+  );
+  const geometric = items.filter((s) => s.type === "GeometricShape");
+  for (const shape of geometric) {
+    shape.load("geometricShapeType");
+    shape.textFrame.load("hasText");
+    shape.textFrame.textRange.load("text");
+  }
+  if (geometric.length > 0) await context.sync();
+
+  return items.map((shape) => ({
+    id: shape.id,
+    name: shape.name,
+    details: {
+      shapeType:
+        shape.type === "GeometricShape"
+          ? lowerFirst(shape.geometricShapeType)
+          : lowerFirst(shape.type),
+      ...(shape.type === "GeometricShape" &&
+        shape.textFrame.hasText && { text: shape.textFrame.textRange.text }),
+      left: shape.left,
+      top: shape.top,
+      width: shape.width,
+      height: shape.height,
+    },
+  }));
+}
+
+async function applyShapeProperties(
+  context: Excel.RequestContext,
+  sheet: Excel.Worksheet,
+  shape: Excel.Shape,
+  properties: ShapeProperties,
+): Promise<void> {
+  if (properties.name) shape.name = properties.name;
+  if (properties.anchor) {
+    const anchor = await resolveRange(context, sheet, properties.anchor);
+    anchor.load("left,top");
+    await context.sync();
+    shape.left = anchor.left;
+    shape.top = anchor.top;
+  }
+  // One dimension alone scales pictures proportionally
+  if (properties.width !== undefined || properties.height !== undefined) {
+    shape.lockAspectRatio =
+      properties.width === undefined || properties.height === undefined;
+  }
+  if (properties.width !== undefined) shape.width = properties.width;
+  if (properties.height !== undefined) shape.height = properties.height;
+
+  if (properties.fill === "none") shape.fill.clear();
+  else if (properties.fill) shape.fill.setSolidColor(properties.fill);
+  if (properties.lineColor === "none") {
+    shape.lineFormat.visible = false;
+  } else if (properties.lineColor) {
+    shape.lineFormat.visible = true;
+    shape.lineFormat.color = properties.lineColor;
+  }
+
+  const styled =
+    properties.text !== undefined ||
+    properties.fontSize !== undefined ||
+    properties.fontColor !== undefined ||
+    properties.bold !== undefined ||
+    properties.horizontalAlignment !== undefined;
+  if (styled) {
+    const frame = shape.textFrame;
+    if (properties.text !== undefined) frame.textRange.text = properties.text;
+    const font = frame.textRange.font;
+    if (properties.fontSize !== undefined) font.size = properties.fontSize;
+    if (properties.fontColor !== undefined) font.color = properties.fontColor;
+    if (properties.bold !== undefined) font.bold = properties.bold;
+    if (properties.horizontalAlignment) {
+      frame.horizontalAlignment =
+        Excel.ShapeTextHorizontalAlignment[properties.horizontalAlignment];
+    }
+  }
+  await context.sync();
+}
+
+async function modifyShape(
+  context: Excel.RequestContext,
+  sheet: Excel.Worksheet,
+  operation: "create" | "update" | "delete",
+  id: string | undefined,
+  properties: ShapeProperties = {},
+): Promise<ModifyObjectResult> {
+  if (operation === "create") {
+    const { shapeType } = properties;
+    let shape: Excel.Shape;
+    if (shapeType === "image") {
+      if (!properties.imageBase64) {
+        throw new Error("Image creation requires an image file");
+      }
+      shape = sheet.shapes.addImage(properties.imageBase64);
+    } else if (shapeType === "textBox") {
+      shape = sheet.shapes.addTextBox(properties.text ?? "");
+    } else if (shapeType) {
+      shape = sheet.shapes.addGeometricShape(
+        enumValue(Excel.GeometricShapeType, shapeType, "shapeType"),
+      );
+    } else {
+      throw new Error("Shape creation requires shapeType");
+    }
+    await applyShapeProperties(context, sheet, shape, {
+      ...properties,
+      ...(shapeType === "textBox" && { text: undefined }),
+    });
+    shape.load("id");
+    await context.sync();
+    return { success: true, operation, id: shape.id };
+  }
+
+  if (!id) throw new Error(`Shape ${operation} requires id`);
+  sheet.shapes.load("items/id,items/name");
+  await context.sync();
+  const shape = sheet.shapes.items.find((s) => s.id === id || s.name === id);
+  if (!shape) throw new Error(`Shape "${id}" not found`);
+
+  if (operation === "delete") {
+    shape.delete();
+    await context.sync();
+    return { success: true, operation };
+  }
+
+  await applyShapeProperties(context, sheet, shape, properties);
+  return { success: true, operation, id };
+}
+
+// ============================================================================
+// Tables
+// ============================================================================
+
+export interface TableProperties {
+  name?: string;
+  source?: string;
+  hasHeaders?: boolean;
+  style?: string;
+  showTotals?: boolean;
+  totals?: {
+    column: string;
+    function?: TotalsFunction | "none";
+    formula?: string;
+  }[];
+  addRows?: { values: (string | number | boolean)[][]; index?: number };
+  deleteRows?: number[];
+  addColumns?: {
+    name: string;
+    values?: (string | number | boolean)[];
+    index?: number;
+  }[];
+  deleteColumns?: string[];
+  convertToRange?: boolean;
+}
+
+async function loadTables(
+  context: Excel.RequestContext,
+  tables: Excel.TableCollection,
+  id?: string,
+): Promise<Omit<ExcelObject, "type" | "sheetId" | "sheetName">[]> {
+  tables.load(
+    "items/id,items/name,items/showHeaders,items/showTotals,items/style",
+  );
+  await context.sync();
+
+  const items = tables.items.filter((t) => !id || t.id === id || t.name === id);
+  const loaded = items.map((table) => {
+    const range = table.getRange();
+    range.load("address");
+    const body = table.getDataBodyRange();
+    body.load("rowCount");
+    table.columns.load("items/name");
+    const totals = table.showTotals ? table.getTotalRowRange() : null;
+    totals?.load("formulas");
+    return { range, body, totals };
+  });
+  await context.sync();
+
+  return items.map((table, i) => {
+    const { range, body, totals } = loaded[i];
+    const columns = table.columns.items.map((c) => c.name);
+    const totalsByColumn: Record<string, string> = {};
+    if (totals) {
+      totals.formulas[0].forEach((formula, c) => {
+        const fn = parseTotalsFormula(formula);
+        if (fn) totalsByColumn[columns[c]] = fn;
+      });
+    }
+    return {
+      id: table.id,
+      name: table.name,
+      range: range.address.split("!")[1],
+      details: {
+        columns,
+        rowCount: body.rowCount,
+        showHeaders: table.showHeaders,
+        showTotals: table.showTotals,
+        style: table.style,
+        ...(Object.keys(totalsByColumn).length > 0 && {
+          totals: totalsByColumn,
+        }),
+      },
+    };
+  });
+}
+
+async function applyTableProperties(
+  context: Excel.RequestContext,
+  table: Excel.Table,
+  properties: TableProperties,
+): Promise<void> {
+  if (properties.name) table.name = properties.name;
+  if (properties.style) table.style = properties.style;
+
+  if (properties.deleteRows?.length) {
+    // Delete from the bottom so earlier indices stay valid
+    const indices = [...new Set(properties.deleteRows)].sort((a, b) => b - a);
+    for (const index of indices) table.rows.getItemAt(index).delete();
+  }
+  if (properties.addRows?.values.length) {
+    table.rows.add(properties.addRows.index, properties.addRows.values);
+  }
+
+  for (const column of properties.deleteColumns ?? []) {
+    table.columns.getItem(column).delete();
+  }
+  for (const column of properties.addColumns ?? []) {
+    if (column.values) {
+      table.columns.add(column.index, [
+        [column.name],
+        ...column.values.map((v) => [v]),
+      ]);
+    } else {
+      table.columns.add(column.index, undefined, column.name);
+    }
+  }
+  await context.sync();
+
+  if (properties.showTotals !== undefined) {
+    table.showTotals = properties.showTotals;
+  }
+  if (properties.totals?.length) {
+    table.showTotals = true;
+    table.load("name");
+    await context.sync();
+    for (const total of properties.totals) {
+      const cell = table.columns.getItem(total.column).getTotalRowRange();
+      const fn = total.function ?? "sum";
+      cell.formulas = [
+        [
+          total.formula ??
+            (fn === "none" ? "" : totalsFormula(table.name, total.column, fn)),
+        ],
+      ];
+    }
+  }
+  await context.sync();
+}
+
+async function modifyTable(
+  context: Excel.RequestContext,
+  sheet: Excel.Worksheet,
+  operation: "create" | "update" | "delete",
+  id: string | undefined,
+  properties: TableProperties = {},
+): Promise<ModifyObjectResult> {
+  if (operation === "create") {
+    if (!properties.source) throw new Error("Table creation requires source");
+    const source = await resolveRange(context, sheet, properties.source);
+    const table = sheet.tables.add(source, properties.hasHeaders ?? true);
+    await applyTableProperties(context, table, properties);
+    table.load("id");
+    await context.sync();
+    return { success: true, operation, id: table.id };
+  }
+
+  if (!id) throw new Error(`Table ${operation} requires id`);
+  const table = sheet.tables.getItemOrNullObject(id);
+  await context.sync();
+  if (table.isNullObject) throw new Error(`Table "${id}" not found`);
+
+  if (operation === "delete") {
+    if (properties.convertToRange) table.convertToRange();
+    else table.delete();
+    await context.sync();
+    return { success: true, operation };
+  }
+
+  await applyTableProperties(context, table, properties);
+  return { success: true, operation, id };
+}
+
+// ============================================================================
+// Sort and filter
+// ============================================================================
+
+export interface SortKey {
+  column: string | number;
+  ascending?: boolean;
+  sortOn?: "value" | "cellColor" | "fontColor";
+  color?: string;
+  customOrder?: string[];
+}
+
+export interface FilterInput {
+  column: string | number;
+  type:
+    | "values"
+    | "topItems"
+    | "topPercent"
+    | "bottomItems"
+    | "bottomPercent"
+    | "custom"
+    | "dynamic"
+    | "cellColor"
+    | "fontColor";
+  values?: string[];
+  count?: number;
+  criterion1?: string;
+  criterion2?: string;
+  operator?: "and" | "or";
+  dynamic?: string;
+  color?: string;
+}
+
+export interface ActiveFilter {
+  column: string;
+  type: string;
+  values?: unknown[];
+  criterion1?: string;
+  criterion2?: string;
+  operator?: string;
+  dynamic?: string;
+  color?: string;
+}
+
+export interface SortFilterResult {
+  success: boolean;
+  operation: string;
+  range?: string;
+  table?: string;
+  filters?: ActiveFilter[];
+  isDataFiltered?: boolean;
+  messages?: string[];
+}
+
+interface SortFilterTarget {
+  range: Excel.Range;
+  table: Excel.Table | null;
+  address: string;
+  rowIndex: number;
+  columnIndex: number;
+  rowCount: number;
+  columnCount: number;
+  headers: string[];
+}
+
+/**
+ * Resolve the range to sort or filter. Ranges overlapping a table act on the
+ * whole table, since Excel only sorts and filters tables as a unit.
+ */
+async function resolveSortFilterTarget(
+  context: Excel.RequestContext,
+  sheet: Excel.Worksheet,
+  ref: string,
+): Promise<SortFilterTarget> {
+  let range = await resolveRange(context, sheet, ref);
+  const tables = range.getTables(false);
+  tables.load("items/name,items/showTotals");
+  await context.sync();
+
+  if (tables.items.length > 1) {
+    throw new Error(`${ref} overlaps several tables; target one of them`);
+  }
+  const table = tables.items[0] ?? null;
+  if (table) range = table.getRange();
+
+  range.load("address,rowIndex,columnIndex,rowCount,columnCount");
+  const headerRow = range.getRow(0);
+  headerRow.load("values");
+  await context.sync();
+
+  return {
+    range,
+    table,
+    address: range.address.split("!")[1],
+    rowIndex: range.rowIndex,
+    columnIndex: range.columnIndex,
+    rowCount: range.rowCount,
+    columnCount: range.columnCount,
+    headers: headerRow.values[0].map((v) => String(v ?? "")),
+  };
+}
+
+/** Column offset inside the target: header name, column letter or offset. */
+function resolveColumnOffset(
+  target: SortFilterTarget,
+  column: string | number,
+  hasHeaders: boolean,
+): number {
+  if (typeof column === "number") {
+    if (column >= 0 && column < target.columnCount) return column;
+  } else {
+    if (hasHeaders) {
+      const byHeader = target.headers.findIndex(
+        (h) => h.toLowerCase() === column.toLowerCase(),
+      );
+      if (byHeader >= 0) return byHeader;
+    }
+    if (/^[A-Z]{1,3}$/i.test(column)) {
+      const offset = letterToColumnIndex(column) - target.columnIndex;
+      if (offset >= 0 && offset < target.columnCount) return offset;
+    }
+  }
+  throw new Error(`Column ${column} not found in ${target.address}`);
+}
+
+function customOrderRank(order: string[], value: unknown): number {
+  const needle = String(value ?? "").toLowerCase();
+  const index = order.findIndex((item) => item.toLowerCase() === needle);
+  return index === -1 ? order.length : index;
+}
+
+function buildFilterCriteria(filter: FilterInput): Excel.FilterCriteria {
+  switch (filter.type) {
+    case "values":
+      if (!filter.values?.length) {
+        throw new Error("values filters require values");
+      }
+      return { filterOn: Excel.FilterOn.values, values: filter.values };
+    case "topItems":
+    case "topPercent":
+    case "bottomItems":
+    case "bottomPercent":
+      return {
+        filterOn: Excel.FilterOn[filter.type],
+        criterion1: String(filter.count ?? 10),
+      };
+    case "custom":
+      if (!filter.criterion1) {
+        throw new Error("custom filters require criterion1, e.g. '>=100'");
+      }
+      return {
+        filterOn: Excel.FilterOn.custom,
+        criterion1: filter.criterion1,
+        ...(filter.criterion2 && {
+          criterion2: filter.criterion2,
+          operator:
+            filter.operator === "or"
+              ? Excel.FilterOperator.or
+              : Excel.FilterOperator.and,
+        }),
+      };
+    case "dynamic":
+      if (!filter.dynamic || !(filter.dynamic in Excel.DynamicFilterCriteria)) {
+        throw new Error(`Unknown dynamic filter: ${filter.dynamic}`);
+      }
+      return {
+        filterOn: Excel.FilterOn.dynamic,
+        dynamicCriteria:
+          Excel.DynamicFilterCriteria[
+            filter.dynamic as keyof typeof Excel.DynamicFilterCriteria
+          ],
+      };
+    case "cellColor":
+    case "fontColor":
+      if (!filter.color)
+        throw new Error(`${filter.type} filters require color`);
+      return { filterOn: Excel.FilterOn[filter.type], color: filter.color };
+  }
+}
+
+async function sortTarget(
+  context: Excel.RequestContext,
+  sheet: Excel.Worksheet,
+  target: SortFilterTarget,
+  keys: SortKey[],
+  hasHeaders: boolean,
+  matchCase: boolean,
+): Promise<void> {
+  const offsets = keys.map((k) =>
+    resolveColumnOffset(target, k.column, hasHeaders),
+  );
+  const customKeys = keys.filter((k) => k.customOrder?.length);
+
+  // Office.js has no custom sort lists: rank values in temporary helper
+  // columns next to the data, sort on those, then remove them.
+  let helperValues: (string | number)[][] = [];
+  if (customKeys.length > 0) {
+    target.range.load("values");
+    await context.sync();
+    helperValues = target.range.values.map((row, r) =>
+      keys
+        .map((k, i) => ({ k, i }))
+        .filter(({ k }) => k.customOrder?.length)
+        .map(({ k, i }) => {
+          if (r === 0 && hasHeaders) return `__sort${i}`;
+          const rank = customOrderRank(k.customOrder, row[offsets[i]]);
+          // Reverse the listed values only; unlisted ones stay last
+          if (k.ascending !== false || rank === k.customOrder.length) {
+            return rank;
+          }
+          return k.customOrder.length - 1 - rank;
+        }),
+    );
+  }
+
+  let helperIndex = target.columnCount;
+  const fields: Excel.SortField[] = keys.map((k, i) => {
+    if (k.customOrder?.length) {
+      return { key: helperIndex++, ascending: true };
+    }
+    return {
+      key: offsets[i],
+      ascending: k.ascending ?? true,
+      ...(k.sortOn &&
+        k.sortOn !== "value" && {
+          sortOn: Excel.SortOn[k.sortOn],
+          color: k.color,
+        }),
+    };
+  });
+
+  if (target.table) {
+    const table = target.table;
+    // Column values cover the header and body, not the totals row
+    const rows = table.showTotals ? helperValues.slice(0, -1) : helperValues;
+    const helpers = rows[0]?.map((_, c) =>
+      table.columns.add(
+        undefined,
+        rows.map((row) => [row[c]]),
+      ),
+    );
+    try {
+      table.sort.apply(fields, matchCase);
+      await context.sync();
+    } finally {
+      for (const helper of helpers ?? []) helper.delete();
+      await context.sync();
+    }
+    return;
+  }
+
+  if (customKeys.length === 0) {
+    target.range.sort.apply(
+      fields,
+      matchCase,
+      hasHeaders,
+      Excel.SortOrientation.rows,
+    );
+    await context.sync();
+    return;
+  }
+
+  const helperAt = () =>
+    sheet.getRangeByIndexes(
+      target.rowIndex,
+      target.columnIndex + target.columnCount,
+      target.rowCount,
+      customKeys.length,
+    );
+  // Sync the insert on its own: if Excel rejects it (tables, merged areas or
+  // protection in the way), the cleanup below would delete the user's columns
+  helperAt().insert(Excel.InsertShiftDirection.right);
+  await context.sync();
+  try {
+    helperAt().values = helperValues;
+    sheet
+      .getRangeByIndexes(
+        target.rowIndex,
+        target.columnIndex,
+        target.rowCount,
+        target.columnCount + customKeys.length,
+      )
+      .sort.apply(fields, matchCase, hasHeaders, Excel.SortOrientation.rows);
+    await context.sync();
+  } finally {
+    helperAt().delete(Excel.DeleteShiftDirection.left);
+    await context.sync();
+  }
+}
+
+async function readFilters(
+  context: Excel.RequestContext,
+  autoFilter: Excel.AutoFilter,
+): Promise<Pick<SortFilterResult, "range" | "filters" | "isDataFiltered">> {
+  const filterRange = autoFilter.getRangeOrNullObject();
+  filterRange.load("address,columnIndex");
+  autoFilter.load("enabled,isDataFiltered,criteria");
+  await context.sync();
+  if (filterRange.isNullObject || !autoFilter.enabled) return { filters: [] };
+
+  const headerRow = filterRange.getRow(0);
+  headerRow.load("values");
+  await context.sync();
+
+  const filters: ActiveFilter[] = [];
+  autoFilter.criteria.forEach((c, i) => {
+    if (!c?.filterOn) return;
+    filters.push({
+      column:
+        String(headerRow.values[0][i] ?? "") ||
+        columnIndexToLetter(filterRange.columnIndex + i),
+      type: lowerFirst(c.filterOn),
+      ...(c.values?.length && { values: c.values }),
+      ...(c.criterion1 && { criterion1: c.criterion1 }),
+      ...(c.criterion2 && { criterion2: c.criterion2, operator: c.operator }),
+      ...(c.dynamicCriteria && { dynamic: lowerFirst(c.dynamicCriteria) }),
+      ...(c.color && { color: c.color }),
+    });
+  });
+
+  return {
+    range: filterRange.address.split("!")[1],
+    filters,
+    isDataFiltered: autoFilter.isDataFiltered,
+  };
+}
+
+/** The address a sort of `ref` reorders, widened to its table if any */
+export async function resolveSortRange(
+  sheetId: number,
+  ref: string,
+): Promise<string> {
+  return Excel.run(async (context) => {
+    const sheet = await getWorksheetById(context, sheetId);
+    if (!sheet) throw new Error(`Worksheet with ID ${sheetId} not found`);
+    return (await resolveSortFilterTarget(context, sheet, ref)).address;
+  });
+}
+
+export async function sortFilterRange(params: {
+  operation: "sort" | "filter" | "readFilter" | "clearFilter";
+  sheetId: number;
+  range?: string;
+  keys?: SortKey[];
+  filters?: FilterInput[];
+  hasHeaders?: boolean;
+  matchCase?: boolean;
+  removeFilter?: boolean;
+}): Promise<SortFilterResult> {
+  const { operation, sheetId, range } = params;
+  const hasHeaders = params.hasHeaders ?? true;
+
+  return Excel.run(async (context) => {
+    const sheet = await getWorksheetById(context, sheetId);
+    if (!sheet) throw new Error(`Worksheet with ID ${sheetId} not found`);
+
+    const target = range
+      ? await resolveSortFilterTarget(context, sheet, range)
+      : null;
+    const tableName = target?.table?.name;
+    const autoFilter = target?.table
+      ? target.table.autoFilter
+      : sheet.autoFilter;
+
+    switch (operation) {
+      case "sort": {
+        if (!target || !params.keys?.length) {
+          throw new Error("Sorting requires range and keys");
+        }
+        await sortTarget(
+          context,
+          sheet,
+          target,
+          params.keys,
+          target.table ? true : hasHeaders,
+          params.matchCase ?? false,
+        );
+        return {
+          success: true,
+          operation,
+          range: target.address,
+          ...(tableName && { table: tableName }),
+        };
+      }
+      case "filter": {
+        if (!target || !params.filters?.length) {
+          throw new Error("Filtering requires range and filters");
+        }
+        const messages: string[] = [];
+        if (!target.table) {
+          // A sheet has a single AutoFilter; move it if it's elsewhere
+          const existing = sheet.autoFilter.getRangeOrNullObject();
+          existing.load("address");
+          await context.sync();
+          const existingAddress = existing.isNullObject
+            ? null
+            : existing.address.split("!")[1];
+          if (existingAddress && existingAddress !== target.address) {
+            sheet.autoFilter.remove();
+            messages.push(`Removed existing AutoFilter on ${existingAddress}`);
+          }
+        }
+        for (const filter of params.filters) {
+          autoFilter.apply(
+            target.range,
+            resolveColumnOffset(target, filter.column, true),
+            buildFilterCriteria(filter),
+          );
+        }
+        await context.sync();
+        const state = await readFilters(context, autoFilter);
+        return {
+          success: true,
+          operation,
+          ...state,
+          range: state.range ?? target.address,
+          ...(tableName && { table: tableName }),
+          ...(messages.length > 0 && { messages }),
+        };
+      }
+      case "readFilter": {
+        const state = await readFilters(context, autoFilter);
+        return {
+          success: true,
+          operation,
+          ...state,
+          ...(tableName && { table: tableName }),
+        };
+      }
+      case "clearFilter": {
+        const state = await readFilters(context, autoFilter);
+        if (params.removeFilter && !target?.table) autoFilter.remove();
+        else autoFilter.clearCriteria();
+        await context.sync();
+        return {
+          success: true,
+          operation,
+          range: state.range,
+          ...(tableName && { table: tableName }),
+        };
+      }
+    }
+  });
+}
+
+// ============================================================================
+// Protection
+// ============================================================================
+
+export const PROTECTION_ACTIONS = [
+  "autoFilter",
+  "deleteColumns",
+  "deleteRows",
+  "editObjects",
+  "editScenarios",
+  "formatCells",
+  "formatColumns",
+  "formatRows",
+  "insertColumns",
+  "insertHyperlinks",
+  "insertRows",
+  "pivotTables",
+  "sort",
+] as const;
+
+export type ProtectionAction = (typeof PROTECTION_ACTIONS)[number];
+
+type ProtectionOption = Exclude<
+  keyof Excel.WorksheetProtectionOptions,
+  "selectionMode"
+>;
+
+function protectionOption(action: ProtectionAction): ProtectionOption {
+  return `allow${action.charAt(0).toUpperCase()}${action.slice(1)}` as ProtectionOption;
+}
+
+function allowedActions(
+  options: Excel.WorksheetProtectionOptions,
+): ProtectionAction[] {
+  return PROTECTION_ACTIONS.filter(
+    (action) => options[protectionOption(action)],
+  );
+}
+
+/**
+ * Locked cells of a range as A1 areas. `areas` is null when the range is
+ * partly locked but too large to list cell by cell.
+ */
+async function loadLockedAreas(
+  context: Excel.RequestContext,
+  range: Excel.Range,
+): Promise<string[] | null> {
+  range.load("address,rowCount,columnCount,rowIndex,columnIndex");
+  range.format.protection.load("locked");
+  await context.sync();
+
+  const address = range.address.split("!")[1] ?? range.address;
+  if (range.format.protection.locked === true) return [address];
+  if (range.format.protection.locked === false) return [];
+  if (range.rowCount * range.columnCount > MAX_STYLE_CELLS) return null;
+
+  const props = range.getCellProperties({
+    format: { protection: true },
+  });
+  await context.sync();
+  const locked: { row: number; col: number }[] = [];
+  for (let r = 0; r < range.rowCount; r++) {
+    for (let c = 0; c < range.columnCount; c++) {
+      if (props.value[r][c].format?.protection?.locked) {
+        locked.push({ row: range.rowIndex + r, col: range.columnIndex + c });
+      }
+    }
+  }
+  return coalesceCells(locked).map(rectToA1);
+}
+
+/**
+ * Fail with an actionable message instead of Office.js's generic
+ * AccessDenied when a write would touch locked cells of a protected sheet.
+ */
+async function assertUnlocked(
+  context: Excel.RequestContext,
+  sheet: Excel.Worksheet,
+  range: Excel.Range,
+): Promise<void> {
+  sheet.load("name");
+  sheet.protection.load("protected");
+  await context.sync();
+  if (!sheet.protection.protected) return;
+
+  const locked = await loadLockedAreas(context, range);
+  if (locked?.length === 0) return;
+  const cells = locked
+    ? `${locked.join(", ")} ${locked.length === 1 && !locked[0].includes(":") ? "is" : "are"} locked`
+    : "some of the target cells are locked";
+  throw new Error(
+    `Sheet "${sheet.name}" is protected and ${cells}. ` +
+      "Write only to unlocked cells, or ask the user whether to unprotect the sheet " +
+      "(modify_sheet_protection, with their password if it has one).",
+  );
+}
+
+export interface SheetProtectionInfo {
+  allowedActions: ProtectionAction[];
+  /** Locked cells of the used range; omitted when too large to list */
+  lockedRanges?: string[];
+}
+
+async function loadSheetProtection(
+  context: Excel.RequestContext,
+  sheet: Excel.Worksheet,
+  usedRange: Excel.Range,
+): Promise<SheetProtectionInfo> {
+  const locked = usedRange.isNullObject
+    ? []
+    : await loadLockedAreas(context, usedRange);
+  return {
+    allowedActions: allowedActions(sheet.protection.options),
+    ...(locked && { lockedRanges: locked }),
+  };
+}
+
+export interface ModifySheetProtectionResult {
+  success: boolean;
+  sheetName: string;
+  protected: boolean;
+  allowedActions?: ProtectionAction[];
+  unlockedRanges?: string[];
+}
+
+export async function modifySheetProtection(params: {
+  sheetId: number;
+  operation: "protect" | "unprotect";
+  password?: string;
+  allow?: ProtectionAction[];
+  unlockedRanges?: string[];
+}): Promise<ModifySheetProtectionResult> {
+  const { sheetId, operation, password, allow = [], unlockedRanges } = params;
+
+  return Excel.run(async (context) => {
+    const sheet = await getWorksheetById(context, sheetId);
+    if (!sheet) throw new Error(`Worksheet with ID ${sheetId} not found`);
+    sheet.load("name");
+    sheet.protection.load("protected");
+    await context.sync();
+
+    if (operation === "unprotect") {
+      if (sheet.protection.protected) {
+        sheet.protection.unprotect(password);
+        try {
+          await context.sync();
+        } catch {
+          throw new Error(
+            password
+              ? `Could not unprotect "${sheet.name}": the password is wrong`
+              : `"${sheet.name}" is password-protected; ask the user for the password`,
+          );
+        }
+      }
+      return { success: true, sheetName: sheet.name, protected: false };
+    }
+
+    if (sheet.protection.protected) {
+      throw new Error(
+        `"${sheet.name}" is already protected; unprotect it first to change its options`,
+      );
+    }
+
+    // Cells are locked by default; unlocking only takes effect once protected
+    for (const address of unlockedRanges ?? []) {
+      const range = await resolveRange(context, sheet, address);
+      range.format.protection.locked = false;
+    }
+    const options: Excel.WorksheetProtectionOptions = {};
+    for (const action of allow) options[protectionOption(action)] = true;
+    sheet.protection.protect(options, password || undefined);
+    await context.sync();
+
+    return {
+      success: true,
+      sheetName: sheet.name,
+      protected: true,
+      allowedActions: allow,
+      ...(unlockedRanges?.length && { unlockedRanges }),
+    };
+  });
+}
+
+// ============================================================================
+// Page layout
+// ============================================================================
+
+export interface HeaderFooterText {
+  left?: string;
+  center?: string;
+  right?: string;
+}
+
+export interface PageMargins {
+  top?: number;
+  bottom?: number;
+  left?: number;
+  right?: number;
+  header?: number;
+  footer?: number;
+}
+
+export interface PageLayoutSettings {
+  printArea?: string;
+  /** Rows repeated at the top of every page, e.g. "1:2" */
+  printTitleRows?: string;
+  /** Columns repeated at the left of every page, e.g. "A:B" */
+  printTitleColumns?: string;
+  orientation?: "portrait" | "landscape";
+  /** An Excel.PaperType key, e.g. "a4", "letter", "legal" */
+  paperSize?: string;
+  /** Inches */
+  margins?: PageMargins;
+  /** Percent; ignored when fitToPages is set */
+  scale?: number;
+  /** Pages wide/tall; 0 leaves that direction unconstrained */
+  fitToPages?: { wide?: number; tall?: number };
+  centerHorizontally?: boolean;
+  centerVertically?: boolean;
+  header?: HeaderFooterText;
+  footer?: HeaderFooterText;
+  printGridlines?: boolean;
+  printHeadings?: boolean;
+  blackAndWhite?: boolean;
+  /** Row numbers that start a new page */
+  rowBreaks?: number[];
+  /** Column letters that start a new page */
+  columnBreaks?: string[];
+}
+
+const POINTS_PER_INCH = 72;
+
+function inches(points: number): number {
+  return Math.round((points / POINTS_PER_INCH) * 100) / 100;
+}
+
+function rangeAddress(range: Excel.Range | Excel.RangeAreas): string | null {
+  if (range.isNullObject) return null;
+  return range.address
+    .split(",")
+    .map((area) => area.split("!").pop() ?? area)
+    .join(",");
+}
+
+async function loadPageLayout(
+  context: Excel.RequestContext,
+  sheet: Excel.Worksheet,
+): Promise<PageLayoutSettings> {
+  const layout = sheet.pageLayout;
+  layout.load(
+    "orientation,paperSize,topMargin,bottomMargin,leftMargin,rightMargin,headerMargin,footerMargin," +
+      "zoom,centerHorizontally,centerVertically,printGridlines,printHeadings,blackAndWhite",
+  );
+  const printArea = layout.getPrintAreaOrNullObject();
+  printArea.load("address");
+  const titleRows = layout.getPrintTitleRowsOrNullObject();
+  titleRows.load("address");
+  const titleColumns = layout.getPrintTitleColumnsOrNullObject();
+  titleColumns.load("address");
+  const headerFooter = layout.headersFooters.defaultForAllPages;
+  headerFooter.load(
+    "leftHeader,centerHeader,rightHeader,leftFooter,centerFooter,rightFooter",
+  );
+  sheet.horizontalPageBreaks.load("items/rowIndex");
+  sheet.verticalPageBreaks.load("items/columnIndex");
+  await context.sync();
+
+  const { zoom } = layout;
+  const fitted = !!(zoom.horizontalFitToPages || zoom.verticalFitToPages);
+  const header = {
+    left: headerFooter.leftHeader,
+    center: headerFooter.centerHeader,
+    right: headerFooter.rightHeader,
+  };
+  const footer = {
+    left: headerFooter.leftFooter,
+    center: headerFooter.centerFooter,
+    right: headerFooter.rightFooter,
+  };
+  const filled = (text: HeaderFooterText) =>
+    Object.values(text).some((part) => part);
+
+  const area = rangeAddress(printArea);
+  const rows = rangeAddress(titleRows);
+  const columns = rangeAddress(titleColumns);
+
+  return {
+    ...(area && { printArea: area }),
+    ...(rows && { printTitleRows: rows }),
+    ...(columns && { printTitleColumns: columns }),
+    orientation: lowerFirst(layout.orientation) as "portrait" | "landscape",
+    paperSize: lowerFirst(layout.paperSize),
+    margins: {
+      top: inches(layout.topMargin),
+      bottom: inches(layout.bottomMargin),
+      left: inches(layout.leftMargin),
+      right: inches(layout.rightMargin),
+      header: inches(layout.headerMargin),
+      footer: inches(layout.footerMargin),
+    },
+    ...(fitted
+      ? {
+          fitToPages: {
+            wide: zoom.horizontalFitToPages ?? 0,
+            tall: zoom.verticalFitToPages ?? 0,
+          },
+        }
+      : { scale: zoom.scale ?? 100 }),
+    centerHorizontally: layout.centerHorizontally,
+    centerVertically: layout.centerVertically,
+    ...(filled(header) && { header }),
+    ...(filled(footer) && { footer }),
+    printGridlines: layout.printGridlines,
+    printHeadings: layout.printHeadings,
+    blackAndWhite: layout.blackAndWhite,
+    ...(sheet.horizontalPageBreaks.items.length > 0 && {
+      rowBreaks: sheet.horizontalPageBreaks.items.map((b) => b.rowIndex + 1),
+    }),
+    ...(sheet.verticalPageBreaks.items.length > 0 && {
+      columnBreaks: sheet.verticalPageBreaks.items.map((b) =>
+        columnIndexToLetter(b.columnIndex),
+      ),
+    }),
+  };
+}
+
+export interface PageLayoutResult {
+  success: boolean;
+  sheetName: string;
+  pageLayout: PageLayoutSettings;
+}
+
+export async function modifyPageLayout(params: {
+  sheetId: number;
+  operation: "get" | "set";
+  settings?: PageLayoutSettings;
+  clearPageBreaks?: boolean;
+}): Promise<PageLayoutResult> {
+  const { sheetId, operation, settings = {}, clearPageBreaks } = params;
+
+  return Excel.run(async (context) => {
+    const sheet = await getWorksheetById(context, sheetId);
+    if (!sheet) throw new Error(`Worksheet with ID ${sheetId} not found`);
+    sheet.load("name");
+
+    if (operation === "set") {
+      const layout = sheet.pageLayout;
+      if (settings.printArea) {
+        const areas = settings.printArea.split(",").map((a) => a.trim());
+        if (areas.length === 1) {
+          layout.setPrintArea(await resolveRange(context, sheet, areas[0]));
+        } else {
+          layout.setPrintArea(areas.join(","));
+        }
+      }
+      if (settings.printTitleRows) {
+        layout.setPrintTitleRows(settings.printTitleRows);
+      }
+      if (settings.printTitleColumns) {
+        layout.setPrintTitleColumns(settings.printTitleColumns);
+      }
+      if (settings.orientation) {
+        layout.orientation = Excel.PageOrientation[settings.orientation];
+      }
+      if (settings.paperSize) {
+        layout.paperSize = enumValue(
+          Excel.PaperType,
+          settings.paperSize,
+          "paperSize",
+        );
+      }
+      if (settings.margins) {
+        layout.setPrintMargins(Excel.PrintMarginUnit.inches, settings.margins);
+      }
+      if (settings.fitToPages) {
+        layout.zoom = {
+          horizontalFitToPages: settings.fitToPages.wide ?? 0,
+          verticalFitToPages: settings.fitToPages.tall ?? 0,
+        };
+      } else if (settings.scale !== undefined) {
+        layout.zoom = { scale: settings.scale };
+      }
+      if (settings.centerHorizontally !== undefined) {
+        layout.centerHorizontally = settings.centerHorizontally;
+      }
+      if (settings.centerVertically !== undefined) {
+        layout.centerVertically = settings.centerVertically;
+      }
+      if (settings.printGridlines !== undefined) {
+        layout.printGridlines = settings.printGridlines;
+      }
+      if (settings.printHeadings !== undefined) {
+        layout.printHeadings = settings.printHeadings;
+      }
+      if (settings.blackAndWhite !== undefined) {
+        layout.blackAndWhite = settings.blackAndWhite;
+      }
+
+      const headerFooter = layout.headersFooters.defaultForAllPages;
+      const { header, footer } = settings;
+      if (header?.left !== undefined) headerFooter.leftHeader = header.left;
+      if (header?.center !== undefined) {
+        headerFooter.centerHeader = header.center;
+      }
+      if (header?.right !== undefined) headerFooter.rightHeader = header.right;
+      if (footer?.left !== undefined) headerFooter.leftFooter = footer.left;
+      if (footer?.center !== undefined) {
+        headerFooter.centerFooter = footer.center;
+      }
+      if (footer?.right !== undefined) headerFooter.rightFooter = footer.right;
+
+      if (clearPageBreaks) {
+        sheet.horizontalPageBreaks.removePageBreaks();
+        sheet.verticalPageBreaks.removePageBreaks();
+      }
+      // A break is inserted above/left of the given cell
+      for (const row of settings.rowBreaks ?? []) {
+        sheet.horizontalPageBreaks.add(`A${row}`);
+      }
+      for (const column of settings.columnBreaks ?? []) {
+        sheet.verticalPageBreaks.add(`${column.toUpperCase()}1`);
+      }
+      await context.sync();
+    }
+
+    const pageLayout = await loadPageLayout(context, sheet);
+    return { success: true, sheetName: sheet.name, pageLayout };
+  });
+}
+
+// ============================================================================
+// Formatting conventions
+// ============================================================================
+
+const SETTINGS_KEY_CONVENTION = "openexcel-format-convention";
+const MAX_CONVENTION_CELLS = 50_000;
+
+/** The workbook's saved convention, or the default when none was saved */
+export async function loadFormatConvention(): Promise<{
+  convention: FormatConvention;
+  saved: boolean;
+}> {
+  return new Promise((resolve) => {
+    Office.context.document.settings.refreshAsync(() => {
+      const saved = Office.context.document.settings.get(
+        SETTINGS_KEY_CONVENTION,
+      ) as FormatConvention | null;
+      resolve({
+        convention: saved ?? DEFAULT_CONVENTION,
+        saved: saved !== null,
+      });
+    });
+  });
+}
+
+async function saveFormatConvention(
+  convention: FormatConvention | null,
+): Promise<void> {
+  const settings = Office.context.document.settings;
+  if (convention) settings.set(SETTINGS_KEY_CONVENTION, convention);
+  else settings.remove(SETTINGS_KEY_CONVENTION);
+  return new Promise((resolve, reject) => {
+    settings.saveAsync((result) => {
+      if (result.status === Office.AsyncResultStatus.Succeeded) resolve();
+      else {
+        reject(
+          new Error(result.error?.message ?? "Failed to save the convention"),
+        );
+      }
+    });
+  });
+}
+
+export async function modifyFormatConvention(params: {
+  operation: "get" | "set" | "reset";
+  convention?: Parameters<typeof mergeConvention>[1];
+}): Promise<{
+  success: boolean;
+  saved: boolean;
+  convention: FormatConvention;
+}> {
+  if (params.operation === "reset") {
+    await saveFormatConvention(null);
+    return { success: true, saved: false, convention: DEFAULT_CONVENTION };
+  }
+  const current = await loadFormatConvention();
+  if (params.operation === "get") return { success: true, ...current };
+
+  if (!params.convention) throw new Error("set requires a convention");
+  const convention = mergeConvention(current.convention, params.convention);
+  await saveFormatConvention(convention);
+  return { success: true, saved: true, convention };
+}
+
+export interface ApplyFormatConventionResult {
+  success: boolean;
+  applied: boolean;
+  range: string;
+  counts: Record<CellRole, number>;
+  /** Cells of each role, coalesced into ranges */
+  cells: Partial<Record<CellRole, string[]>>;
+  numberFormatsChanged: number;
+}
+
+/**
+ * Classify every cell in a range and, with apply, style it by the workbook's
+ * convention. Text and empty cells are left alone.
+ */
+export async function applyFormatConvention(params: {
+  sheetId: number;
+  range?: string;
+  apply: boolean;
+  roles?: CellRole[];
+  numberFormat?: NumberFormatKind;
+  normalizeNumberFormats?: boolean;
+}): Promise<ApplyFormatConventionResult> {
+  const { convention } = await loadFormatConvention();
+
+  return Excel.run(async (context) => {
+    const sheet = await getWorksheetById(context, params.sheetId);
+    if (!sheet)
+      throw new Error(`Worksheet with ID ${params.sheetId} not found`);
+    sheet.load("name");
+    const range = params.range
+      ? await resolveRange(context, sheet, params.range)
+      : sheet.getUsedRange();
+    range.load("address,cellCount,rowIndex,columnIndex");
+    await context.sync();
+    if (range.cellCount > MAX_CONVENTION_CELLS) {
+      throw new Error(
+        `${range.address} has ${range.cellCount} cells; apply the convention in blocks of up to ${MAX_CONVENTION_CELLS}`,
+      );
+    }
+    range.load("formulas,values,numberFormat");
+    await context.sync();
+
+    const plan = planFormatting(
+      {
+        formulas: range.formulas,
+        values: range.values,
+        numberFormats: range.numberFormat,
+      },
+      sheet.name,
+      convention,
+      params,
+    );
+
+    const byRole: Partial<Record<CellRole, { row: number; col: number }[]>> =
+      {};
+    for (const cell of plan.cells) {
+      const list = byRole[cell.role] ?? [];
+      list.push({
+        row: range.rowIndex + cell.row,
+        col: range.columnIndex + cell.col,
+      });
+      byRole[cell.role] = list;
+    }
+    const cells = Object.fromEntries(
+      Object.entries(byRole).map(([role, list]) => [
+        role,
+        coalesceCells(list).map(rectToA1),
+      ]),
+    );
+    const formatted = plan.cells.filter((c) => c.numberFormat);
+
+    if (params.apply && plan.cells.length > 0) {
+      await assertUnlocked(context, sheet, range);
+      const properties: Excel.SettableCellProperties[][] = range.formulas.map(
+        (row) => row.map(() => ({})),
+      );
+      for (const { row, col, style } of plan.cells) {
+        if (!style) continue;
+        properties[row][col] = {
+          format: {
+            font: {
+              ...(style.fontColor && { color: style.fontColor }),
+              ...(style.bold !== undefined && { bold: style.bold }),
+              ...(style.italic !== undefined && { italic: style.italic }),
+            },
+            ...(style.fillColor && { fill: { color: style.fillColor } }),
+          },
+        };
+      }
+      range.setCellProperties(properties);
+      if (formatted.length > 0) {
+        const numberFormat = range.numberFormat.map((row) => [...row]);
+        for (const c of formatted) numberFormat[c.row][c.col] = c.numberFormat;
+        range.numberFormat = numberFormat;
+      }
+      await context.sync();
+    }
+
+    return {
+      success: true,
+      applied: params.apply,
+      range: range.address,
+      counts: plan.counts,
+      cells,
+      numberFormatsChanged: formatted.length,
+    };
+  });
+}
+
+// ============================================================================
+// What-if analysis
+// ============================================================================
+
+export interface ModelCell {
+  sheetId: number;
+  cell: string;
+}
+
+interface ModelRunner {
+  /** Write the inputs, recalculate and read the outputs (NaN for non-numbers) */
+  run(inputs: number[]): Promise<number[]>;
+  /** Several runs queued in one round trip */
+  runBatch(inputs: number[][]): Promise<number[][]>;
+  restore(): Promise<void>;
+  originals: number[];
+  inputLabels: string[];
+  outputLabels: string[];
+  numberFormats: { inputs: string[]; outputs: string[] };
+}
+
+async function resolveModelCell(
+  context: Excel.RequestContext,
+  ref: ModelCell,
+): Promise<{ range: Excel.Range; label: string }> {
+  const sheet = await getWorksheetById(context, ref.sheetId);
+  if (!sheet) throw new Error(`Worksheet with ID ${ref.sheetId} not found`);
+  sheet.load("name");
+  const range = await resolveRange(context, sheet, ref.cell);
+  range.load("address,cellCount");
+  await context.sync();
+  if (range.cellCount !== 1) {
+    throw new Error(`${ref.cell} must be a single cell`);
+  }
+  return { range, label: `${sheet.name}!${range.address.split("!")[1]}` };
+}
+
+/**
+ * Drive a model through its inputs. Inputs must hold numeric constants, as
+ * in Excel's Goal Seek; outputs are read after each recalculation.
+ */
+async function createModelRunner(
+  context: Excel.RequestContext,
+  inputRefs: ModelCell[],
+  outputRefs: ModelCell[],
+): Promise<ModelRunner> {
+  const inputs = [];
+  for (const ref of inputRefs)
+    inputs.push(await resolveModelCell(context, ref));
+  const outputs = [];
+  for (const ref of outputRefs) {
+    outputs.push(await resolveModelCell(context, ref));
+  }
+
+  for (const { range } of inputs) range.load("formulas,values,numberFormat");
+  for (const { range } of outputs) range.load("numberFormat");
+  const application = context.workbook.application;
+  application.load("calculationMode");
+  await context.sync();
+
+  const originals = inputs.map(({ range, label }) => {
+    const formula = range.formulas[0][0];
+    if (typeof formula === "string" && formula.startsWith("=")) {
+      throw new Error(
+        `${label} contains a formula; the changing cells must hold constant inputs`,
+      );
+    }
+    const value = range.values[0][0];
+    if (typeof value !== "number") {
+      throw new Error(
+        `${label} must hold a number, not ${JSON.stringify(value)}`,
+      );
+    }
+    return value;
+  });
+  const manual = application.calculationMode !== "Automatic";
+
+  const queueWrite = (values: number[]) => {
+    inputs.forEach(({ range }, i) => {
+      range.values = [[values[i]]];
+    });
+    if (manual) application.calculate(Excel.CalculationType.recalculate);
+  };
+  const toNumber = (value: unknown) =>
+    typeof value === "number" ? value : Number.NaN;
+
+  const runBatch = async (batch: number[][]) => {
+    // Reads are queued after each write, so every run needs its own proxies
+    const reads = batch.map((values) => {
+      queueWrite(values);
+      return outputs.map(({ range }) =>
+        range.getOffsetRange(0, 0).load("values"),
+      );
+    });
+    await context.sync();
+    return reads.map((ranges) => ranges.map((r) => toNumber(r.values[0][0])));
+  };
+
+  return {
+    originals,
+    inputLabels: inputs.map((i) => i.label),
+    outputLabels: outputs.map((o) => o.label),
+    numberFormats: {
+      inputs: inputs.map(({ range }) => range.numberFormat[0][0]),
+      outputs: outputs.map(({ range }) => range.numberFormat[0][0]),
+    },
+    run: async (values) => (await runBatch([values]))[0],
+    runBatch,
+    restore: async () => {
+      queueWrite(originals);
+      await context.sync();
+    },
+  };
+}
+
+export interface GoalSeekResult {
+  success: boolean;
+  converged: boolean;
+  /** False when the inputs were put back to their original values */
+  kept: boolean;
+  evaluations: number;
+  inputs: { cell: string; original: number; value: number }[];
+  objective: { cell: string; value: number; target?: number };
+  constraints?: {
+    cell: string;
+    operator: "<=" | ">=" | "=";
+    limit: number;
+    value: number;
+    satisfied: boolean;
+  }[];
+  message: string;
+}
+
+export async function goalSeek(params: {
+  changingCells: (ModelCell & Bounds)[];
+  objective: ModelCell & { goal: "value" | "min" | "max"; value?: number };
+  constraints?: (ModelCell & Constraint)[];
+  tolerance?: number;
+  maxIterations?: number;
+}): Promise<GoalSeekResult> {
+  const { changingCells, objective, constraints = [] } = params;
+  const tolerance = params.tolerance ?? 1e-7;
+  if (changingCells.length === 0) {
+    throw new Error("At least one changing cell is required");
+  }
+  if (objective.goal === "value" && objective.value === undefined) {
+    throw new Error("A target value is required when goal is value");
+  }
+  const target = objective.value ?? 0;
+  const limit = tolerance * Math.max(1, Math.abs(target));
+
+  return Excel.run(async (context) => {
+    const runner = await createModelRunner(context, changingCells, [
+      objective,
+      ...constraints,
+    ]);
+
+    const violation = (outputs: number[]) =>
+      constraints.reduce(
+        (sum, c, i) => sum + constraintExcess(outputs[i + 1], c, tolerance),
+        0,
+      );
+    const score = (outputs: number[]): Score => ({
+      objective:
+        objective.goal === "value"
+          ? Math.abs(outputs[0] - target)
+          : objective.goal === "min"
+            ? outputs[0]
+            : -outputs[0],
+      violation: violation(outputs),
+    });
+
+    let best: number[];
+    let evaluations: number;
+    let converged: boolean;
+    let outputs: number[];
+    try {
+      if (
+        objective.goal === "value" &&
+        changingCells.length === 1 &&
+        !constraints.length
+      ) {
+        const root = await seekRoot(async (x) => (await runner.run([x]))[0], {
+          target,
+          initial: runner.originals[0],
+          min: changingCells[0].min,
+          max: changingCells[0].max,
+          tolerance,
+          maxIterations: params.maxIterations,
+        });
+        best = [root.input];
+        evaluations = root.iterations;
+        converged = root.converged;
+      } else {
+        const result = await minimize(
+          async (x) => score(await runner.run(x)),
+          runner.originals,
+          {
+            bounds: changingCells,
+            maxEvaluations: params.maxIterations ?? 200,
+          },
+        );
+        best = result.inputs;
+        evaluations = result.evaluations;
+        converged =
+          result.score.violation === 0 &&
+          (objective.goal !== "value" || result.score.objective <= limit);
+      }
+
+      // Leave the model on the solution, like Excel's Goal Seek; otherwise
+      // put the inputs back and only report the closest point found
+      outputs = await runner.run(best);
+    } catch (error) {
+      await runner.restore();
+      throw error;
+    }
+    if (!converged) await runner.restore();
+
+    const constraintResults = constraints.map((c, i) => {
+      const value = outputs[i + 1];
+      return {
+        cell: runner.outputLabels[i + 1],
+        operator: c.operator,
+        limit: c.value,
+        value,
+        satisfied: constraintExcess(value, c, tolerance) === 0,
+      };
+    });
+
+    return {
+      success: true,
+      converged,
+      kept: converged,
+      evaluations,
+      inputs: runner.inputLabels.map((cell, i) => ({
+        cell,
+        original: runner.originals[i],
+        value: best[i],
+      })),
+      objective: {
+        cell: runner.outputLabels[0],
+        value: outputs[0],
+        ...(objective.goal === "value" && { target }),
+      },
+      ...(constraintResults.length > 0 && { constraints: constraintResults }),
+      message: converged
+        ? `Solved in ${evaluations} evaluations; the changing cells now hold the solution.`
+        : `No solution within ${evaluations} evaluations; the changing cells were restored. ` +
+          "The values shown are the closest point found.",
+    };
+  });
+}
+
+const MAX_SCENARIOS = 1000;
+
+export interface SensitivityTableResult {
+  success: boolean;
+  range: string;
+  scenarios: number;
+  message: string;
+}
+
+export async function sensitivityTable(params: {
+  rowInput: ModelCell & { values: number[] };
+  colInput?: ModelCell & { values: number[] };
+  outputs: ModelCell[];
+  target: ModelCell;
+  colorScale?: boolean;
+  allowOverwrite?: boolean;
+}): Promise<SensitivityTableResult> {
+  const { rowInput, colInput, outputs, target } = params;
+  if (rowInput.values.length === 0 || colInput?.values.length === 0) {
+    throw new Error("Each input needs at least one test value");
+  }
+  if (outputs.length === 0) throw new Error("At least one output is required");
+  const combos = scenarios(rowInput.values, colInput?.values);
+  if (combos.length > MAX_SCENARIOS) {
+    throw new Error(
+      `${combos.length} scenarios exceed the limit of ${MAX_SCENARIOS}; use fewer test values`,
+    );
+  }
+
+  return Excel.run(async (context) => {
+    const inputs = colInput ? [rowInput, colInput] : [rowInput];
+    const runner = await createModelRunner(context, inputs, outputs);
+    const extent = sensitivityExtent(
+      rowInput.values.length,
+      colInput?.values.length,
+      outputs.length,
+    );
+
+    // Check the destination before running anything
+    const sheet = await getWorksheetById(context, target.sheetId);
+    if (!sheet)
+      throw new Error(`Worksheet with ID ${target.sheetId} not found`);
+    const anchor = await resolveRange(context, sheet, target.cell);
+    const grid = anchor
+      .getCell(0, 0)
+      .getResizedRange(extent.rows - 1, extent.cols - 1);
+    grid.load("address,formulas");
+    await context.sync();
+    await assertUnlocked(context, sheet, grid);
+    if (!params.allowOverwrite) {
+      const nonEmpty = grid.formulas.flat().filter((f) => f !== "").length;
+      if (nonEmpty > 0) {
+        throw new Error(
+          `Would overwrite ${nonEmpty} non-empty cell(s) in ${grid.address}. ` +
+            "Choose an empty target or retry with allowOverwrite set to true.",
+        );
+      }
+    }
+
+    // Batched like simulate: each chunk is written and read in one sync
+    const results: number[][] = [];
+    try {
+      for (let done = 0; done < combos.length; done += 50) {
+        results.push(...(await runner.runBatch(combos.slice(done, done + 50))));
+      }
+    } finally {
+      await runner.restore();
+    }
+
+    const layout = layoutSensitivity({
+      rowInput: { label: runner.inputLabels[0], values: rowInput.values },
+      colInput: colInput && {
+        label: runner.inputLabels[1],
+        values: colInput.values,
+      },
+      outputs: runner.outputLabels,
+      results,
+    });
+    const area = ({ row, col, rows, cols }: GridArea, format?: string) => {
+      const range = grid.getCell(row, col).getResizedRange(rows - 1, cols - 1);
+      if (format !== undefined) {
+        range.numberFormat = Array.from({ length: rows }, () =>
+          Array<string>(cols).fill(format),
+        );
+      }
+      return range;
+    };
+
+    grid.values = layout.values;
+    for (const a of layout.labels) {
+      const range = area(a);
+      range.format.font.bold = true;
+      range.format.fill.color = "#F2F2F2";
+    }
+    const [rowFormat, colFormat] = runner.numberFormats.inputs;
+    for (const a of layout.rowInputs)
+      area(a, rowFormat).format.font.bold = true;
+    for (const a of layout.colInputs)
+      area(a, colFormat).format.font.bold = true;
+    for (const [o, a] of layout.results.entries()) {
+      const range = area(a, runner.numberFormats.outputs[o]);
+      if (params.colorScale) {
+        const cf = range.conditionalFormats.add(
+          Excel.ConditionalFormatType.colorScale,
+        );
+        cf.colorScale.criteria = {
+          minimum: { type: "LowestValue", formula: null, color: "#F8696B" },
+          midpoint: { type: "Percentile", formula: "50", color: "#FFEB84" },
+          maximum: { type: "HighestValue", formula: null, color: "#63BE7B" },
+        };
+      }
+    }
+    grid.format.autofitColumns();
+    await context.sync();
+
+    const failed = results.flat().filter((v) => !Number.isFinite(v)).length;
+    return {
+      success: true,
+      range: grid.address,
+      scenarios: combos.length,
+      message:
+        `Ran ${combos.length} scenarios and restored the original inputs.` +
+        (failed > 0 ? ` ${failed} result(s) were not numbers (#N/A).` : ""),
+    };
+  });
+}
+
+const MAX_ITERATIONS = 10_000;
+
+/** Discrete values (and optional weights in the next column) read from a range */
+export type DistributionInput =
+  | Distribution
+  | { type: "discrete"; range: string; sheetId?: number };
+
+async function resolveDistribution(
+  context: Excel.RequestContext,
+  input: ModelCell & { distribution: DistributionInput },
+): Promise<Distribution> {
+  const dist = input.distribution;
+  if (dist.type !== "discrete" || !("range" in dist)) return dist;
+  const sheetId = dist.sheetId ?? input.sheetId;
+  const sheet = await getWorksheetById(context, sheetId);
+  if (!sheet) throw new Error(`Worksheet with ID ${sheetId} not found`);
+  const range = await resolveRange(context, sheet, dist.range);
+  range.load("values,columnCount");
+  await context.sync();
+  const rows = range.values.filter((row) => typeof row[0] === "number");
+  if (rows.length === 0) throw new Error(`No numbers found in ${dist.range}`);
+  return {
+    type: "discrete",
+    values: rows.map((row) => row[0] as number),
+    ...(range.columnCount > 1 && {
+      weights: rows.map((row) => (typeof row[1] === "number" ? row[1] : 0)),
+    }),
+  };
+}
+
+function describeDistribution(dist: Distribution): string {
+  switch (dist.type) {
+    case "normal": {
+      const bounds =
+        dist.min !== undefined || dist.max !== undefined
+          ? `, bounds ${dist.min ?? "-∞"} to ${dist.max ?? "∞"}`
+          : "";
+      return `Normal(mean ${dist.mean}, sd ${dist.stdDev}${bounds})`;
+    }
+    case "triangular":
+      return `Triangular(${dist.min}, ${dist.mode}, ${dist.max})`;
+    case "uniform":
+      return `Uniform(${dist.min}, ${dist.max})`;
+    case "discrete":
+      return `Discrete(${dist.values.length} values${dist.weights ? ", weighted" : ""})`;
+  }
+}
+
+export interface SimulationResult {
+  success: boolean;
+  iterations: number;
+  seed: number;
+  sheetId: number;
+  sheetName: string;
+  outputs: ({ cell: string } & Omit<OutputSummary, "histogram">)[];
+  message: string;
+}
+
+/**
+ * Monte Carlo run: sample every input, recalculate and record the outputs,
+ * batching iterations into one round trip each. The inputs are restored
+ * afterwards, also on errors and when the signal aborts the run.
+ */
+export async function simulate(params: {
+  inputs: (ModelCell & { distribution: DistributionInput })[];
+  outputs: ModelCell[];
+  iterations?: number;
+  batchSize?: number;
+  seed?: number;
+  bins?: number;
+  sheetName?: string;
+  signal?: AbortSignal;
+}): Promise<SimulationResult> {
+  const { inputs, outputs, signal } = params;
+  const iterations = params.iterations ?? 1000;
+  const batchSize = Math.max(1, params.batchSize ?? 50);
+  const seed = params.seed ?? Math.floor(Math.random() * 2 ** 31);
+  const bins = Math.max(1, params.bins ?? 20);
+  if (inputs.length === 0 || outputs.length === 0) {
+    throw new Error("At least one input and one output are required");
+  }
+  if (iterations < 1 || iterations > MAX_ITERATIONS) {
+    throw new Error(`iterations must be between 1 and ${MAX_ITERATIONS}`);
+  }
+
+  return Excel.run(async (context) => {
+    const distributions: Distribution[] = [];
+    for (const input of inputs) {
+      const dist = await resolveDistribution(context, input);
+      validateDistribution(dist);
+      distributions.push(dist);
+    }
+    const runner = await createModelRunner(context, inputs, outputs);
+    const random = createRandom(seed);
+
+    const inputSamples: number[][] = inputs.map(() => []);
+    const outputSamples: number[][] = outputs.map(() => []);
+    try {
+      for (let done = 0; done < iterations; done += batchSize) {
+        if (signal?.aborted) {
+          throw new Error(
+            "Simulation aborted; the original inputs were restored",
+          );
+        }
+        const batch = Array.from(
+          { length: Math.min(batchSize, iterations - done) },
+          () => distributions.map((dist) => sample(dist, random)),
+        );
+        const results = await runner.runBatch(batch);
+        for (const [i, values] of batch.entries()) {
+          for (const [k, v] of values.entries()) inputSamples[k].push(v);
+          for (const [k, v] of results[i].entries()) outputSamples[k].push(v);
+        }
+      }
+    } finally {
+      await runner.restore();
+    }
+
+    const summaries = outputSamples.map((s) => summarize(s, bins));
+    const percentileKeys = Object.keys(summaries[0].percentiles);
+
+    // Results sheet, named after the first free "Simulation", "Simulation (2)"...
+    const base = params.sheetName ?? "Simulation";
+    const worksheets = context.workbook.worksheets;
+    worksheets.load("items/name");
+    await context.sync();
+    const taken = new Set(worksheets.items.map((s) => s.name.toLowerCase()));
+    let name = base;
+    for (let n = 2; taken.has(name.toLowerCase()); n++) name = `${base} (${n})`;
+    const sheet = worksheets.add(name);
+    sheet.load("id,name");
+
+    const statRows: [string, (s: OutputSummary) => number][] = [
+      ["Mean", (s) => s.mean],
+      ["Std dev", (s) => s.stdDev],
+      ["Min", (s) => s.min],
+      ...percentileKeys.map((key): [string, (s: OutputSummary) => number] => [
+        key === "p50" ? "Median" : key.toUpperCase(),
+        (s) => s.percentiles[key],
+      ]),
+      ["Max", (s) => s.max],
+      ["Errors", (s) => s.errors],
+    ];
+    const cell = (value: number) => (Number.isFinite(value) ? value : "#N/A");
+
+    sheet.getRange("A1").values = [["Monte Carlo simulation"]];
+    sheet.getRange("A1").format.font.bold = true;
+    sheet.getRange("A2").values = [[`${iterations} iterations, seed ${seed}`]];
+
+    const summary = [
+      ["Statistic", ...runner.outputLabels],
+      ...statRows.map(([label, get]) => [
+        label,
+        ...summaries.map((s) => cell(get(s))),
+      ]),
+    ];
+    const summaryRange = sheet
+      .getRange("A4")
+      .getResizedRange(summary.length - 1, outputs.length);
+    summaryRange.values = summary;
+    summaryRange.getRow(0).format.font.bold = true;
+    summaryRange.getRow(0).format.fill.color = "#F2F2F2";
+    runner.numberFormats.outputs.forEach((format, k) => {
+      summaryRange
+        .getCell(1, k + 1)
+        .getResizedRange(statRows.length - 2, 0).numberFormat = Array.from(
+        { length: statRows.length - 1 },
+        () => [format],
+      );
+    });
+
+    const inputTop = 4 + summary.length + 1;
+    const inputTable = [
+      ["Input", "Distribution", "Sampled mean"],
+      ...inputs.map((_, k) => [
+        runner.inputLabels[k],
+        describeDistribution(distributions[k]),
+        summarize(inputSamples[k], 1).mean,
+      ]),
+    ];
+    const inputRange = sheet
+      .getRange(cellAddress(inputTop - 1, 0))
+      .getResizedRange(inputTable.length - 1, 2);
+    inputRange.values = inputTable;
+    inputRange.getRow(0).format.font.bold = true;
+    inputRange.getRow(0).format.fill.color = "#F2F2F2";
+
+    // One histogram table per output, each with a column chart beside it
+    const histCol = Math.max(outputs.length + 1, 3) + 1;
+    const histograms: { source: string; anchor: string; title: string }[] = [];
+    let top = 3;
+    summaries.forEach((s, k) => {
+      const table = [
+        [runner.outputLabels[k], "Frequency"],
+        ...s.histogram.map((bin) => [binLabel(bin), bin.count]),
+      ];
+      const range = sheet
+        .getRange(cellAddress(top, histCol))
+        .getResizedRange(table.length - 1, 1);
+      range.values = table;
+      range.getRow(0).format.font.bold = true;
+      range.getRow(0).format.fill.color = "#F2F2F2";
+      histograms.push({
+        source: `${cellAddress(top, histCol)}:${cellAddress(top + table.length - 1, histCol + 1)}`,
+        anchor: cellAddress(top, histCol + 3),
+        title: `Distribution of ${runner.outputLabels[k]}`,
+      });
+      top += Math.max(table.length, 16) + 2;
+    });
+    sheet.getRange("A:C").format.autofitColumns();
+    sheet
+      .getRange(`${cellAddress(0, histCol)}:${cellAddress(0, histCol + 1)}`)
+      .getEntireColumn()
+      .format.autofitColumns();
+    await context.sync();
+
+    for (const h of histograms) {
+      await modifyChart(context, sheet, "create", undefined, {
+        source: h.source,
+        chartType: "columnClustered",
+        seriesBy: "columns",
+        anchor: h.anchor,
+        title: h.title,
+        legend: "none",
+      });
+    }
+    sheet.activate();
+    await context.sync();
+
+    return {
+      success: true,
+      iterations,
+      seed,
+      sheetId: await getWorksheetStableId(context, sheet),
+      sheetName: sheet.name,
+      outputs: summaries.map(({ histogram: _, ...s }, k) => ({
+        cell: runner.outputLabels[k],
+        ...s,
+      })),
+      message: `Ran ${iterations} iterations and restored the original inputs.`,
+    };
+  });
+}
+
+// ============================================================================
+// Dependency tracing
+// ============================================================================
+
+export interface TraceDependenciesResult extends TraceResult {
+  success: boolean;
+  sheetIds: Record<string, number>;
+  skippedSheets?: string[];
+}
+
+export async function traceDependencies(
+  sheetId: number,
+  cell: string,
+  options: {
+    direction?: "precedents" | "dependents" | "both";
+    depth?: number;
+  } = {},
+): Promise<TraceDependenciesResult> {
+  return Excel.run(async (context) => {
+    const sheet = await getWorksheetById(context, sheetId);
+    if (!sheet) throw new Error(`Worksheet with ID ${sheetId} not found`);
+
+    const target = await resolveRange(context, sheet, cell);
+    target.load("address,rowCount,columnCount");
+    sheet.load("name");
+    await context.sync();
+    if (target.rowCount !== 1 || target.columnCount !== 1) {
+      throw new Error(`${cell} is not a single cell`);
+    }
+
+    const { snapshot, sheetIds, skippedSheets } =
+      await loadWorkbookSnapshot(context);
+    const trace = buildDependencyTrace(
+      snapshot,
+      sheet.name,
+      target.address.split("!")[1],
+      { direction: options.direction, depth: options.depth },
+    );
+
+    return {
+      success: true,
+      ...trace,
+      sheetIds,
+      ...(skippedSheets.length > 0 && { skippedSheets }),
+    };
+  });
+}
+
+// ============================================================================
+// Model audit
+// ============================================================================
+
+export interface AuditWorkbookResult {
+  success: boolean;
+  sheets: (SheetAudit & { sheetId: number })[];
+  totals: Partial<Record<AuditCheck, number>>;
+  skippedSheets?: string[];
+}
+
+export async function auditWorkbook(
+  options: { sheetId?: number; checks?: AuditCheck[] } = {},
+): Promise<AuditWorkbookResult> {
+  return Excel.run(async (context) => {
+    let sheetName: string | undefined;
+    if (options.sheetId !== undefined) {
+      const sheet = await getWorksheetById(context, options.sheetId);
+      if (!sheet) {
+        throw new Error(`Worksheet with ID ${options.sheetId} not found`);
+      }
+      sheet.load("name");
+      await context.sync();
+      sheetName = sheet.name;
+    }
+
+    const { snapshot, sheetIds, skippedSheets } = await loadWorkbookSnapshot(
+      context,
+      { formulasR1C1: true },
+    );
+    const audit = auditWorkbookSnapshot(snapshot, {
+      sheets: sheetName ? [sheetName] : undefined,
+      checks: options.checks,
+    });
+
+    return {
+      success: true,
+      sheets: audit.sheets.map((s) => ({ ...s, sheetId: sheetIds[s.sheet] })),
+      totals: audit.totals,
+      ...(skippedSheets.length > 0 && { skippedSheets }),
+    };
+  });
+}
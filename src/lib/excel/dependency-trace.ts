@@ -0,0 +1,535 @@
+import {
+  type CellRect,
+  cellToA1,
+  extractReferences,
+  type FormulaReference,
+  parseArea,
+  rectToA1,
+} from "./formula-refs";
+
+export interface SheetGrid {
+  name: string;
+  /** Position of the used range; formulas/values are relative to it */
+  startRow: number;
+  startCol: number;
+  formulas: unknown[][];
+  values: unknown[][];
+  /** Only loaded for checks that compare formulas between cells */
+  formulasR1C1?: unknown[][];
+  /** Cells weren't loaded, so the empty grids say nothing about the sheet */
+  skipped?: boolean;
+}
+
+export interface NameDefinition {
+  name: string;
+  /** Sheet name for sheet-scoped names */
+  scope?: string;
+  formula: string;
+}
+
+export interface TableDefinition {
+  name: string;
+  sheet: string;
+  columns: string[];
+  startCol: number;
+  headerRow?: number;
+  dataStartRow: number;
+  dataEndRow: number;
+  totalsRow?: number;
+}
+
+export interface WorkbookSnapshot {
+  sheets: SheetGrid[];
+  names: NameDefinition[];
+  tables: TableDefinition[];
+}
+
+export interface TraceNode {
+  /** `Sheet!A1` or `Sheet!A1:B10` */
+  address: string;
+  formula?: string;
+  value?: unknown;
+  /** Defined name or structured reference the link goes through */
+  via?: string;
+  children?: TraceNode[];
+  /** Non-empty constant cells inside a range precedent */
+  constants?: number;
+  /** Children left out because of the per-range or node limit */
+  omitted?: number;
+  /** This cell is already one of its own ancestors */
+  circular?: boolean;
+  /** Already expanded elsewhere in the tree */
+  repeated?: boolean;
+  unresolved?: string;
+}
+
+export interface TraceResult {
+  cell: string;
+  precedents?: TraceNode;
+  dependents?: TraceNode;
+  circularReferences: string[][];
+  truncated: boolean;
+}
+
+export interface ResolvedReference {
+  sheet: string;
+  rect: CellRect;
+  via?: string;
+}
+
+const MAX_CELLS_PER_RANGE = 25;
+
+export interface FormulaCell {
+  sheet: string;
+  row: number;
+  col: number;
+  formula: string;
+}
+
+export function formatAddress(sheet: string, a1: string): string {
+  const quoted = /^[\p{L}_][\p{L}\p{N}_.]*$/u.test(sheet)
+    ? sheet
+    : `'${sheet.replace(/'/g, "''")}'`;
+  return `${quoted}!${a1}`;
+}
+
+function contains(rect: CellRect, row: number, col: number): boolean {
+  return (
+    row >= rect.startRow &&
+    row <= rect.endRow &&
+    col >= rect.startCol &&
+    col <= rect.endCol
+  );
+}
+
+export interface WorkbookIndex {
+  readonly snapshot: WorkbookSnapshot;
+  sheet(name: string): SheetGrid | undefined;
+  cell(
+    sheet: string,
+    row: number,
+    col: number,
+  ): { formula?: string; value?: unknown };
+  /** Clip a rectangle to the sheet's used range. */
+  clip(sheet: string, rect: CellRect): CellRect | null;
+  formulaCells(): Generator<FormulaCell>;
+  /**
+   * Resolve the references of a formula in a given cell to rectangles.
+   * Names are followed (including names that refer to other names);
+   * anything that can't be located is returned as a string.
+   */
+  resolve(
+    formula: string,
+    sheet: string,
+    row: number,
+    col: number,
+  ): (ResolvedReference | string)[];
+}
+
+export function createWorkbookIndex(snapshot: WorkbookSnapshot): WorkbookIndex {
+  const sheets = new Map<string, SheetGrid>();
+  for (const grid of snapshot.sheets) sheets.set(grid.name.toLowerCase(), grid);
+  const sheetByName = (name: string) => sheets.get(name.toLowerCase());
+
+  const tableAt = (sheet: string, row: number, col: number) =>
+    snapshot.tables.find(
+      (t) =>
+        t.sheet.toLowerCase() === sheet.toLowerCase() &&
+        col >= t.startCol &&
+        col < t.startCol + t.columns.length &&
+        row >= (t.headerRow ?? t.dataStartRow) &&
+        row <= (t.totalsRow ?? t.dataEndRow),
+    );
+
+  const resolveTable = (
+    ref: Extract<FormulaReference, { kind: "table" }>,
+    sheet: string,
+    row: number,
+    col: number,
+  ): ResolvedReference | string => {
+    const table = ref.table
+      ? snapshot.tables.find(
+          (t) => t.name.toLowerCase() === ref.table.toLowerCase(),
+        )
+      : tableAt(sheet, row, col);
+    if (!table) return `table not found for ${ref.text}`;
+
+    let startCol = table.startCol;
+    let endCol = table.startCol + table.columns.length - 1;
+    if (ref.ref.columns) {
+      const [first, last] = ref.ref.columns.map((name) =>
+        table.columns.findIndex((c) => c.toLowerCase() === name.toLowerCase()),
+      );
+      if (first < 0 || last < 0) return `column not found for ${ref.text}`;
+      startCol = table.startCol + Math.min(first, last);
+      endCol = table.startCol + Math.max(first, last);
+    }
+
+    let startRow = table.dataStartRow;
+    let endRow = table.dataEndRow;
+    if (ref.thisRow) {
+      startRow = endRow = row;
+    } else if (ref.ref.section === "all") {
+      startRow = table.headerRow ?? table.dataStartRow;
+      endRow = table.totalsRow ?? table.dataEndRow;
+    } else if (ref.ref.section === "headers") {
+      if (table.headerRow === undefined) return `${ref.text}: no header row`;
+      startRow = endRow = table.headerRow;
+    } else if (ref.ref.section === "totals") {
+      if (table.totalsRow === undefined) return `${ref.text}: no totals row`;
+      startRow = endRow = table.totalsRow;
+    }
+
+    return {
+      sheet: table.sheet,
+      rect: { startRow, startCol, endRow, endCol },
+      via: ref.table ? ref.text : `${table.name}${ref.text}`,
+    };
+  };
+
+  const resolve = (
+    formula: string,
+    sheet: string,
+    row: number,
+    col: number,
+    via?: string,
+    seenNames: Set<string> = new Set(),
+  ): (ResolvedReference | string)[] => {
+    const resolved: (ResolvedReference | string)[] = [];
+    for (const ref of extractReferences(formula)) {
+      switch (ref.kind) {
+        case "range": {
+          const rect = parseArea(ref.address);
+          const target = sheetByName(ref.sheet ?? sheet);
+          if (!rect) continue;
+          if (!target) {
+            resolved.push(`sheet not found: ${ref.sheet ?? sheet}`);
+            continue;
+          }
+          resolved.push({ sheet: target.name, rect, via });
+          break;
+        }
+        case "name": {
+          const key = ref.name.toLowerCase();
+          const def =
+            snapshot.names.find(
+              (n) =>
+                n.name.toLowerCase() === key &&
+                n.scope?.toLowerCase() === sheet.toLowerCase(),
+            ) ??
+            snapshot.names.find(
+              (n) => n.name.toLowerCase() === key && !n.scope,
+            );
+          // Unknown identifiers are usually LET/LAMBDA parameters
+          if (!def || seenNames.has(key)) continue;
+          resolved.push(
+            ...resolve(
+              def.formula,
+              def.scope ?? sheet,
+              row,
+              col,
+              via ?? def.name,
+              new Set([...seenNames, key]),
+            ),
+          );
+          break;
+        }
+        case "table":
+          resolved.push(resolveTable(ref, sheet, row, col));
+          break;
+        case "external":
+          resolved.push(`external or 3D reference: ${ref.text}`);
+          break;
+      }
+    }
+    return resolved;
+  };
+
+  return {
+    snapshot,
+    sheet: sheetByName,
+    cell(sheet, row, col) {
+      const grid = sheetByName(sheet);
+      if (!grid) return {};
+      const r = row - grid.startRow;
+      const c = col - grid.startCol;
+      const formula = grid.formulas[r]?.[c];
+      return {
+        formula:
+          typeof formula === "string" && formula.startsWith("=")
+            ? formula
+            : undefined,
+        value: grid.values[r]?.[c],
+      };
+    },
+    clip(sheet, rect) {
+      const grid = sheetByName(sheet);
+      if (!grid || grid.formulas.length === 0) return null;
+      const clipped = {
+        startRow: Math.max(rect.startRow, grid.startRow),
+        startCol: Math.max(rect.startCol, grid.startCol),
+        endRow: Math.min(rect.endRow, grid.startRow + grid.formulas.length - 1),
+        endCol: Math.min(
+          rect.endCol,
+          grid.startCol + (grid.formulas[0]?.length ?? 0) - 1,
+        ),
+      };
+      return clipped.startRow <= clipped.endRow &&
+        clipped.startCol <= clipped.endCol
+        ? clipped
+        : null;
+    },
+    *formulaCells() {
+      for (const grid of snapshot.sheets) {
+        for (let r = 0; r < grid.formulas.length; r++) {
+          const row = grid.formulas[r];
+          for (let c = 0; c < row.length; c++) {
+            const formula = row[c];
+            if (typeof formula === "string" && formula.startsWith("=")) {
+              yield {
+                sheet: grid.name,
+                row: grid.startRow + r,
+                col: grid.startCol + c,
+                formula,
+              };
+            }
+          }
+        }
+      }
+    },
+    resolve: (formula, sheet, row, col) => resolve(formula, sheet, row, col),
+  };
+}
+
+/**
+ * Build precedent and/or dependent trees for one cell. Range precedents
+ * (e.g. SUM(B2:B100)) become a single node whose children are the formula
+ * cells inside it; constant cells are only counted.
+ */
+export function buildDependencyTrace(
+  snapshot: WorkbookSnapshot,
+  sheet: string,
+  address: string,
+  options: {
+    direction?: "precedents" | "dependents" | "both";
+    depth?: number;
+    maxNodes?: number;
+  } = {},
+): TraceResult {
+  const { direction = "both", depth = 3, maxNodes = 300 } = options;
+  const index = createWorkbookIndex(snapshot);
+  const grid = index.sheet(sheet);
+  if (!grid) throw new Error(`Sheet ${sheet} not found`);
+  const rect = parseArea(address);
+  if (!rect || rect.startRow !== rect.endRow || rect.startCol !== rect.endCol) {
+    throw new Error(`${address} is not a single cell`);
+  }
+
+  const circular = new Map<string, string[]>();
+  let nodes = 0;
+  let truncated = false;
+
+  const cellNode = (sheetName: string, row: number, col: number): TraceNode => {
+    const { formula, value } = index.cell(sheetName, row, col);
+    nodes++;
+    return {
+      address: formatAddress(sheetName, cellToA1(row, col)),
+      ...(formula && { formula }),
+      ...(value !== undefined && value !== "" && { value }),
+    };
+  };
+
+  const markCircular = (path: string[], key: string) => {
+    const cycle = [...path.slice(path.indexOf(key)), key];
+    const id = [...cycle].sort().join("|");
+    if (!circular.has(id)) circular.set(id, cycle);
+  };
+
+  const budgetLeft = () => {
+    if (nodes < maxNodes) return true;
+    truncated = true;
+    return false;
+  };
+
+  // --- precedents -----------------------------------------------------------
+  const expanded = new Set<string>();
+
+  const precedents = (
+    sheetName: string,
+    row: number,
+    col: number,
+    levels: number,
+    path: string[],
+  ): TraceNode => {
+    const node = cellNode(sheetName, row, col);
+    const key = node.address;
+    if (path.includes(key)) {
+      node.circular = true;
+      markCircular(path, key);
+      return node;
+    }
+    if (!node.formula || levels === 0) return node;
+    if (expanded.has(key)) {
+      node.repeated = true;
+      return node;
+    }
+    expanded.add(key);
+
+    const children: TraceNode[] = [];
+    const nextPath = [...path, key];
+    for (const ref of index.resolve(node.formula, sheetName, row, col)) {
+      if (!budgetLeft()) break;
+      if (typeof ref === "string") {
+        children.push({ address: ref, unresolved: ref });
+        continue;
+      }
+      const r = ref.rect;
+      if (r.startRow === r.endRow && r.startCol === r.endCol) {
+        const child = precedents(
+          ref.sheet,
+          r.startRow,
+          r.startCol,
+          levels - 1,
+          nextPath,
+        );
+        if (ref.via) child.via = ref.via;
+        children.push(child);
+        continue;
+      }
+
+      const rangeNode: TraceNode = {
+        address: formatAddress(ref.sheet, rectToA1(r)),
+        ...(ref.via && { via: ref.via }),
+      };
+      nodes++;
+      const clipped = index.clip(ref.sheet, r);
+      const rangeChildren: TraceNode[] = [];
+      let constants = 0;
+      let omitted = 0;
+      if (clipped) {
+        for (let rr = clipped.startRow; rr <= clipped.endRow; rr++) {
+          for (let cc = clipped.startCol; cc <= clipped.endCol; cc++) {
+            const cell = index.cell(ref.sheet, rr, cc);
+            if (cell.formula) {
+              if (rangeChildren.length < MAX_CELLS_PER_RANGE && budgetLeft()) {
+                rangeChildren.push(
+                  precedents(ref.sheet, rr, cc, levels - 1, nextPath),
+                );
+              } else {
+                omitted++;
+              }
+            } else if (
+              cell.value !== "" &&
+              cell.value !== undefined &&
+              cell.value !== null
+            ) {
+              constants++;
+            }
+          }
+        }
+      }
+      if (rangeChildren.length > 0) rangeNode.children = rangeChildren;
+      if (constants > 0) rangeNode.constants = constants;
+      if (omitted > 0) rangeNode.omitted = omitted;
+      children.push(rangeNode);
+    }
+    if (children.length > 0) node.children = children;
+    return node;
+  };
+
+  // --- dependents -----------------------------------------------------------
+  let reverse: { from: FormulaCell; ref: ResolvedReference }[] | null = null;
+  const dependentsOf = (sheetName: string, row: number, col: number) => {
+    if (!reverse) {
+      reverse = [];
+      for (const cell of index.formulaCells()) {
+        for (const ref of index.resolve(
+          cell.formula,
+          cell.sheet,
+          cell.row,
+          cell.col,
+        )) {
+          if (typeof ref !== "string") reverse.push({ from: cell, ref });
+        }
+      }
+    }
+    const found = new Map<string, { from: FormulaCell; via?: string }>();
+    for (const { from, ref } of reverse) {
+      if (
+        ref.sheet.toLowerCase() === sheetName.toLowerCase() &&
+        contains(ref.rect, row, col)
+      ) {
+        const key = `${from.sheet}!${from.row},${from.col}`;
+        if (!found.has(key)) found.set(key, { from, via: ref.via });
+      }
+    }
+    return Array.from(found.values());
+  };
+
+  const dependentsExpanded = new Set<string>();
+  const dependents = (
+    sheetName: string,
+    row: number,
+    col: number,
+    levels: number,
+    path: string[],
+  ): TraceNode => {
+    const node = cellNode(sheetName, row, col);
+    const key = node.address;
+    if (path.includes(key)) {
+      node.circular = true;
+      markCircular(path, key);
+      return node;
+    }
+    if (levels === 0) return node;
+    if (dependentsExpanded.has(key)) {
+      node.repeated = true;
+      return node;
+    }
+    dependentsExpanded.add(key);
+
+    const children: TraceNode[] = [];
+    const users = dependentsOf(sheetName, row, col);
+    for (const [i, { from, via }] of users.entries()) {
+      if (!budgetLeft()) {
+        node.omitted = users.length - i;
+        break;
+      }
+      const child = dependents(from.sheet, from.row, from.col, levels - 1, [
+        ...path,
+        key,
+      ]);
+      if (via) child.via = via;
+      children.push(child);
+    }
+    if (children.length > 0) node.children = children;
+    return node;
+  };
+
+  const result: TraceResult = {
+    cell: formatAddress(grid.name, cellToA1(rect.startRow, rect.startCol)),
+    circularReferences: [],
+    truncated: false,
+  };
+  if (direction !== "dependents") {
+    result.precedents = precedents(
+      grid.name,
+      rect.startRow,
+      rect.startCol,
+      depth,
+      [],
+    );
+  }
+  if (direction !== "precedents") {
+    result.dependents = dependents(
+      grid.name,
+      rect.startRow,
+      rect.startCol,
+      depth,
+      [],
+    );
+  }
+  result.circularReferences = Array.from(circular.values());
+  result.truncated = truncated;
+  return result;
+}
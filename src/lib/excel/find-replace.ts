@@ -0,0 +1,43 @@
+export interface MatchOptions {
+  matchCase?: boolean;
+  matchEntireCell?: boolean;
+  useRegex?: boolean;
+}
+
+export interface CellMatcher {
+  test(text: string): boolean;
+  /** Replace every match; `$1`-style groups only expand in regex mode */
+  replace(text: string, replacement: string): string;
+}
+
+function escapeRegex(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Shared matching rules for search_data and find_replace. Entire-cell
+ * matching anchors regexes too, so `\d+` only matches all-digit cells.
+ */
+export function createCellMatcher(
+  searchTerm: string,
+  options: MatchOptions = {},
+): CellMatcher {
+  const {
+    matchCase = false,
+    matchEntireCell = false,
+    useRegex = false,
+  } = options;
+  const source = useRegex ? searchTerm : escapeRegex(searchTerm);
+  const anchored = matchEntireCell ? `^(?:${source})$` : source;
+  const flags = matchCase ? "" : "i";
+  const pattern = new RegExp(anchored, flags);
+  const global = new RegExp(anchored, `${flags}g`);
+
+  return {
+    test: (text) => pattern.test(text),
+    replace: (text, replacement) =>
+      useRegex
+        ? text.replace(global, replacement)
+        : text.replace(global, () => replacement),
+  };
+}
@@ -0,0 +1,190 @@
+import { extractReferences } from "./formula-refs";
+
+/**
+ * - input: a number or boolean typed in as a constant
+ * - formula: a calculation within the sheet
+ * - crossSheet: a formula reading another sheet of the workbook
+ * - external: a formula reading another workbook
+ */
+export type CellRole = "input" | "formula" | "crossSheet" | "external";
+
+export const CELL_ROLES: CellRole[] = [
+  "input",
+  "formula",
+  "crossSheet",
+  "external",
+];
+
+export type NumberFormatKind = "currency" | "percent" | "multiple" | "number";
+
+export const NUMBER_FORMAT_KINDS: NumberFormatKind[] = [
+  "currency",
+  "percent",
+  "multiple",
+  "number",
+];
+
+export interface RoleStyle {
+  fontColor?: string;
+  fillColor?: string;
+  bold?: boolean;
+  italic?: boolean;
+}
+
+export interface FormatConvention {
+  roles: Partial<Record<CellRole, RoleStyle>>;
+  numberFormats: Partial<Record<NumberFormatKind, string>>;
+}
+
+/** Blue inputs, black formulas, green links to other sheets, red to other files */
+export const DEFAULT_CONVENTION: FormatConvention = {
+  roles: {
+    input: { fontColor: "#0000FF" },
+    formula: { fontColor: "#000000" },
+    crossSheet: { fontColor: "#008000" },
+    external: { fontColor: "#FF0000" },
+  },
+  numberFormats: {
+    currency: '$#,##0_);($#,##0);"-"_)',
+    percent: '0.0%_);(0.0%);"-"_)',
+    multiple: '0.0"x"',
+    number: '#,##0_);(#,##0);"-"_)',
+  },
+};
+
+/** Patch a convention role by role; a null role style removes it */
+export function mergeConvention(
+  base: FormatConvention,
+  patch: {
+    roles?: Partial<Record<CellRole, RoleStyle | null>>;
+    numberFormats?: Partial<Record<NumberFormatKind, string | null>>;
+  },
+): FormatConvention {
+  const roles = { ...base.roles };
+  for (const [role, style] of Object.entries(patch.roles ?? {})) {
+    if (style === null) delete roles[role as CellRole];
+    else roles[role as CellRole] = { ...roles[role as CellRole], ...style };
+  }
+  const numberFormats = { ...base.numberFormats };
+  for (const [kind, format] of Object.entries(patch.numberFormats ?? {})) {
+    if (format === null) delete numberFormats[kind as NumberFormatKind];
+    else numberFormats[kind as NumberFormatKind] = format;
+  }
+  return { roles, numberFormats };
+}
+
+function isFormula(formula: unknown): formula is string {
+  return typeof formula === "string" && formula.startsWith("=");
+}
+
+/**
+ * Role of a cell from its formula (or constant). Text constants and empty
+ * cells are labels, not inputs, and get null. 3D references (`Jan:Dec!A1`)
+ * stay within the workbook, so only bracketed references count as external.
+ */
+export function classifyCell(
+  formula: unknown,
+  sheetName: string,
+): CellRole | null {
+  if (!isFormula(formula)) {
+    if (typeof formula === "number" || typeof formula === "boolean") {
+      return "input";
+    }
+    return null;
+  }
+  let role: CellRole = "formula";
+  const own = sheetName.toLowerCase();
+  for (const ref of extractReferences(formula)) {
+    if (ref.kind === "external") {
+      if (ref.text.includes("[")) return "external";
+      role = "crossSheet";
+    } else if (ref.kind === "range" && ref.sheet) {
+      if (ref.sheet.toLowerCase() !== own) role = "crossSheet";
+    }
+  }
+  return role;
+}
+
+/** Which convention format an existing number format is a variant of */
+export function detectNumberFormatKind(
+  numberFormat: string,
+): NumberFormatKind | null {
+  // Ignore quoted literals and escapes except an "x" suffix
+  const bare = numberFormat.replace(/\\./g, "").replace(/_./g, "");
+  if (/"\s*x\s*"|\\x/i.test(numberFormat) && /[0#]/.test(bare)) {
+    return "multiple";
+  }
+  const unquoted = bare.replace(/"[^"]*"/g, "");
+  if (unquoted.includes("%")) return "percent";
+  if (/[$€£¥]|\[\$/.test(numberFormat)) return "currency";
+  if (/[0#]/.test(unquoted)) return "number";
+  return null;
+}
+
+export interface CellFormatting {
+  row: number;
+  col: number;
+  role: CellRole;
+  style?: RoleStyle;
+  numberFormat?: string;
+}
+
+export interface FormattingPlan {
+  counts: Record<CellRole, number>;
+  cells: CellFormatting[];
+}
+
+/**
+ * Decide the style of every cell in a grid. `numberFormat` forces one kind on
+ * all numeric cells; `normalizeNumberFormats` swaps each recognised existing
+ * format for the convention's version of that kind.
+ */
+export function planFormatting(
+  grid: {
+    formulas: unknown[][];
+    values: unknown[][];
+    numberFormats: unknown[][];
+  },
+  sheetName: string,
+  convention: FormatConvention,
+  options: {
+    roles?: CellRole[];
+    numberFormat?: NumberFormatKind;
+    normalizeNumberFormats?: boolean;
+  } = {},
+): FormattingPlan {
+  const roles = new Set(options.roles ?? CELL_ROLES);
+  const counts = { input: 0, formula: 0, crossSheet: 0, external: 0 };
+  const cells: CellFormatting[] = [];
+
+  grid.formulas.forEach((row, r) => {
+    row.forEach((formula, c) => {
+      const role = classifyCell(formula, sheetName);
+      if (!role || !roles.has(role)) return;
+      counts[role]++;
+
+      let numberFormat: string | undefined;
+      if (typeof grid.values[r]?.[c] === "number") {
+        const current = String(grid.numberFormats[r]?.[c] ?? "General");
+        const kind =
+          options.numberFormat ??
+          (options.normalizeNumberFormats
+            ? detectNumberFormatKind(current)
+            : null);
+        const wanted = kind ? convention.numberFormats[kind] : undefined;
+        if (wanted && wanted !== current) numberFormat = wanted;
+      }
+      const style = convention.roles[role];
+      if (style || numberFormat) {
+        cells.push({
+          row: r,
+          col: c,
+          role,
+          ...(style && { style }),
+          ...(numberFormat && { numberFormat }),
+        });
+      }
+    });
+  });
+  return { counts, cells };
+}
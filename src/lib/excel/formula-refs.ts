@@ -0,0 +1,443 @@
+import {
+  parseStructuredReference,
+  type StructuredReference,
+} from "./table-refs";
+
+export type FormulaReference =
+  | { kind: "range"; sheet?: string; address: string }
+  | { kind: "name"; name: string }
+  | {
+      kind: "table";
+      /** Undefined for `[@Col]`-style references to the formula's own table */
+      table?: string;
+      ref: StructuredReference;
+      thisRow: boolean;
+      text: string;
+    }
+  | { kind: "external"; text: string };
+
+export interface CellRect {
+  startRow: number;
+  startCol: number;
+  endRow: number;
+  endCol: number;
+}
+
+export const MAX_ROWS = 1048576;
+export const MAX_COLUMNS = 16384;
+
+const CELL = /^\$?([A-Z]{1,3})\$?(\d+)$/i;
+const COLUMN = /^\$?([A-Z]{1,3})$/i;
+const ROW = /^\$?(\d+)$/;
+const WORD_CHAR = /[\p{L}\p{N}_.$\\?]/u;
+const RESERVED = new Set(["TRUE", "FALSE"]);
+
+export function columnLetterToIndex(letters: string): number {
+  let index = 0;
+  for (const c of letters.toUpperCase()) {
+    index = index * 26 + c.charCodeAt(0) - 64;
+  }
+  return index - 1;
+}
+
+export function columnIndexToLetters(index: number): string {
+  let letters = "";
+  let n = index + 1;
+  while (n > 0) {
+    const rem = (n - 1) % 26;
+    letters = String.fromCharCode(65 + rem) + letters;
+    n = Math.floor((n - 1) / 26);
+  }
+  return letters;
+}
+
+export function cellToA1(row: number, col: number): string {
+  return `${columnIndexToLetters(col)}${row + 1}`;
+}
+
+export function rectToA1(rect: CellRect): string {
+  const wholeColumns = rect.startRow === 0 && rect.endRow === MAX_ROWS - 1;
+  const wholeRows = rect.startCol === 0 && rect.endCol === MAX_COLUMNS - 1;
+  if (wholeColumns && !wholeRows) {
+    return `${columnIndexToLetters(rect.startCol)}:${columnIndexToLetters(rect.endCol)}`;
+  }
+  if (wholeRows && !wholeColumns) {
+    return `${rect.startRow + 1}:${rect.endRow + 1}`;
+  }
+  const start = cellToA1(rect.startRow, rect.startCol);
+  const end = cellToA1(rect.endRow, rect.endCol);
+  return start === end ? start : `${start}:${end}`;
+}
+
+/** Parse `A1`, `A1:B5`, `A:C` or `2:4` (with or without `$`). */
+export function parseArea(address: string): CellRect | null {
+  const [first, second = first] = address.split(":");
+  const a = first.match(CELL);
+  const b = second.match(CELL);
+  if (a && b) {
+    const rows = [Number(a[2]) - 1, Number(b[2]) - 1];
+    const cols = [columnLetterToIndex(a[1]), columnLetterToIndex(b[1])];
+    return {
+      startRow: Math.min(...rows),
+      startCol: Math.min(...cols),
+      endRow: Math.max(...rows),
+      endCol: Math.max(...cols),
+    };
+  }
+  if (!address.includes(":")) return null;
+  const colA = first.match(COLUMN);
+  const colB = second.match(COLUMN);
+  if (colA && colB) {
+    const cols = [columnLetterToIndex(colA[1]), columnLetterToIndex(colB[1])];
+    return {
+      startRow: 0,
+      startCol: Math.min(...cols),
+      endRow: MAX_ROWS - 1,
+      endCol: Math.max(...cols),
+    };
+  }
+  const rowA = first.match(ROW);
+  const rowB = second.match(ROW);
+  if (rowA && rowB) {
+    const rows = [Number(rowA[1]) - 1, Number(rowB[1]) - 1];
+    return {
+      startRow: Math.min(...rows),
+      startCol: 0,
+      endRow: Math.max(...rows),
+      endCol: MAX_COLUMNS - 1,
+    };
+  }
+  return null;
+}
+
+function normalizeArea(address: string): string {
+  return address.replace(/\$/g, "").toUpperCase();
+}
+
+function readWord(formula: string, start: number): number {
+  let i = start;
+  while (i < formula.length && WORD_CHAR.test(formula[i])) i++;
+  return i;
+}
+
+/** Read a balanced `[...]` group starting at `start`; returns the end index. */
+function readBrackets(formula: string, start: number): number {
+  let depth = 0;
+  for (let i = start; i < formula.length; i++) {
+    const c = formula[i];
+    if (c === "'") {
+      i++; // escaped character inside a column name
+    } else if (c === "[") {
+      depth++;
+    } else if (c === "]") {
+      depth--;
+      if (depth === 0) return i + 1;
+    }
+  }
+  return formula.length;
+}
+
+function tableReference(
+  table: string | undefined,
+  inner: string,
+  text: string,
+): FormulaReference | null {
+  // `[@Col]`, `[@[Col Name]]` and `[[#This Row],[Col]]` point at the
+  // formula's own row, which parseStructuredReference doesn't model
+  let spec = inner;
+  let thisRow = false;
+  if (spec.startsWith("@")) {
+    thisRow = true;
+    spec = spec.slice(1);
+    if (spec !== "" && !spec.startsWith("[")) spec = `[${spec}]`;
+  } else if (/\[#This Row\]/i.test(spec)) {
+    thisRow = true;
+    spec = spec.replace(/\[#This Row\]\s*,?\s*/i, "");
+  }
+  if (spec.startsWith("[") && readBrackets(spec, 0) === spec.length) {
+    // `[[Col]]` and `[Col]` mean the same thing
+    const single = spec.match(/^\[((?:'.|[^\]'[])*)\]$/);
+    if (single) spec = single[1];
+  }
+  const parsed = parseStructuredReference(`${table ?? "_"}[${spec}]`);
+  if (!parsed) return null;
+  return {
+    kind: "table",
+    table,
+    ref: { ...parsed, table: table ?? "" },
+    thisRow,
+    text,
+  };
+}
+
+/**
+ * Extract the cell, name and table references from a formula. References
+ * inside string literals are ignored and function names are skipped.
+ */
+export function extractReferences(formula: string): FormulaReference[] {
+  const refs: FormulaReference[] = [];
+  const f = formula.startsWith("=") ? formula.slice(1) : formula;
+  let i = 0;
+
+  const readArea = (start: number): { area: string; end: number } | null => {
+    let end = readWord(f, start);
+    let area = f.slice(start, end);
+    if (f[end] === ":") {
+      const next = readWord(f, end + 1);
+      area = f.slice(start, next);
+      end = next;
+    }
+    return parseArea(area) ? { area, end } : null;
+  };
+
+  while (i < f.length) {
+    const c = f[i];
+
+    if (c === '"') {
+      i++;
+      while (i < f.length) {
+        if (f[i] === '"' && f[i + 1] === '"') i += 2;
+        else if (f[i] === '"') break;
+        else i++;
+      }
+      i++;
+      continue;
+    }
+
+    if (c === "'") {
+      // Quoted sheet name, possibly with an external workbook prefix
+      let j = i + 1;
+      while (j < f.length) {
+        if (f[j] === "'" && f[j + 1] === "'") j += 2;
+        else if (f[j] === "'") break;
+        else j++;
+      }
+      const sheet = f.slice(i + 1, j).replace(/''/g, "'");
+      if (f[j + 1] === "!") {
+        const area = readArea(j + 2);
+        const end = area ? area.end : readWord(f, j + 2);
+        const text = f.slice(i, end);
+        if (sheet.includes("[") || sheet.includes(":")) {
+          refs.push({ kind: "external", text });
+        } else if (area) {
+          refs.push({
+            kind: "range",
+            sheet,
+            address: normalizeArea(area.area),
+          });
+        }
+        i = end;
+      } else {
+        i = j + 1;
+      }
+      continue;
+    }
+
+    if (c === "[") {
+      const end = readBrackets(f, i);
+      const inner = f.slice(i + 1, end - 1);
+      const after = readWord(f, end);
+      if (/^\d+$/.test(inner) || inner.includes(".")) {
+        // External workbook: [1]Sheet1!A1 or [Book.xlsx]Sheet1!A1
+        let stop = after;
+        if (f[after] === "!") {
+          const area = readArea(after + 1);
+          stop = area ? area.end : readWord(f, after + 1);
+        }
+        refs.push({ kind: "external", text: f.slice(i, stop) });
+        i = stop;
+      } else {
+        const ref = tableReference(undefined, inner, f.slice(i, end));
+        if (ref) refs.push(ref);
+        i = end;
+      }
+      continue;
+    }
+
+    if (WORD_CHAR.test(c) && !(i > 0 && WORD_CHAR.test(f[i - 1]))) {
+      const end = readWord(f, i);
+      const word = f.slice(i, end);
+      const next = f[end];
+
+      if (next === "(") {
+        i = end; // function call
+      } else if (next === "[") {
+        const close = readBrackets(f, end);
+        const inner = f.slice(end + 1, close - 1);
+        const ref = tableReference(word, inner, f.slice(i, close));
+        if (ref) refs.push(ref);
+        i = close;
+      } else if (next === "!") {
+        const area = readArea(end + 1);
+        if (area) {
+          refs.push({
+            kind: "range",
+            sheet: word,
+            address: normalizeArea(area.area),
+          });
+          i = area.end;
+        } else {
+          i = readWord(f, end + 1);
+        }
+      } else if (next === ":" && f[readWord(f, end + 1)] === "!") {
+        // 3D reference across a span of sheets
+        const sheetEnd = readWord(f, end + 1);
+        const area = readArea(sheetEnd + 1);
+        const stop = area ? area.end : readWord(f, sheetEnd + 1);
+        refs.push({ kind: "external", text: f.slice(i, stop) });
+        i = stop;
+      } else {
+        const area = readArea(i);
+        if (area) {
+          refs.push({ kind: "range", address: normalizeArea(area.area) });
+          i = area.end;
+        } else {
+          if (
+            /^[\p{L}_\\][\p{L}\p{N}_.\\?]*$/u.test(word) &&
+            !RESERVED.has(word.toUpperCase())
+          ) {
+            refs.push({ kind: "name", name: word });
+          }
+          i = end;
+        }
+      }
+      continue;
+    }
+
+    i++;
+  }
+
+  return refs;
+}
+
+/**
+ * Merge individual cells into as few rectangles as possible: runs within a
+ * row first, then identical runs on consecutive rows.
+ */
+export function coalesceCells(
+  cells: { row: number; col: number }[],
+): CellRect[] {
+  const sorted = [...cells].sort((a, b) => a.row - b.row || a.col - b.col);
+  const runs: CellRect[] = [];
+  for (const { row, col } of sorted) {
+    const last = runs[runs.length - 1];
+    if (last && last.startRow === row && last.endCol === col - 1) {
+      last.endCol = col;
+    } else if (!(last && last.startRow === row && last.endCol >= col)) {
+      runs.push({ startRow: row, startCol: col, endRow: row, endCol: col });
+    }
+  }
+
+  const rects: CellRect[] = [];
+  const open = new Map<string, CellRect>();
+  for (const run of runs) {
+    const key = `${run.startCol}:${run.endCol}`;
+    const above = open.get(key);
+    if (above && above.endRow === run.startRow - 1) {
+      above.endRow = run.endRow;
+    } else {
+      const rect = { ...run };
+      rects.push(rect);
+      open.set(key, rect);
+    }
+  }
+  return rects;
+}
+
+// Arguments of these functions, from the given position on, are positions,
+// counts or flags rather than assumptions, e.g. the 2 in ROUND(x, 2)
+const STRUCTURAL_ARGUMENTS: Record<string, number> = {
+  AGGREGATE: 0,
+  CHOOSE: 0,
+  DATE: 0,
+  EDATE: 1,
+  EOMONTH: 1,
+  HLOOKUP: 2,
+  INDEX: 1,
+  LARGE: 1,
+  LEFT: 1,
+  MATCH: 2,
+  MID: 1,
+  OFFSET: 1,
+  RIGHT: 1,
+  ROUND: 1,
+  ROUNDDOWN: 1,
+  ROUNDUP: 1,
+  SMALL: 1,
+  SUBTOTAL: 0,
+  VLOOKUP: 2,
+  WEEKDAY: 1,
+  XLOOKUP: 3,
+  XMATCH: 2,
+};
+
+/**
+ * Numeric literals typed into a formula, excluding 0 and 1, numbers inside
+ * strings, references and sheet names, and positional arguments of lookup,
+ * rounding and text functions.
+ */
+export function extractNumberLiterals(formula: string): string[] {
+  const f = formula.startsWith("=") ? formula.slice(1) : formula;
+  const literals: string[] = [];
+  const calls: { name: string; arg: number }[] = [];
+  let i = 0;
+
+  while (i < f.length) {
+    const c = f[i];
+    if (c === '"' || c === "'") {
+      i++;
+      while (i < f.length) {
+        if (f[i] === c && f[i + 1] === c) i += 2;
+        else if (f[i] === c) break;
+        else i++;
+      }
+      i++;
+    } else if (c === "[") {
+      i = readBrackets(f, i);
+    } else if (c === "(") {
+      calls.push({ name: "", arg: 0 });
+      i++;
+    } else if (c === ")") {
+      calls.pop();
+      i++;
+    } else if (c === ",") {
+      const call = calls[calls.length - 1];
+      if (call) call.arg++;
+      i++;
+    } else if (WORD_CHAR.test(c)) {
+      const end = readWord(f, i);
+      const word = f.slice(i, end);
+      if (f[end] === "(") {
+        calls.push({ name: word.toUpperCase(), arg: 0 });
+        i = end + 1;
+        continue;
+      }
+      // Exponents split the word at the sign: 1E+5 reads as "1E" then "+5"
+      let literal = word;
+      if (/^\d+(\.\d+)?[eE]$/.test(word) && /^[+-]\d/.test(f.slice(end))) {
+        literal += f.slice(end).match(/^[+-]\d+/)?.[0] ?? "";
+      }
+      // Numbers next to ":" are row ranges like 2:4
+      if (
+        /^(\d+(\.\d*)?|\.\d+)([eE][+-]?\d+)?$/.test(literal) &&
+        f[i - 1] !== ":" &&
+        f[i + literal.length] !== ":"
+      ) {
+        const value = Number(literal);
+        const call = calls[calls.length - 1];
+        const structural =
+          call && call.arg >= (STRUCTURAL_ARGUMENTS[call.name] ?? Infinity);
+        if (value !== 0 && value !== 1 && !structural) {
+          const percent = f[i + literal.length] === "%";
+          literals.push(percent ? `${literal}%` : literal);
+        }
+        i += literal.length;
+        continue;
+      }
+      i = end;
+    } else {
+      i++;
+    }
+  }
+  return literals;
+}
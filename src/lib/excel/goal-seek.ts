@@ -0,0 +1,260 @@
+export interface Bounds {
+  min?: number;
+  max?: number;
+}
+
+export interface RootOptions extends Bounds {
+  target: number;
+  initial: number;
+  /** Relative to max(1, |target|) */
+  tolerance?: number;
+  maxIterations?: number;
+}
+
+export interface RootResult {
+  converged: boolean;
+  input: number;
+  output: number;
+  iterations: number;
+}
+
+function clamp(x: number, { min, max }: Bounds): number {
+  if (min !== undefined && x < min) return min;
+  if (max !== undefined && x > max) return max;
+  return x;
+}
+
+/**
+ * Find x with evaluate(x) = target, like Excel's Goal Seek. Uses the secant
+ * method from `initial` and switches to Illinois false position once a sign
+ * change is bracketed (or straight away when both bounds already bracket
+ * the target), which converges on kinked or flat-ish models where plain
+ * secant steps overshoot.
+ */
+export async function seekRoot(
+  evaluate: (x: number) => Promise<number>,
+  options: RootOptions,
+): Promise<RootResult> {
+  const { target, tolerance = 1e-7, maxIterations = 100 } = options;
+  const limit = tolerance * Math.max(1, Math.abs(target));
+  let iterations = 0;
+  let best = { input: options.initial, output: Number.NaN, error: Infinity };
+
+  const f = async (x: number): Promise<number> => {
+    iterations++;
+    const output = await evaluate(x);
+    const error = Math.abs(output - target);
+    if (error < best.error) best = { input: x, output, error };
+    return output - target;
+  };
+  const result = (converged: boolean): RootResult => ({
+    converged,
+    input: best.input,
+    output: best.output,
+    iterations,
+  });
+
+  let a = clamp(options.initial, options);
+  let fa = await f(a);
+  if (Math.abs(fa) <= limit) return result(true);
+
+  let bracket: [number, number, number, number] | null = null;
+  if (options.min !== undefined && options.max !== undefined) {
+    const fMin = await f(options.min);
+    const fMax = await f(options.max);
+    if (Math.abs(fMin) <= limit || Math.abs(fMax) <= limit) return result(true);
+    if (Math.sign(fMin) !== Math.sign(fMax)) {
+      bracket = [options.min, fMin, options.max, fMax];
+    }
+  }
+
+  if (!bracket) {
+    const step = a !== 0 ? Math.abs(a) * 0.01 : 0.01;
+    let b = clamp(a + step, options);
+    if (b === a) b = clamp(a - step, options);
+    let fb = await f(b);
+
+    while (iterations < maxIterations) {
+      if (Math.abs(fb) <= limit) return result(true);
+      if (Number.isFinite(fa) && Number.isFinite(fb)) {
+        if (Math.sign(fa) !== Math.sign(fb)) {
+          bracket = [a, fa, b, fb];
+          break;
+        }
+      }
+      let next =
+        Number.isFinite(fa) && Number.isFinite(fb) && fa !== fb
+          ? b - (fb * (b - a)) / (fb - fa)
+          : b + (b - a) * 2;
+      if (!Number.isFinite(fb)) next = (a + b) / 2;
+      next = clamp(next, options);
+      if (next === b) return result(false);
+      a = b;
+      fa = fb;
+      b = next;
+      fb = await f(b);
+    }
+    if (!bracket) return result(false);
+  }
+
+  let [lo, fLo, hi, fHi] = bracket;
+  let side = 0;
+  while (iterations < maxIterations) {
+    let x = (lo * fHi - hi * fLo) / (fHi - fLo);
+    if (!Number.isFinite(x) || x <= Math.min(lo, hi) || x >= Math.max(lo, hi)) {
+      x = (lo + hi) / 2;
+    }
+    const fx = await f(x);
+    if (Math.abs(fx) <= limit) return result(true);
+    if (!Number.isFinite(fx)) return result(false);
+    if (Math.sign(fx) === Math.sign(fHi)) {
+      hi = x;
+      fHi = fx;
+      // Illinois: halve the stale end so it can't stall the interpolation
+      if (side === 1) fLo /= 2;
+      side = 1;
+    } else {
+      lo = x;
+      fLo = fx;
+      if (side === -1) fHi /= 2;
+      side = -1;
+    }
+  }
+  return result(false);
+}
+
+export interface Score {
+  objective: number;
+  /** Total constraint violation; 0 when feasible */
+  violation: number;
+}
+
+export interface Constraint {
+  operator: "<=" | ">=" | "=";
+  value: number;
+}
+
+/**
+ * How far `value` falls outside a constraint, beyond a tolerance relative to
+ * max(1, |bound|). 0 means satisfied, so equality constraints can be met
+ * without landing on the bound exactly.
+ */
+export function constraintExcess(
+  value: number,
+  constraint: Constraint,
+  tolerance: number,
+): number {
+  if (!Number.isFinite(value)) return Infinity;
+  const bound = constraint.value;
+  const limit = tolerance * Math.max(1, Math.abs(bound));
+  const over =
+    constraint.operator === "<="
+      ? value - bound
+      : constraint.operator === ">="
+        ? bound - value
+        : Math.abs(value - bound);
+  return Math.max(0, over - limit);
+}
+
+/** Feasible points first, then lower violation, then lower objective */
+export function compareScores(a: Score, b: Score): number {
+  const va = Number.isFinite(a.objective) ? a.violation : Infinity;
+  const vb = Number.isFinite(b.objective) ? b.violation : Infinity;
+  if (va !== vb) return va < vb ? -1 : 1;
+  if (va === Infinity) return 0;
+  return a.objective - b.objective;
+}
+
+export interface MinimizeOptions {
+  bounds?: Bounds[];
+  maxEvaluations?: number;
+  /** Stop once the simplex spans less than this, relative to the inputs */
+  tolerance?: number;
+}
+
+export interface MinimizeResult {
+  inputs: number[];
+  score: Score;
+  evaluations: number;
+}
+
+/**
+ * Nelder-Mead over bounded inputs. Points are only ever ranked with
+ * compareScores, so constraints work without tuning a penalty weight.
+ */
+export async function minimize(
+  evaluate: (x: number[]) => Promise<Score>,
+  initial: number[],
+  options: MinimizeOptions = {},
+): Promise<MinimizeResult> {
+  const { bounds = [], maxEvaluations = 200, tolerance = 1e-8 } = options;
+  const n = initial.length;
+  const clampAll = (x: number[]) => x.map((v, i) => clamp(v, bounds[i] ?? {}));
+  let evaluations = 0;
+
+  type Vertex = { x: number[]; score: Score };
+  const probe = async (x: number[]): Promise<Vertex> => {
+    evaluations++;
+    const fitted = clampAll(x);
+    return { x: fitted, score: await evaluate(fitted) };
+  };
+
+  const start = clampAll(initial);
+  const simplex: Vertex[] = [await probe(start)];
+  for (let i = 0; i < n; i++) {
+    const { min, max } = bounds[i] ?? {};
+    const span =
+      min !== undefined && max !== undefined ? (max - min) * 0.1 : undefined;
+    const step = span || (start[i] !== 0 ? Math.abs(start[i]) * 0.05 : 0.1);
+    const x = [...start];
+    x[i] = max !== undefined && x[i] + step > max ? x[i] - step : x[i] + step;
+    simplex.push(await probe(x));
+  }
+
+  const combine = (a: number[], b: number[], t: number) =>
+    a.map((v, i) => v + t * (b[i] - v));
+  const better = (a: Vertex, b: Vertex) => compareScores(a.score, b.score) < 0;
+
+  while (evaluations < maxEvaluations) {
+    simplex.sort((a, b) => compareScores(a.score, b.score));
+    const best = simplex[0];
+    const worst = simplex[n];
+    const size = Math.max(
+      ...simplex.map((v) =>
+        Math.max(
+          ...v.x.map(
+            (xi, i) => Math.abs(xi - best.x[i]) / Math.max(1, Math.abs(xi)),
+          ),
+        ),
+      ),
+    );
+    if (size < tolerance) break;
+
+    const centroid = Array.from(
+      { length: n },
+      (_, i) => simplex.slice(0, n).reduce((sum, v) => sum + v.x[i], 0) / n,
+    );
+    const reflected = await probe(combine(centroid, worst.x, -1));
+    if (better(reflected, best)) {
+      const expanded = await probe(combine(centroid, worst.x, -2));
+      simplex[n] = better(expanded, reflected) ? expanded : reflected;
+    } else if (better(reflected, simplex[n - 1])) {
+      simplex[n] = reflected;
+    } else {
+      const outside = better(reflected, worst);
+      const contracted = await probe(
+        combine(centroid, worst.x, outside ? -0.5 : 0.5),
+      );
+      if (better(contracted, outside ? reflected : worst)) {
+        simplex[n] = contracted;
+      } else {
+        for (let i = 1; i <= n; i++) {
+          simplex[i] = await probe(combine(best.x, simplex[i].x, 0.5));
+        }
+      }
+    }
+  }
+
+  simplex.sort((a, b) => compareScores(a.score, b.score));
+  return { inputs: simplex[0].x, score: simplex[0].score, evaluations };
+}
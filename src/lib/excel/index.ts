@@ -1,12 +1,19 @@
 export {
+  type AuditWorkbookResult,
+  auditWorkbook,
   type CellData,
   type CellInput,
   type CellStyle,
   type ClearCellRangeResult,
+  type ConditionalFormatProperties,
+  type ConditionalFormatRuleType,
   type CopyToResult,
   clearCellRange,
   copyTo,
+  type DataValidationInfo,
+  type DataValidationSpec,
   type ExcelObject,
+  type FilterInput,
   type GetAllObjectsResult,
   type GetCellRangesResult,
   type GetRangeAsCsvResult,
@@ -14,18 +21,30 @@ export {
   getCellRanges,
   getRangeAsCsv,
   getWorksheetById,
+  type ModifyConditionalFormatResult,
+  type ModifyDataValidationResult,
   type ModifyObjectResult,
   type ModifySheetStructureResult,
   type ModifyWorkbookStructureResult,
+  modifyConditionalFormat,
+  modifyDataValidation,
   modifyObject,
   modifySheetStructure,
   modifyWorkbookStructure,
+  type NamedRangeProperties,
   type ResizeRangeResult,
   resizeRange,
+  resolveRange,
   type SearchDataResult,
   type SearchMatch,
   type SetCellRangeResult,
+  type SortFilterResult,
+  type SortKey,
   searchData,
   setCellRange,
+  sortFilterRange,
+  type TableProperties,
+  type TraceDependenciesResult,
+  traceDependencies,
   type WorksheetInfo,
 } from "./api";
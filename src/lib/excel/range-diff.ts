@@ -0,0 +1,316 @@
+import { cellToA1, columnLetterToIndex } from "./formula-refs";
+
+export type CellFormat = Record<string, string | number | boolean | null>;
+
+export interface DiffGrid {
+  startRow: number;
+  startCol: number;
+  values: unknown[][];
+  /** A1 formulas, shown in differences */
+  formulas?: unknown[][];
+  /** R1C1 formulas, compared so copies at another offset still match */
+  formulasR1C1?: unknown[][];
+  formats?: CellFormat[][];
+}
+
+export type DifferenceKind = "value" | "formula" | "format";
+
+export interface CellDifference {
+  kind: DifferenceKind;
+  /** Cell on each side; null when the cell lies outside that range */
+  left: string | null;
+  right: string | null;
+  /** Header and row key, when rows are matched by key columns */
+  column?: string;
+  key?: string;
+  before: unknown;
+  after: unknown;
+}
+
+export interface UnmatchedRow {
+  key: string;
+  /** Row on its own sheet (or CSV line), 1-based */
+  row: number;
+}
+
+export interface RangeDiff {
+  matchedBy: "position" | "key";
+  identical: boolean;
+  totalDifferences: number;
+  differences: CellDifference[];
+  truncated: boolean;
+  rowsOnlyInLeft?: UnmatchedRow[];
+  rowsOnlyInRight?: UnmatchedRow[];
+  columnsOnlyInLeft?: string[];
+  columnsOnlyInRight?: string[];
+  duplicateKeys?: string[];
+}
+
+export interface DiffOptions {
+  /** Header names (or column letters within the range) identifying a row */
+  keyColumns?: string[];
+  compareFormulas?: boolean;
+  compareFormats?: boolean;
+  /** Largest numeric difference still treated as equal */
+  tolerance?: number;
+  maxDifferences?: number;
+}
+
+function asNumber(value: unknown): number | null {
+  if (typeof value === "number") return value;
+  if (typeof value !== "string" || value.trim() === "") return null;
+  const parsed = Number(value.replace(/,/g, ""));
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+function asText(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  if (typeof value === "boolean") return value ? "TRUE" : "FALSE";
+  return String(value).trim();
+}
+
+/**
+ * Numbers compare numerically (so "1,200" from a CSV equals 1200) and
+ * everything else as trimmed text, with booleans in Excel's spelling.
+ */
+export function valuesEqual(a: unknown, b: unknown, tolerance = 0): boolean {
+  const x = asNumber(a);
+  const y = asNumber(b);
+  if (x !== null && y !== null) return Math.abs(x - y) <= tolerance;
+  // CSV text "true" against an Excel boolean
+  if (typeof a === "boolean" || typeof b === "boolean") {
+    return asText(a).toUpperCase() === asText(b).toUpperCase();
+  }
+  return asText(a) === asText(b);
+}
+
+function formulaAt(grid: DiffGrid, r: number, c: number): string | null {
+  const formula = (grid.formulasR1C1 ?? grid.formulas)?.[r]?.[c];
+  return typeof formula === "string" && formula.startsWith("=")
+    ? formula
+    : null;
+}
+
+function displayFormula(grid: DiffGrid, r: number, c: number): string | null {
+  const formula = grid.formulas?.[r]?.[c];
+  return typeof formula === "string" && formula.startsWith("=")
+    ? formula
+    : null;
+}
+
+function rowCount(grid: DiffGrid): number {
+  return grid.values.length;
+}
+
+function columnCount(grid: DiffGrid): number {
+  return Math.max(0, ...grid.values.map((row) => row.length));
+}
+
+function createCollector(max: number) {
+  const differences: CellDifference[] = [];
+  let total = 0;
+  return {
+    differences,
+    add(difference: CellDifference) {
+      total++;
+      if (differences.length < max) differences.push(difference);
+    },
+    get total() {
+      return total;
+    },
+  };
+}
+
+function compareCells(
+  left: DiffGrid,
+  right: DiffGrid,
+  at: { lr: number; lc: number; rr: number; rc: number },
+  options: DiffOptions,
+  add: (difference: CellDifference) => void,
+  label: { column?: string; key?: string } = {},
+): void {
+  const { lr, lc, rr, rc } = at;
+  const inLeft = lr < rowCount(left) && lc < (left.values[lr]?.length ?? 0);
+  const inRight = rr < rowCount(right) && rc < (right.values[rr]?.length ?? 0);
+  const base = {
+    left: inLeft ? cellToA1(left.startRow + lr, left.startCol + lc) : null,
+    right: inRight ? cellToA1(right.startRow + rr, right.startCol + rc) : null,
+    ...label,
+  };
+
+  const before = inLeft ? left.values[lr][lc] : "";
+  const after = inRight ? right.values[rr][rc] : "";
+  if (!valuesEqual(before, after, options.tolerance)) {
+    add({ kind: "value", ...base, before, after });
+  }
+
+  if (options.compareFormulas && left.formulas && right.formulas) {
+    if (formulaAt(left, lr, lc) !== formulaAt(right, rr, rc)) {
+      add({
+        kind: "formula",
+        ...base,
+        before: displayFormula(left, lr, lc),
+        after: displayFormula(right, rr, rc),
+      });
+    }
+  }
+
+  if (options.compareFormats && left.formats && right.formats) {
+    const a = left.formats[lr]?.[lc] ?? {};
+    const b = right.formats[rr]?.[rc] ?? {};
+    const changed = [...new Set([...Object.keys(a), ...Object.keys(b)])].filter(
+      (key) => a[key] !== b[key],
+    );
+    if (changed.length > 0) {
+      add({
+        kind: "format",
+        ...base,
+        before: Object.fromEntries(changed.map((k) => [k, a[k] ?? null])),
+        after: Object.fromEntries(changed.map((k) => [k, b[k] ?? null])),
+      });
+    }
+  }
+}
+
+function diffByPosition(
+  left: DiffGrid,
+  right: DiffGrid,
+  options: DiffOptions,
+  add: (difference: CellDifference) => void,
+): void {
+  const rows = Math.max(rowCount(left), rowCount(right));
+  const cols = Math.max(columnCount(left), columnCount(right));
+  for (let r = 0; r < rows; r++) {
+    for (let c = 0; c < cols; c++) {
+      compareCells(left, right, { lr: r, lc: c, rr: r, rc: c }, options, add);
+    }
+  }
+}
+
+function headerIndex(headers: string[], name: string): number {
+  const wanted = name.trim().toLowerCase();
+  const index = headers.findIndex((h) => h.toLowerCase() === wanted);
+  if (index >= 0) return index;
+  if (/^[A-Z]{1,3}$/i.test(name.trim())) {
+    const letter = columnLetterToIndex(name.trim());
+    if (letter < headers.length) return letter;
+  }
+  return -1;
+}
+
+function indexRows(
+  grid: DiffGrid,
+  keyIndices: number[],
+  duplicates: Set<string>,
+): Map<string, number> {
+  const rows = new Map<string, number>();
+  for (let r = 1; r < rowCount(grid); r++) {
+    const parts = keyIndices.map((i) => asText(grid.values[r]?.[i]));
+    if (parts.every((p) => p === "")) continue;
+    const key = parts.join(" | ");
+    if (rows.has(key)) duplicates.add(key);
+    else rows.set(key, r);
+  }
+  return rows;
+}
+
+/**
+ * Compare two grids cell by cell. With key columns, the first row of each
+ * grid is its header: rows pair up by key and columns by header name, so
+ * re-sorted exports and reordered columns still line up.
+ */
+export function diffGrids(
+  left: DiffGrid,
+  right: DiffGrid,
+  options: DiffOptions = {},
+): RangeDiff {
+  const { keyColumns = [], maxDifferences = 200 } = options;
+  const collector = createCollector(maxDifferences);
+  const add = (difference: CellDifference) => collector.add(difference);
+
+  if (keyColumns.length === 0) {
+    diffByPosition(left, right, options, add);
+    return {
+      matchedBy: "position",
+      identical: collector.total === 0,
+      totalDifferences: collector.total,
+      differences: collector.differences,
+      truncated: collector.total > collector.differences.length,
+    };
+  }
+
+  const leftHeaders = (left.values[0] ?? []).map(asText);
+  const rightHeaders = (right.values[0] ?? []).map(asText);
+  const leftKeys = keyColumns.map((k) => headerIndex(leftHeaders, k));
+  const rightKeys = keyColumns.map((k) => headerIndex(rightHeaders, k));
+  const missing = keyColumns.filter(
+    (_, i) => leftKeys[i] < 0 || rightKeys[i] < 0,
+  );
+  if (missing.length > 0) {
+    throw new Error(
+      `Key column ${missing.join(", ")} not found in both header rows`,
+    );
+  }
+
+  const duplicates = new Set<string>();
+  const leftRows = indexRows(left, leftKeys, duplicates);
+  const rightRows = indexRows(right, rightKeys, duplicates);
+
+  const columns = leftHeaders
+    .map((header, lc) => ({ header, lc, rc: rightHeaders.indexOf(header) }))
+    .filter(
+      ({ header, lc, rc }) => header && rc >= 0 && !leftKeys.includes(lc),
+    );
+  const columnsOnlyInLeft = leftHeaders.filter(
+    (h) => h && !rightHeaders.includes(h),
+  );
+  const columnsOnlyInRight = rightHeaders.filter(
+    (h) => h && !leftHeaders.includes(h),
+  );
+
+  const rowsOnlyInLeft: UnmatchedRow[] = [];
+  for (const [key, lr] of leftRows) {
+    const rr = rightRows.get(key);
+    if (rr === undefined) {
+      rowsOnlyInLeft.push({ key, row: left.startRow + lr + 1 });
+      continue;
+    }
+    for (const { header, lc, rc } of columns) {
+      compareCells(left, right, { lr, lc, rr, rc }, options, add, {
+        column: header,
+        key,
+      });
+    }
+  }
+  const rowsOnlyInRight: UnmatchedRow[] = [];
+  for (const [key, rr] of rightRows) {
+    if (!leftRows.has(key)) {
+      rowsOnlyInRight.push({ key, row: right.startRow + rr + 1 });
+    }
+  }
+
+  const unmatched =
+    rowsOnlyInLeft.length +
+    rowsOnlyInRight.length +
+    columnsOnlyInLeft.length +
+    columnsOnlyInRight.length;
+  return {
+    matchedBy: "key",
+    identical: collector.total === 0 && unmatched === 0,
+    totalDifferences: collector.total,
+    differences: collector.differences,
+    truncated:
+      collector.total > collector.differences.length ||
+      rowsOnlyInLeft.length > maxDifferences ||
+      rowsOnlyInRight.length > maxDifferences,
+    ...(rowsOnlyInLeft.length > 0 && {
+      rowsOnlyInLeft: rowsOnlyInLeft.slice(0, maxDifferences),
+    }),
+    ...(rowsOnlyInRight.length > 0 && {
+      rowsOnlyInRight: rowsOnlyInRight.slice(0, maxDifferences),
+    }),
+    ...(columnsOnlyInLeft.length > 0 && { columnsOnlyInLeft }),
+    ...(columnsOnlyInRight.length > 0 && { columnsOnlyInRight }),
+    ...(duplicates.size > 0 && { duplicateKeys: [...duplicates] }),
+  };
+}
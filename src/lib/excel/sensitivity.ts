@@ -0,0 +1,120 @@
+import { parseArea, rectToA1 } from "./formula-refs";
+
+/** Area of the grid relative to its top-left cell */
+export interface GridArea {
+  row: number;
+  col: number;
+  rows: number;
+  cols: number;
+}
+
+export interface SensitivityLayout {
+  values: (string | number)[][];
+  /** Labels: the header row (one input) or each block's title and corner */
+  labels: GridArea[];
+  /** Test values of the row input, and of the column input if any */
+  rowInputs: GridArea[];
+  colInputs: GridArea[];
+  /** Results for each output, in output order */
+  results: GridArea[];
+}
+
+/** Every combination of test values, row input first */
+export function scenarios(rowValues: number[], colValues?: number[]) {
+  return rowValues.flatMap((r) =>
+    colValues ? colValues.map((c) => [r, c]) : [[r]],
+  );
+}
+
+/** Rows and columns taken by `layoutSensitivity` */
+export function sensitivityExtent(
+  rowValues: number,
+  colValues: number | undefined,
+  outputs: number,
+): { rows: number; cols: number } {
+  if (colValues === undefined) {
+    return { rows: rowValues + 1, cols: outputs + 1 };
+  }
+  return { rows: outputs * (rowValues + 3) - 1, cols: colValues + 1 };
+}
+
+/** The address a table anchored at `cell` will cover, or null if unparsable */
+export function sensitivityRange(
+  cell: string,
+  extent: { rows: number; cols: number },
+): string | null {
+  const anchor = parseArea(cell);
+  if (!anchor) return null;
+  return rectToA1({
+    startRow: anchor.startRow,
+    startCol: anchor.startCol,
+    endRow: anchor.startRow + extent.rows - 1,
+    endCol: anchor.startCol + extent.cols - 1,
+  });
+}
+
+/**
+ * Lay out scenario results as a sensitivity grid. One input gives a column of
+ * test values with one column per output; two inputs give a classic data
+ * table per output (row values down, column values across), stacked with a
+ * blank row between them. `results[s][o]` is output o in scenario s, in the
+ * order of `scenarios`; non-numbers become #N/A.
+ */
+export function layoutSensitivity(params: {
+  rowInput: { label: string; values: number[] };
+  colInput?: { label: string; values: number[] };
+  outputs: string[];
+  results: number[][];
+}): SensitivityLayout {
+  const { rowInput, colInput, outputs, results } = params;
+  const cell = (value: number) => (Number.isFinite(value) ? value : "#N/A");
+  const n = rowInput.values.length;
+  const layout: SensitivityLayout = {
+    values: [],
+    labels: [],
+    rowInputs: [],
+    colInputs: [],
+    results: [],
+  };
+
+  if (!colInput) {
+    layout.values.push([rowInput.label, ...outputs]);
+    rowInput.values.forEach((value, r) => {
+      layout.values.push([value, ...results[r].map(cell)]);
+    });
+    layout.labels.push({ row: 0, col: 0, rows: 1, cols: outputs.length + 1 });
+    layout.rowInputs.push({ row: 1, col: 0, rows: n, cols: 1 });
+    outputs.forEach((_, o) => {
+      layout.results.push({ row: 1, col: o + 1, rows: n, cols: 1 });
+    });
+    return layout;
+  }
+
+  const m = colInput.values.length;
+  const width = m + 1;
+  const pad = (row: (string | number)[]) => [
+    ...row,
+    ...Array<string>(width - row.length).fill(""),
+  ];
+  outputs.forEach((output, o) => {
+    if (o > 0) layout.values.push(pad([]));
+    const top = layout.values.length;
+    layout.values.push(pad([output]));
+    layout.values.push([
+      `${rowInput.label} ↓ / ${colInput.label} →`,
+      ...colInput.values,
+    ]);
+    rowInput.values.forEach((value, r) => {
+      const row = results.slice(r * m, (r + 1) * m).map((s) => cell(s[o]));
+      layout.values.push([value, ...row]);
+    });
+    layout.labels.push(
+      { row: top, col: 0, rows: 1, cols: width },
+      { row: top + 1, col: 0, rows: 1, cols: 1 },
+    );
+    layout.colInputs.push({ row: top + 1, col: 1, rows: 1, cols: m });
+    layout.rowInputs.push({ row: top + 2, col: 0, rows: n, cols: 1 });
+    layout.results.push({ row: top + 2, col: 1, rows: n, cols: m });
+  });
+  return layout;
+}
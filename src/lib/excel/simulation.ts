@@ -0,0 +1,178 @@
+export type Distribution =
+  | { type: "normal"; mean: number; stdDev: number; min?: number; max?: number }
+  | { type: "triangular"; min: number; mode: number; max: number }
+  | { type: "uniform"; min: number; max: number }
+  | { type: "discrete"; values: number[]; weights?: number[] };
+
+export type Random = () => number;
+
+/** Seeded uniform [0, 1) generator (mulberry32), so runs can be repeated */
+export function createRandom(seed = Date.now()): Random {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export function validateDistribution(dist: Distribution): void {
+  switch (dist.type) {
+    case "normal":
+      if (!(dist.stdDev >= 0)) throw new Error("stdDev must be at least 0");
+      if (dist.min !== undefined && dist.max !== undefined) {
+        if (dist.min > dist.max) throw new Error("min must not exceed max");
+      }
+      return;
+    case "triangular":
+      if (!(dist.min <= dist.mode && dist.mode <= dist.max)) {
+        throw new Error("Triangular needs min <= mode <= max");
+      }
+      return;
+    case "uniform":
+      if (!(dist.min <= dist.max)) throw new Error("min must not exceed max");
+      return;
+    case "discrete": {
+      if (dist.values.length === 0) {
+        throw new Error("Discrete distributions need at least one value");
+      }
+      const { weights } = dist;
+      if (weights) {
+        if (weights.length !== dist.values.length) {
+          throw new Error("Discrete weights must match the values one to one");
+        }
+        if (weights.some((w) => !(w >= 0)) || !weights.some((w) => w > 0)) {
+          throw new Error("Discrete weights must be non-negative, not all 0");
+        }
+      }
+    }
+  }
+}
+
+function normal(random: Random): number {
+  // Box-Muller; 1 - u keeps the log argument above 0
+  const u = 1 - random();
+  const v = random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+}
+
+export function sample(dist: Distribution, random: Random): number {
+  switch (dist.type) {
+    case "normal": {
+      // Truncate by resampling, falling back to clamping for tight bounds
+      let x = dist.mean + dist.stdDev * normal(random);
+      for (let i = 0; i < 100; i++) {
+        const inside =
+          (dist.min === undefined || x >= dist.min) &&
+          (dist.max === undefined || x <= dist.max);
+        if (inside) return x;
+        x = dist.mean + dist.stdDev * normal(random);
+      }
+      return Math.min(dist.max ?? x, Math.max(dist.min ?? x, x));
+    }
+    case "triangular": {
+      const { min, mode, max } = dist;
+      if (max === min) return min;
+      const u = random();
+      const split = (mode - min) / (max - min);
+      return u < split
+        ? min + Math.sqrt(u * (max - min) * (mode - min))
+        : max - Math.sqrt((1 - u) * (max - min) * (max - mode));
+    }
+    case "uniform":
+      return dist.min + random() * (dist.max - dist.min);
+    case "discrete": {
+      const weights = dist.weights ?? dist.values.map(() => 1);
+      const total = weights.reduce((sum, w) => sum + w, 0);
+      let u = random() * total;
+      for (let i = 0; i < dist.values.length; i++) {
+        u -= weights[i];
+        if (u < 0) return dist.values[i];
+      }
+      return dist.values[dist.values.length - 1];
+    }
+  }
+}
+
+/** Linear interpolation between order statistics, like PERCENTILE.INC */
+export function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return Number.NaN;
+  const rank = p * (sorted.length - 1);
+  const lo = Math.floor(rank);
+  const hi = Math.ceil(rank);
+  return sorted[lo] + (sorted[hi] - sorted[lo]) * (rank - lo);
+}
+
+export const PERCENTILES = [0.05, 0.1, 0.25, 0.5, 0.75, 0.9, 0.95];
+
+export interface HistogramBin {
+  from: number;
+  to: number;
+  count: number;
+}
+
+export interface OutputSummary {
+  count: number;
+  /** Iterations where the output was not a number */
+  errors: number;
+  mean: number;
+  stdDev: number;
+  min: number;
+  max: number;
+  percentiles: Record<string, number>;
+  histogram: HistogramBin[];
+}
+
+/** Equal-width bins over [min, max]; the last bin includes max */
+export function histogram(sorted: number[], bins: number): HistogramBin[] {
+  if (sorted.length === 0) return [];
+  const min = sorted[0];
+  const max = sorted[sorted.length - 1];
+  if (min === max) return [{ from: min, to: max, count: sorted.length }];
+  const width = (max - min) / bins;
+  const result = Array.from({ length: bins }, (_, i) => ({
+    from: min + i * width,
+    to: i === bins - 1 ? max : min + (i + 1) * width,
+    count: 0,
+  }));
+  for (const x of sorted) {
+    result[Math.min(bins - 1, Math.floor((x - min) / width))].count++;
+  }
+  return result;
+}
+
+const BIN_NUMBER = new Intl.NumberFormat("en-US", {
+  maximumSignificantDigits: 4,
+});
+
+/** Category label for a histogram bar, e.g. "1,200 – 1,350" */
+export function binLabel(bin: HistogramBin): string {
+  return `${BIN_NUMBER.format(bin.from)} – ${BIN_NUMBER.format(bin.to)}`;
+}
+
+export function summarize(samples: number[], bins = 20): OutputSummary {
+  const sorted = samples.filter(Number.isFinite).sort((a, b) => a - b);
+  const count = sorted.length;
+  const mean = sorted.reduce((sum, x) => sum + x, 0) / count;
+  const variance =
+    count > 1
+      ? sorted.reduce((sum, x) => sum + (x - mean) ** 2, 0) / (count - 1)
+      : 0;
+  return {
+    count,
+    errors: samples.length - count,
+    mean,
+    stdDev: Math.sqrt(variance),
+    min: sorted[0] ?? Number.NaN,
+    max: sorted[count - 1] ?? Number.NaN,
+    percentiles: Object.fromEntries(
+      PERCENTILES.map((p) => [
+        `p${Math.round(p * 100)}`,
+        percentile(sorted, p),
+      ]),
+    ),
+    histogram: histogram(sorted, bins),
+  };
+}
@@ -0,0 +1,137 @@
+export type TableSection = "all" | "data" | "headers" | "totals";
+
+export interface StructuredReference {
+  table: string;
+  section: TableSection;
+  /** First and last column of the reference; omitted for the whole table */
+  columns?: [string, string];
+}
+
+export type TotalsFunction =
+  | "sum"
+  | "average"
+  | "count"
+  | "countNumbers"
+  | "max"
+  | "min"
+  | "stdDev"
+  | "var";
+
+// SUBTOTAL codes that ignore hidden rows, as used by Excel's totals row
+const SUBTOTAL_CODES: Record<TotalsFunction, number> = {
+  average: 101,
+  countNumbers: 102,
+  count: 103,
+  max: 104,
+  min: 105,
+  stdDev: 107,
+  sum: 109,
+  var: 110,
+};
+
+const SECTIONS: Record<string, TableSection> = {
+  "#all": "all",
+  "#data": "data",
+  "#headers": "headers",
+  "#totals": "totals",
+};
+
+function unescapeColumn(name: string): string {
+  return name.replace(/'(.)/g, "$1");
+}
+
+function escapeColumn(name: string): string {
+  return name.replace(/(['[\]#])/g, "'$1");
+}
+
+/**
+ * Parse `Table[Column]`, `Table[#Headers]`, `Table[[#All],[Column]]`,
+ * `Table[[Col1]:[Col2]]` or `Table[]`. Returns null for anything else,
+ * including `[#This Row]`, which has no meaning outside a formula.
+ */
+export function parseStructuredReference(
+  ref: string,
+): StructuredReference | null {
+  const match = ref.trim().match(/^([A-Za-z_\\][\w.\\]*)\[(.*)\]$/);
+  if (!match) return null;
+  const [, table, inner] = match;
+
+  if (inner === "") return { table, section: "data" };
+  if (!inner.startsWith("[")) {
+    if (inner.startsWith("#")) {
+      const section = SECTIONS[inner.toLowerCase()];
+      return section ? { table, section } : null;
+    }
+    const column = unescapeColumn(inner);
+    return { table, section: "data", columns: [column, column] };
+  }
+
+  // Bracketed items separated by "," (section + columns) or ":" (column span)
+  const items: string[] = [];
+  let span = false;
+  let rest = inner;
+  while (rest.length > 0) {
+    const item = rest.match(/^\s*\[((?:'.|[^\]'])*)\]\s*/);
+    if (!item) return null;
+    items.push(item[1]);
+    rest = rest.slice(item[0].length);
+    if (rest.startsWith(":")) span = true;
+    else if (rest.length > 0 && !rest.startsWith(",")) return null;
+    rest = rest.slice(1);
+  }
+
+  let section: TableSection = "data";
+  const columns: string[] = [];
+  let sections = 0;
+  for (const item of items) {
+    if (item.startsWith("#")) {
+      const parsed = SECTIONS[item.toLowerCase()];
+      if (!parsed) return null;
+      section = parsed;
+      sections++;
+    } else {
+      columns.push(unescapeColumn(item));
+    }
+  }
+  if (sections > 1 || columns.length > 2) return null;
+  if (columns.length === 2 && !span) return null;
+
+  if (columns.length === 0) return { table, section };
+  return {
+    table,
+    section,
+    columns: [columns[0], columns[columns.length - 1]],
+  };
+}
+
+export function columnReference(table: string, column: string): string {
+  return `${table}[${escapeColumn(column)}]`;
+}
+
+export function totalsFormula(
+  table: string,
+  column: string,
+  fn: TotalsFunction,
+): string {
+  return `=SUBTOTAL(${SUBTOTAL_CODES[fn]},${columnReference(table, column)})`;
+}
+
+/**
+ * Map a totals row cell back to its aggregation. Returns the formula itself
+ * when it isn't a plain SUBTOTAL, and null for empty or label cells.
+ */
+export function parseTotalsFormula(
+  formula: unknown,
+): TotalsFunction | string | null {
+  if (typeof formula !== "string" || !formula.startsWith("=")) return null;
+  const match = formula.match(/^=SUBTOTAL\((\d+),[^,()]+\)$/i);
+  if (match) {
+    const code = Number(match[1]);
+    const fn = (Object.keys(SUBTOTAL_CODES) as TotalsFunction[]).find(
+      (key) =>
+        SUBTOTAL_CODES[key] === code || SUBTOTAL_CODES[key] - 100 === code,
+    );
+    if (fn) return fn;
+  }
+  return formula;
+}
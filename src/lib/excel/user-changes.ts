@@ -0,0 +1,237 @@
+/* global Excel */
+
+import { parseArea } from "./formula-refs";
+import { getStableSheetId } from "./sheet-id-map";
+
+/**
+ * Edits the user makes between turns, so the next prompt can say what
+ * changed instead of the agent re-reading the workbook.
+ */
+
+export interface UserChange {
+  sheetId: number;
+  address: string;
+  /** Excel.DataChangeType, e.g. "RangeEdited" or "RowInserted" */
+  changeType: string;
+  /** Only reported by Excel for single-cell edits */
+  before?: unknown;
+  after?: unknown;
+}
+
+export interface UserSelection {
+  sheetId: number;
+  address: string;
+}
+
+export interface ChangeLog {
+  record(change: UserChange): void;
+  select(selection: UserSelection): void;
+  /** Return everything recorded so far and start over */
+  drain(): {
+    changes: UserChange[];
+    omitted: number;
+    selection?: UserSelection;
+  };
+  clear(): void;
+  /**
+   * Drop changes inside `ranges` ("*" for a whole sheet, a negative sheetId
+   * for any sheet) for the next `ms`.
+   * Change events arrive asynchronously, so the agent's own writes can be
+   * reported after it has finished.
+   */
+  ignore(ranges: { sheetId: number; range: string }[], ms?: number): void;
+}
+
+function overlaps(a: string, b: string): boolean {
+  const areas = (address: string) =>
+    address.split(",").flatMap((part) => {
+      const rect = parseArea(part.split("!").pop() ?? part);
+      return rect ? [rect] : [];
+    });
+  const others = areas(b);
+  return areas(a).some((x) =>
+    others.some(
+      (y) =>
+        x.startRow <= y.endRow &&
+        y.startRow <= x.endRow &&
+        x.startCol <= y.endCol &&
+        y.startCol <= x.endCol,
+    ),
+  );
+}
+
+/**
+ * Repeated edits of the same cell collapse into one entry that keeps the
+ * first value before and the latest value after, and a cell edited back to
+ * where it started drops out. Past `limit` entries only a count is kept.
+ */
+export function createChangeLog(limit = 50, now = Date.now): ChangeLog {
+  let entries = new Map<string, UserChange>();
+  let omitted = 0;
+  let selection: UserSelection | undefined;
+  let ignored: { sheetId: number; range: string; until: number }[] = [];
+
+  const isIgnored = (change: UserChange) => {
+    const time = now();
+    ignored = ignored.filter((r) => r.until > time);
+    return ignored.some(
+      (r) =>
+        (r.sheetId < 0 || r.sheetId === change.sheetId) &&
+        (r.range === "*" || overlaps(r.range, change.address)),
+    );
+  };
+
+  return {
+    record(change) {
+      if (isIgnored(change)) return;
+      const key = `${change.sheetId}!${change.address}:${change.changeType}`;
+      const previous = entries.get(key);
+      if (previous) {
+        // Re-insert so the entry moves to the latest position
+        entries.delete(key);
+        if (!("before" in previous && "after" in change)) {
+          entries.set(key, change);
+        } else if (previous.before !== change.after) {
+          entries.set(key, { ...change, before: previous.before });
+        }
+        return;
+      }
+      if (entries.size >= limit) omitted++;
+      else entries.set(key, change);
+    },
+    select(next) {
+      selection = next;
+    },
+    drain() {
+      const result = { changes: [...entries.values()], omitted, selection };
+      entries = new Map();
+      omitted = 0;
+      selection = undefined;
+      return result;
+    },
+    clear() {
+      entries = new Map();
+      omitted = 0;
+      selection = undefined;
+      ignored = [];
+    },
+    ignore(ranges, ms = 5000) {
+      const until = now() + ms;
+      for (const { sheetId, range } of ranges) {
+        ignored.push({ sheetId, range, until });
+      }
+    },
+  };
+}
+
+const CHANGE_LABELS: Record<string, string> = {
+  RangeEdited: "edited",
+  RowInserted: "rows inserted",
+  RowDeleted: "rows deleted",
+  ColumnInserted: "columns inserted",
+  ColumnDeleted: "columns deleted",
+  CellInserted: "cells inserted",
+  CellDeleted: "cells deleted",
+};
+
+function formatValue(value: unknown): string {
+  if (value === "" || value === null || value === undefined) return "(empty)";
+  const text =
+    typeof value === "string" ? JSON.stringify(value) : String(value);
+  return text.length > 40 ? `${text.slice(0, 37)}...` : text;
+}
+
+function formatPlace(
+  place: { sheetId: number; address: string },
+  sheetNames: Record<number, string>,
+): string {
+  const name = sheetNames[place.sheetId];
+  return `${name ?? "sheet"} (id ${place.sheetId}) ${place.address}`;
+}
+
+/** The body of a <user_changes> section, or null when nothing changed */
+export function formatUserChanges(
+  log: ReturnType<ChangeLog["drain"]>,
+  sheetNames: Record<number, string> = {},
+): string | null {
+  const { changes, omitted, selection } = log;
+  if (changes.length === 0 && omitted === 0) return null;
+
+  const lines = ["Edits by the user since your last turn, oldest first:"];
+  for (const change of changes) {
+    const place = formatPlace(change, sheetNames);
+    const label = CHANGE_LABELS[change.changeType] ?? change.changeType;
+    const values =
+      "before" in change || "after" in change
+        ? `: ${formatValue(change.before)} → ${formatValue(change.after)}`
+        : ` ${label}`;
+    lines.push(`- ${place}${values}`);
+  }
+  if (omitted > 0) lines.push(`- ...and ${omitted} more changes`);
+  if (selection) {
+    lines.push(`Current selection: ${formatPlace(selection, sheetNames)}`);
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Feed worksheet change and selection events into `log`. While `isPaused`
+ * returns true (the agent is running its own tools) events are ignored.
+ * `onSelection` sees every selection, starting with the current one.
+ * Resolves to a function that removes the handlers.
+ */
+export async function watchUserChanges(
+  log: ChangeLog,
+  isPaused: () => boolean,
+  onSelection?: (selection: UserSelection) => void,
+): Promise<() => Promise<void>> {
+  return Excel.run(async (context) => {
+    const sheets = context.workbook.worksheets;
+    const changed = sheets.onChanged.add(async (event) => {
+      if (isPaused()) return;
+      const details = event.details;
+      log.record({
+        sheetId: await getStableSheetId(event.worksheetId),
+        address: event.address,
+        changeType: event.changeType,
+        ...(details && {
+          before: details.valueBefore,
+          after: details.valueAfter,
+        }),
+      });
+    });
+    const selected = sheets.onSelectionChanged.add(async (event) => {
+      const selection = {
+        sheetId: await getStableSheetId(event.worksheetId),
+        address: event.address,
+      };
+      onSelection?.(selection);
+      if (!isPaused()) log.select(selection);
+    });
+    await context.sync();
+
+    if (onSelection) {
+      const active = sheets.getActiveWorksheet();
+      active.load("id");
+      const range = context.workbook.getSelectedRange();
+      range.load("address");
+      try {
+        await context.sync();
+        onSelection({
+          sheetId: await getStableSheetId(active.id),
+          address: range.address.split("!").pop() ?? range.address,
+        });
+      } catch {
+        // Multi-area selections have no single address; wait for the next one
+      }
+    }
+
+    return async () => {
+      await Excel.run(changed.context, async (ctx) => {
+        changed.remove();
+        selected.remove();
+        await ctx.sync();
+      });
+    };
+  });
+}
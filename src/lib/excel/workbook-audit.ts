@@ -0,0 +1,393 @@
+import {
+  createWorkbookIndex,
+  formatAddress,
+  type SheetGrid,
+  type TableDefinition,
+  type WorkbookSnapshot,
+} from "./dependency-trace";
+import {
+  type CellRect,
+  cellToA1,
+  coalesceCells,
+  extractNumberLiterals,
+  rectToA1,
+} from "./formula-refs";
+
+export type AuditCheck =
+  | "errors"
+  | "inconsistentFormulas"
+  | "hardcodedConstants"
+  | "overwrittenFormulas"
+  | "emptyReferences"
+  | "unusedInputs";
+
+export const AUDIT_CHECKS: AuditCheck[] = [
+  "errors",
+  "inconsistentFormulas",
+  "hardcodedConstants",
+  "overwrittenFormulas",
+  "emptyReferences",
+  "unusedInputs",
+];
+
+export interface AuditFinding {
+  check: AuditCheck;
+  /** Cell or range on the finding's sheet, e.g. `D5` or `D5:D20` */
+  address: string;
+  message: string;
+  formula?: string;
+  value?: unknown;
+}
+
+export interface SheetAudit {
+  sheet: string;
+  findings: AuditFinding[];
+  /** Findings left out per check because of the per-sheet limit */
+  omitted?: Partial<Record<AuditCheck, number>>;
+}
+
+export interface AuditResult {
+  sheets: SheetAudit[];
+  /** Number of findings per check across all audited sheets */
+  totals: Partial<Record<AuditCheck, number>>;
+}
+
+const ERROR_VALUE =
+  /^#(NULL!|DIV\/0!|VALUE!|REF!|NAME\?|NUM!|N\/A|SPILL!|CALC!|FIELD!|BLOCKED!|CONNECT!|BUSY!|UNKNOWN!|GETTING_DATA)$/;
+
+// Typed years are usually timeline headers rather than model inputs
+const isYear = (value: number) =>
+  Number.isInteger(value) && value >= 1900 && value <= 2100;
+
+function isFormula(value: unknown): value is string {
+  return typeof value === "string" && value.startsWith("=");
+}
+
+function isEmpty(value: unknown): boolean {
+  return value === "" || value === undefined || value === null;
+}
+
+interface Cell {
+  row: number;
+  col: number;
+}
+
+/**
+ * Scan a workbook snapshot for common modelling mistakes. Formula
+ * consistency checks need `formulasR1C1` on the sheet grids and are skipped
+ * for sheets without them.
+ */
+export function auditWorkbookSnapshot(
+  snapshot: WorkbookSnapshot,
+  options: {
+    /** Sheets to report on; references are followed across all sheets */
+    sheets?: string[];
+    checks?: AuditCheck[];
+    maxFindingsPerCheck?: number;
+  } = {},
+): AuditResult {
+  const { checks = AUDIT_CHECKS, maxFindingsPerCheck = 20 } = options;
+  const enabled = new Set(checks);
+  const index = createWorkbookIndex(snapshot);
+  const targets = options.sheets
+    ? options.sheets.map((name) => {
+        const grid = index.sheet(name);
+        if (!grid) throw new Error(`Sheet ${name} not found`);
+        return grid;
+      })
+    : snapshot.sheets;
+  const targetNames = new Set(targets.map((g) => g.name.toLowerCase()));
+
+  // Cells read by any formula in the workbook, per audited sheet. Rectangles
+  // are deduplicated first since copied formulas repeat the same ranges.
+  const referenced = new Map<string, Uint8Array>();
+  const emptyRefs = new Map<string, string[]>();
+  if (enabled.has("unusedInputs") || enabled.has("emptyReferences")) {
+    const rects = new Map<string, { sheet: string; rect: CellRect }>();
+    for (const cell of index.formulaCells()) {
+      const onTarget = targetNames.has(cell.sheet.toLowerCase());
+      const empties: string[] = [];
+      for (const ref of index.resolve(
+        cell.formula,
+        cell.sheet,
+        cell.row,
+        cell.col,
+      )) {
+        if (typeof ref === "string") continue;
+        const r = ref.rect;
+        rects.set(
+          `${ref.sheet}!${r.startRow},${r.startCol},${r.endRow},${r.endCol}`,
+          ref,
+        );
+        const single = r.startRow === r.endRow && r.startCol === r.endCol;
+        if (!onTarget || !single || index.sheet(ref.sheet)?.skipped) continue;
+        const target = index.cell(ref.sheet, r.startRow, r.startCol);
+        if (!target.formula && isEmpty(target.value)) {
+          const address = cellToA1(r.startRow, r.startCol);
+          empties.push(
+            ref.sheet === cell.sheet
+              ? address
+              : formatAddress(ref.sheet, address),
+          );
+        }
+      }
+      if (empties.length > 0) {
+        emptyRefs.set(`${cell.sheet}!${cell.row},${cell.col}`, empties);
+      }
+    }
+
+    for (const grid of targets) {
+      const rows = grid.formulas.length;
+      const cols = grid.formulas[0]?.length ?? 0;
+      referenced.set(grid.name, new Uint8Array(rows * cols));
+    }
+    for (const { sheet, rect } of rects.values()) {
+      const grid = index.sheet(sheet);
+      const marks = grid && referenced.get(grid.name);
+      const clipped = marks && index.clip(sheet, rect);
+      if (!grid || !marks || !clipped) continue;
+      const cols = grid.formulas[0]?.length ?? 0;
+      for (let r = clipped.startRow; r <= clipped.endRow; r++) {
+        const offset = (r - grid.startRow) * cols - grid.startCol;
+        marks.fill(1, offset + clipped.startCol, offset + clipped.endCol + 1);
+      }
+    }
+  }
+
+  const totals: Partial<Record<AuditCheck, number>> = {};
+  const sheets: SheetAudit[] = [];
+  for (const grid of targets) {
+    if (grid.skipped) continue;
+    const found = auditSheet(grid, enabled, {
+      referenced: referenced.get(grid.name),
+      emptyRefs,
+      tables: snapshot.tables.filter(
+        (t) => t.sheet.toLowerCase() === grid.name.toLowerCase(),
+      ),
+    });
+
+    const findings: AuditFinding[] = [];
+    const omitted: Partial<Record<AuditCheck, number>> = {};
+    for (const check of AUDIT_CHECKS) {
+      const list = found.filter((f) => f.check === check);
+      if (list.length === 0) continue;
+      totals[check] = (totals[check] ?? 0) + list.length;
+      findings.push(...list.slice(0, maxFindingsPerCheck));
+      if (list.length > maxFindingsPerCheck) {
+        omitted[check] = list.length - maxFindingsPerCheck;
+      }
+    }
+    if (findings.length === 0) continue;
+    sheets.push({
+      sheet: grid.name,
+      findings,
+      ...(Object.keys(omitted).length > 0 && { omitted }),
+    });
+  }
+
+  return { sheets, totals };
+}
+
+function auditSheet(
+  grid: SheetGrid,
+  enabled: Set<AuditCheck>,
+  usage: {
+    referenced?: Uint8Array;
+    emptyRefs: Map<string, string[]>;
+    tables: TableDefinition[];
+  },
+): AuditFinding[] {
+  const findings: AuditFinding[] = [];
+  const rows = grid.formulas.length;
+  const cols = grid.formulas[0]?.length ?? 0;
+  const at = (cell: Cell) =>
+    cellToA1(grid.startRow + cell.row, grid.startCol + cell.col);
+  const rangeOf = (rect: CellRect) =>
+    rectToA1({
+      startRow: grid.startRow + rect.startRow,
+      startCol: grid.startCol + rect.startCol,
+      endRow: grid.startRow + rect.endRow,
+      endCol: grid.startCol + rect.endCol,
+    });
+  const formulaAt = (r: number, c: number) => {
+    const formula = grid.formulas[r]?.[c];
+    return isFormula(formula) ? formula : undefined;
+  };
+  const r1c1At = (r: number, c: number) =>
+    formulaAt(r, c) ? (grid.formulasR1C1?.[r]?.[c] as string) : undefined;
+
+  // Group cells that share a message, so a copied formula is reported as
+  // one range instead of once per cell
+  const grouped = new Map<
+    string,
+    { check: AuditCheck; message: string; formula?: string; cells: Cell[] }
+  >();
+  const addGrouped = (
+    check: AuditCheck,
+    key: string,
+    cell: Cell,
+    message: string,
+    formula?: string,
+  ) => {
+    const id = `${check}|${key}`;
+    const group = grouped.get(id);
+    if (group) group.cells.push(cell);
+    else grouped.set(id, { check, message, formula, cells: [cell] });
+  };
+
+  // A neighbour pair counts when the cells on both sides share one formula
+  const neighbourPattern = (r: number, c: number) => {
+    const pairs: [Cell, Cell][] = [
+      [
+        { row: r, col: c - 1 },
+        { row: r, col: c + 1 },
+      ],
+      [
+        { row: r - 1, col: c },
+        { row: r + 1, col: c },
+      ],
+    ];
+    const patterns: { r1c1: string; like: Cell[] }[] = [];
+    for (const [a, b] of pairs) {
+      const pattern = r1c1At(a.row, a.col);
+      if (pattern && pattern === r1c1At(b.row, b.col)) {
+        patterns.push({ r1c1: pattern, like: [a, b] });
+      }
+    }
+    return patterns;
+  };
+
+  for (let r = 0; r < rows; r++) {
+    for (let c = 0; c < cols; c++) {
+      const cell = { row: r, col: c };
+      const value = grid.values[r]?.[c];
+      const formula = formulaAt(r, c);
+      const r1c1 = r1c1At(r, c);
+
+      if (
+        enabled.has("errors") &&
+        typeof value === "string" &&
+        ERROR_VALUE.test(value)
+      ) {
+        addGrouped("errors", value, cell, `${value} error`);
+      }
+
+      if (formula && enabled.has("hardcodedConstants")) {
+        const literals = extractNumberLiterals(formula);
+        if (literals.length > 0) {
+          addGrouped(
+            "hardcodedConstants",
+            r1c1 ?? formula,
+            cell,
+            `Hard-coded ${literals.join(", ")} in formula`,
+            formula,
+          );
+        }
+      }
+
+      if (formula && enabled.has("emptyReferences")) {
+        const empties = usage.emptyRefs.get(
+          `${grid.name}!${grid.startRow + r},${grid.startCol + c}`,
+        );
+        if (empties) {
+          addGrouped(
+            "emptyReferences",
+            `${r1c1 ?? formula}|${empties.join(",")}`,
+            cell,
+            `References empty cell ${empties.join(", ")}`,
+            formula,
+          );
+        }
+      }
+
+      if (
+        grid.formulasR1C1 &&
+        (enabled.has("inconsistentFormulas") ||
+          enabled.has("overwrittenFormulas"))
+      ) {
+        const patterns = neighbourPattern(r, c);
+        const like = patterns[0]?.like;
+        const example = like && formulaAt(like[0].row, like[0].col);
+        if (
+          r1c1 &&
+          like &&
+          enabled.has("inconsistentFormulas") &&
+          !patterns.some((p) => p.r1c1 === r1c1)
+        ) {
+          findings.push({
+            check: "inconsistentFormulas",
+            address: at(cell),
+            message: `Differs from ${at(like[0])} and ${at(like[1])}, which use ${example}`,
+            formula,
+          });
+        } else if (
+          !formula &&
+          typeof value === "number" &&
+          like &&
+          enabled.has("overwrittenFormulas")
+        ) {
+          findings.push({
+            check: "overwrittenFormulas",
+            address: at(cell),
+            message: `Typed value between formulas in ${at(like[0])} and ${at(like[1])} (${example})`,
+            value,
+          });
+        }
+      }
+    }
+  }
+
+  // Numeric constants nothing reads, on sheets that something reads from.
+  // Table data is left out: it's a dataset, not a set of assumptions.
+  const referenced = usage.referenced;
+  const inTable = (r: number, c: number) =>
+    usage.tables.some(
+      (t) =>
+        grid.startCol + c >= t.startCol &&
+        grid.startCol + c < t.startCol + t.columns.length &&
+        grid.startRow + r >= (t.headerRow ?? t.dataStartRow) &&
+        grid.startRow + r <= (t.totalsRow ?? t.dataEndRow),
+    );
+  if (enabled.has("unusedInputs") && referenced?.some((v) => v === 1)) {
+    const unused: Cell[] = [];
+    for (let r = 0; r < rows; r++) {
+      for (let c = 0; c < cols; c++) {
+        const value = grid.values[r]?.[c];
+        if (
+          typeof value === "number" &&
+          !isYear(value) &&
+          !formulaAt(r, c) &&
+          referenced[r * cols + c] === 0 &&
+          !inTable(r, c)
+        ) {
+          unused.push({ row: r, col: c });
+        }
+      }
+    }
+    for (const rect of coalesceCells(unused)) {
+      const count =
+        (rect.endRow - rect.startRow + 1) * (rect.endCol - rect.startCol + 1);
+      findings.push({
+        check: "unusedInputs",
+        address: rangeOf(rect),
+        message:
+          count === 1
+            ? "Input not referenced by any formula"
+            : `${count} inputs not referenced by any formula`,
+      });
+    }
+  }
+
+  for (const group of grouped.values()) {
+    for (const rect of coalesceCells(group.cells)) {
+      findings.push({
+        check: group.check,
+        address: rangeOf(rect),
+        message: group.message,
+        ...(group.formula && { formula: group.formula }),
+      });
+    }
+  }
+
+  return findings;
+}
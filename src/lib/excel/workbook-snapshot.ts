@@ -0,0 +1,133 @@
+/* global Excel */
+
+import type {
+  NameDefinition,
+  SheetGrid,
+  TableDefinition,
+  WorkbookSnapshot,
+} from "./dependency-trace";
+import { preloadSheetIds } from "./sheet-id-map";
+
+const MAX_SNAPSHOT_CELLS = 1_000_000;
+
+export interface LoadedWorkbookSnapshot {
+  snapshot: WorkbookSnapshot;
+  /** Stable sheet ID by sheet name, for citations */
+  sheetIds: Record<string, number>;
+  /** Sheets whose cells were left out to stay under the cell budget */
+  skippedSheets: string[];
+}
+
+/**
+ * Load the formulas and values of every sheet's used range, plus defined
+ * names and table layouts, for offline analysis.
+ */
+export async function loadWorkbookSnapshot(
+  context: Excel.RequestContext,
+  options: { formulasR1C1?: boolean } = {},
+): Promise<LoadedWorkbookSnapshot> {
+  const worksheets = context.workbook.worksheets;
+  worksheets.load("items/name,items/id");
+  await context.sync();
+
+  const idMap = await preloadSheetIds(worksheets.items);
+  const usedRanges = worksheets.items.map((sheet) => {
+    const used = sheet.getUsedRangeOrNullObject();
+    used.load("rowIndex,columnIndex,rowCount,columnCount");
+    return used;
+  });
+  await context.sync();
+
+  let budget = MAX_SNAPSHOT_CELLS;
+  const skippedSheets: string[] = [];
+  const loaded = usedRanges.map((used, i) => {
+    if (used.isNullObject) return null;
+    const cells = used.rowCount * used.columnCount;
+    if (cells > budget) {
+      skippedSheets.push(worksheets.items[i].name);
+      return null;
+    }
+    budget -= cells;
+    used.load(
+      options.formulasR1C1 ? "formulas,values,formulasR1C1" : "formulas,values",
+    );
+    return used;
+  });
+
+  const workbookNames = context.workbook.names;
+  workbookNames.load("items/name,items/formula");
+  const sheetNames = worksheets.items.map((sheet) => {
+    sheet.names.load("items/name,items/formula");
+    return sheet.names;
+  });
+  const tables = context.workbook.tables;
+  tables.load("items/name,items/showHeaders,items/showTotals");
+  await context.sync();
+
+  const tableRanges = tables.items.map((table) => {
+    table.worksheet.load("name");
+    table.columns.load("items/name");
+    const range = table.getRange();
+    range.load("rowIndex,columnIndex,rowCount");
+    return range;
+  });
+  await context.sync();
+
+  const sheets: SheetGrid[] = worksheets.items.map((sheet, i) => {
+    const used = loaded[i];
+    return used
+      ? {
+          name: sheet.name,
+          startRow: used.rowIndex,
+          startCol: used.columnIndex,
+          formulas: used.formulas,
+          values: used.values,
+          ...(options.formulasR1C1 && { formulasR1C1: used.formulasR1C1 }),
+        }
+      : {
+          name: sheet.name,
+          startRow: 0,
+          startCol: 0,
+          formulas: [],
+          values: [],
+          ...(skippedSheets.includes(sheet.name) && { skipped: true }),
+        };
+  });
+
+  const names: NameDefinition[] = [
+    ...workbookNames.items.map((n) => ({ name: n.name, formula: n.formula })),
+    ...sheetNames.flatMap((collection, i) =>
+      collection.items.map((n) => ({
+        name: n.name,
+        scope: worksheets.items[i].name,
+        formula: n.formula,
+      })),
+    ),
+  ];
+
+  const tableDefinitions: TableDefinition[] = tables.items.map((table, i) => {
+    const range = tableRanges[i];
+    const lastRow = range.rowIndex + range.rowCount - 1;
+    return {
+      name: table.name,
+      sheet: table.worksheet.name,
+      columns: table.columns.items.map((c) => c.name),
+      startCol: range.columnIndex,
+      headerRow: table.showHeaders ? range.rowIndex : undefined,
+      dataStartRow: range.rowIndex + (table.showHeaders ? 1 : 0),
+      dataEndRow: lastRow - (table.showTotals ? 1 : 0),
+      totalsRow: table.showTotals ? lastRow : undefined,
+    };
+  });
+
+  const sheetIds: Record<string, number> = {};
+  for (const sheet of worksheets.items) {
+    sheetIds[sheet.name] = idMap.get(sheet.id) ?? 0;
+  }
+
+  return {
+    snapshot: { sheets, names, tables: tableDefinitions },
+    sheetIds,
+    skippedSheets,
+  };
+}
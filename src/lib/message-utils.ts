@@ -53,6 +53,7 @@ export function stripEnrichment(
   }
   text = text.replace(/^<attachments>\n[\s\S]*?\n<\/attachments>\n\n/, "");
   text = text.replace(/^<wb_context>\n[\s\S]*?\n<\/wb_context>\n\n/, "");
+  text = text.replace(/^<user_changes>\n[\s\S]*?\n<\/user_changes>\n\n/, "");
   return text;
 }
 
@@ -11,6 +11,8 @@ export interface ProviderConfig {
   proxyUrl: string;
   thinking: ThinkingLevel;
   followMode: boolean;
+  /** Send the selected cells' contents with each message */
+  includeSelection: boolean;
   apiType?: string;
   customBaseUrl?: string;
   authMethod?: "apikey" | "oauth";
@@ -67,6 +69,9 @@ export function loadSavedConfig(): ProviderConfig | null {
       const config = JSON.parse(saved);
       if (config.proxyUrl === undefined) config.proxyUrl = "";
       if (config.followMode === undefined) config.followMode = true;
+      if (config.includeSelection === undefined) {
+        config.includeSelection = true;
+      }
       if (config.apiType === undefined) config.apiType = "";
       if (config.customBaseUrl === undefined) config.customBaseUrl = "";
       if (config.authMethod === undefined) config.authMethod = "apikey";
@@ -26,6 +26,25 @@ export interface SkillFile {
   data: Uint8Array;
 }
 
+export interface RangeSnapshot {
+  toolCallId: string;
+  toolName: string;
+  sheetId: number;
+  address: string; // A1 range without sheet prefix, "" if nothing to restore
+  clearAddress?: string; // cleared before restoring; "*" = used range at revert time
+  formulas: (string | number | boolean)[][];
+  numberFormat: string[][];
+}
+
+export interface TurnCheckpoint {
+  id: string;
+  sessionId: string;
+  createdAt: number;
+  snapshots: RangeSnapshot[];
+  skipped: string[]; // targets too large or unreadable to snapshot
+  revertedAt?: number;
+}
+
 interface OpenExcelSchema extends DBSchema {
   sessions: {
     key: string;
@@ -42,6 +61,11 @@ interface OpenExcelSchema extends DBSchema {
     value: SkillFile;
     indexes: { skillName: string };
   };
+  checkpoints: {
+    key: string;
+    value: TurnCheckpoint;
+    indexes: { sessionId: string };
+  };
 }
 
 let dbPromise: Promise<IDBPDatabase<OpenExcelSchema>> | null = null;
@@ -50,7 +74,7 @@ function getDb(): Promise<IDBPDatabase<OpenExcelSchema>> {
   if (!dbPromise) {
     // Dexie used version(3) which maps to IndexedDB version 30.
     // We must open at >=30 to be compatible with existing databases.
-    dbPromise = openDB<OpenExcelSchema>("OpenExcelDB_v3", 30, {
+    dbPromise = openDB<OpenExcelSchema>("OpenExcelDB_v3", 40, {
       upgrade(db, oldVersion) {
         if (oldVersion < 10) {
           const sessions = db.createObjectStore("sessions", { keyPath: "id" });
@@ -67,6 +91,12 @@ function getDb(): Promise<IDBPDatabase<OpenExcelSchema>> {
           });
           skillFiles.createIndex("skillName", "skillName");
         }
+        if (oldVersion < 40) {
+          const checkpoints = db.createObjectStore("checkpoints", {
+            keyPath: "id",
+          });
+          checkpoints.createIndex("sessionId", "sessionId");
+        }
       },
     });
   }
@@ -318,3 +348,29 @@ export async function listSkillNames(): Promise<string[]> {
   const names = new Set(rows.map((r) => r.skillName));
   return [...names].sort();
 }
+
+export async function saveCheckpoint(
+  checkpoint: TurnCheckpoint,
+): Promise<void> {
+  const db = await getDb();
+  await db.put("checkpoints", checkpoint);
+}
+
+export async function loadCheckpoints(
+  sessionId: string,
+): Promise<TurnCheckpoint[]> {
+  const db = await getDb();
+  const rows = await db.getAllFromIndex("checkpoints", "sessionId", sessionId);
+  rows.sort((a, b) => a.createdAt - b.createdAt);
+  return rows;
+}
+
+export async function deleteCheckpoints(sessionId: string): Promise<void> {
+  const db = await getDb();
+  const tx = db.transaction("checkpoints", "readwrite");
+  const keys = await tx.store.index("sessionId").getAllKeys(sessionId);
+  for (const key of keys) {
+    await tx.store.delete(key);
+  }
+  await tx.done;
+}
@@ -1,6 +1,12 @@
-export type { ChatSession, SkillFile } from "./db";
+export type {
+  ChatSession,
+  RangeSnapshot,
+  SkillFile,
+  TurnCheckpoint,
+} from "./db";
 export {
   createSession,
+  deleteCheckpoints,
   deleteSession,
   deleteSkillFiles,
   deleteVfsFiles,
@@ -11,9 +17,11 @@ export {
   listSessions,
   listSkillNames,
   loadAllSkillFiles,
+  loadCheckpoints,
   loadSkillFiles,
   loadVfsFiles,
   renameSession,
+  saveCheckpoint,
   saveSession,
   saveSkillFiles,
   saveVfsFiles,
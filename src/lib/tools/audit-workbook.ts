@@ -0,0 +1,57 @@
+import { Type } from "@sinclair/typebox";
+import { auditWorkbook } from "../excel/api";
+import { defineTool, toolError, toolSuccess } from "./types";
+
+export const auditWorkbookTool = defineTool({
+  name: "audit_workbook",
+  label: "Audit Workbook",
+  description:
+    "Review a model for common mistakes, grouped per sheet: error values (errors), formulas that differ " +
+    "from the neighbours on both sides (inconsistentFormulas), numbers typed into formulas " +
+    "(hardcodedConstants), numbers typed over a row/column of formulas (overwrittenFormulas), references " +
+    "to empty cells (emptyReferences) and numeric inputs no formula uses (unusedInputs). " +
+    "Copied formulas are reported once as a range. Addresses are on the finding's sheet, so cite them with " +
+    "its sheetId. Each check is capped per sheet; 'omitted' counts the rest.",
+  parameters: Type.Object({
+    sheetId: Type.Optional(
+      Type.Number({
+        description:
+          "Only report on this worksheet (references are still followed across sheets). Default: all sheets",
+      }),
+    ),
+    checks: Type.Optional(
+      Type.Array(
+        Type.Union([
+          Type.Literal("errors"),
+          Type.Literal("inconsistentFormulas"),
+          Type.Literal("hardcodedConstants"),
+          Type.Literal("overwrittenFormulas"),
+          Type.Literal("emptyReferences"),
+          Type.Literal("unusedInputs"),
+        ]),
+        { description: "Checks to run. Default: all" },
+      ),
+    ),
+    explanation: Type.Optional(
+      Type.String({
+        description: "Brief explanation (max 50 chars)",
+        maxLength: 50,
+      }),
+    ),
+  }),
+  execute: async (_toolCallId, params) => {
+    try {
+      const result = await auditWorkbook({
+        sheetId: params.sheetId,
+        checks: params.checks,
+      });
+      return toolSuccess(result);
+    } catch (error) {
+      const message =
+        error instanceof Error
+          ? error.message
+          : "Unknown error auditing workbook";
+      return toolError(message);
+    }
+  },
+});
@@ -0,0 +1,104 @@
+import { Type } from "@sinclair/typebox";
+import { type CompareSource, compareRanges } from "../excel/api";
+import { fileExists, readFile } from "../vfs";
+import { parseCsv } from "../vfs/custom-commands";
+import { defineTool, toolError, toolSuccess } from "./types";
+
+const SourceSchema = Type.Object({
+  sheetId: Type.Optional(
+    Type.Number({ description: "Worksheet ID (1-based index)" }),
+  ),
+  range: Type.Optional(
+    Type.String({
+      description: "Range in A1 notation. Default: the sheet's used range",
+    }),
+  ),
+  csv: Type.Optional(
+    Type.String({
+      description:
+        "CSV file instead of a range, absolute or relative to /home/user/uploads/",
+    }),
+  ),
+});
+
+async function resolveSource(source: {
+  sheetId?: number;
+  range?: string;
+  csv?: string;
+}): Promise<CompareSource> {
+  if (source.csv) {
+    const path = source.csv.startsWith("/")
+      ? source.csv
+      : `/home/user/uploads/${source.csv}`;
+    if (!(await fileExists(path))) throw new Error(`File not found: ${path}`);
+    return { label: path, values: parseCsv(await readFile(path)) };
+  }
+  if (source.sheetId === undefined) {
+    throw new Error("Each side needs a sheetId or a csv path");
+  }
+  return { sheetId: source.sheetId, range: source.range };
+}
+
+export const compareRangesTool = defineTool({
+  name: "compare_ranges",
+  label: "Compare Ranges",
+  description:
+    "Compare two ranges (on the same or different sheets) or a range against a CSV file and return " +
+    "cell-level differences in values, formulas and formats, with the cell address on each side. " +
+    "By default cells are matched by position. With keyColumns, the first row is treated as headers: " +
+    "rows are matched by key (e.g. SKU or account code) and columns by header name, and rows or columns " +
+    "present on only one side are listed separately. Numbers compare numerically, formulas compare in " +
+    "relative (R1C1) form so copies at another position match. Use this instead of reading both ranges.",
+  parameters: Type.Object({
+    left: SourceSchema,
+    right: SourceSchema,
+    keyColumns: Type.Optional(
+      Type.Array(Type.String(), {
+        description: "Header names identifying a row, e.g. ['Region', 'SKU']",
+      }),
+    ),
+    compareFormulas: Type.Optional(
+      Type.Boolean({ description: "Default: true" }),
+    ),
+    compareFormats: Type.Optional(
+      Type.Boolean({
+        description:
+          "Compare number format, bold, italic, font and fill colors. Default: false",
+      }),
+    ),
+    tolerance: Type.Optional(
+      Type.Number({
+        description: "Largest numeric difference treated as equal. Default: 0",
+      }),
+    ),
+    maxDifferences: Type.Optional(
+      Type.Number({ description: "Max differences listed. Default: 200" }),
+    ),
+    explanation: Type.Optional(
+      Type.String({
+        description: "Brief explanation (max 50 chars)",
+        maxLength: 50,
+      }),
+    ),
+  }),
+  execute: async (_toolCallId, params) => {
+    try {
+      const result = await compareRanges(
+        await resolveSource(params.left),
+        await resolveSource(params.right),
+        {
+          keyColumns: params.keyColumns,
+          compareFormulas: params.compareFormulas,
+          compareFormats: params.compareFormats,
+          tolerance: params.tolerance,
+          maxDifferences: params.maxDifferences,
+        },
+      );
+      return toolSuccess(result);
+    } catch (error) {
+      const message =
+        error instanceof Error ? error.message : "Unknown error comparing";
+      return toolError(message);
+    }
+  },
+});
@@ -1,4 +1,5 @@
 import { Type } from "@sinclair/typebox";
+import { captureWorkbookCheckpoint } from "../checkpoints";
 import type { DirtyRange } from "../dirty-tracker";
 import { createTrackedContext } from "../excel/tracked-context";
 import { sandboxedEval } from "../sandbox";
@@ -41,10 +42,15 @@ export const evalOfficeJsTool = defineTool({
       }),
     ),
   }),
-  execute: async (_toolCallId, params) => {
+  execute: async (toolCallId, params) => {
     try {
       let dirtyRanges: DirtyRange[] = [];
 
+      // Targets are unknown until the code runs, so snapshot every sheet
+      if (looksLikeMutation(params.code)) {
+        await captureWorkbookCheckpoint(toolCallId, "eval_officejs");
+      }
+
       const result = await Excel.run(async (context) => {
         const { trackedContext, getDirtyRanges } =
           createTrackedContext(context);
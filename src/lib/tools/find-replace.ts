@@ -0,0 +1,82 @@
+import { Type } from "@sinclair/typebox";
+import { captureWorkbookCheckpoint } from "../checkpoints";
+import { type FindReplaceResult, findReplace } from "../excel/api";
+import { defineTool, toolError, toolSuccess } from "./types";
+
+export const findReplaceTool = defineTool({
+  name: "find_replace",
+  label: "Find and Replace",
+  description:
+    "Find and replace text in cell values or formulas, in a range, a sheet or the whole workbook. " +
+    "Run with apply=false first: it returns every would-be change with its before/after text (paged) " +
+    "without writing anything. Show the user the changes, then rerun with apply=true to write them all. " +
+    "With matchFormulas, formulas are rewritten (e.g. renaming a sheet reference); without it, formula " +
+    "cells are never changed and are listed in skippedFormulaResults. " +
+    "In regex mode the replacement can use $1, $2 for captured groups.",
+  parameters: Type.Object({
+    searchTerm: Type.String({
+      description: "Text or regex pattern to find",
+    }),
+    replacement: Type.String({ description: "Replacement text" }),
+    apply: Type.Boolean({
+      description: "false: preview changes only. true: write them",
+    }),
+    sheetId: Type.Optional(
+      Type.Number({ description: "Limit to one sheet. Default: all sheets" }),
+    ),
+    range: Type.Optional(
+      Type.String({ description: "Limit to a range, e.g. 'A1:Z100'" }),
+    ),
+    matchCase: Type.Optional(
+      Type.Boolean({ description: "Case sensitive. Default: false" }),
+    ),
+    matchEntireCell: Type.Optional(
+      Type.Boolean({
+        description: "Match entire cell content. Default: false",
+      }),
+    ),
+    matchFormulas: Type.Optional(
+      Type.Boolean({
+        description: "Search and replace inside formulas. Default: false",
+      }),
+    ),
+    useRegex: Type.Optional(
+      Type.Boolean({ description: "Use regex pattern. Default: false" }),
+    ),
+    offset: Type.Optional(
+      Type.Number({ description: "Pagination offset for listed changes" }),
+    ),
+    maxResults: Type.Optional(
+      Type.Number({ description: "Max changes listed. Default: 200" }),
+    ),
+    explanation: Type.Optional(
+      Type.String({
+        description: "Brief explanation (max 50 chars)",
+        maxLength: 50,
+      }),
+    ),
+  }),
+  dirtyTracking: {
+    getRanges: (p, result) => {
+      if (result) return (result as FindReplaceResult).changedRanges ?? [];
+      if (!p.apply || !p.sheetId) return [];
+      return [{ sheetId: p.sheetId, range: p.range || "*" }];
+    },
+  },
+  execute: async (toolCallId, params) => {
+    try {
+      // Workbook-wide targets are only known after searching
+      if (params.apply && !params.sheetId) {
+        await captureWorkbookCheckpoint(toolCallId, "find_replace");
+      }
+      const result = await findReplace(params);
+      return toolSuccess(result);
+    } catch (error) {
+      const message =
+        error instanceof Error
+          ? error.message
+          : "Unknown error in find and replace";
+      return toolError(message);
+    }
+  },
+});
@@ -0,0 +1,132 @@
+import { Type } from "@sinclair/typebox";
+import { applyFormatConvention, modifyFormatConvention } from "../excel/api";
+import { defineTool, toolError, toolSuccess } from "./types";
+
+const RoleLiteral = Type.Union([
+  Type.Literal("input"),
+  Type.Literal("formula"),
+  Type.Literal("crossSheet"),
+  Type.Literal("external"),
+]);
+
+const NumberFormatKindLiteral = Type.Union([
+  Type.Literal("currency"),
+  Type.Literal("percent"),
+  Type.Literal("multiple"),
+  Type.Literal("number"),
+]);
+
+const RoleStyleSchema = Type.Union([
+  Type.Object({
+    fontColor: Type.Optional(Type.String({ description: "e.g. '#0000FF'" })),
+    fillColor: Type.Optional(Type.String()),
+    bold: Type.Optional(Type.Boolean()),
+    italic: Type.Optional(Type.Boolean()),
+  }),
+  Type.Null(),
+]);
+
+const ConventionSchema = Type.Object(
+  {
+    roles: Type.Optional(
+      Type.Object({
+        input: Type.Optional(RoleStyleSchema),
+        formula: Type.Optional(RoleStyleSchema),
+        crossSheet: Type.Optional(RoleStyleSchema),
+        external: Type.Optional(RoleStyleSchema),
+      }),
+    ),
+    numberFormats: Type.Optional(
+      Type.Object({
+        currency: Type.Optional(Type.Union([Type.String(), Type.Null()])),
+        percent: Type.Optional(Type.Union([Type.String(), Type.Null()])),
+        multiple: Type.Optional(Type.Union([Type.String(), Type.Null()])),
+        number: Type.Optional(Type.Union([Type.String(), Type.Null()])),
+      }),
+    ),
+  },
+  {
+    description:
+      "Changes merged into the saved convention; null removes a role style or format",
+  },
+);
+
+export const formatConventionsTool = defineTool({
+  name: "format_conventions",
+  label: "Formatting Conventions",
+  description:
+    "Apply financial-model formatting conventions. Cells are classified as input (typed-in numbers), " +
+    "formula, crossSheet (formula reading another sheet) or external (formula reading another workbook); " +
+    "text and empty cells are left alone. The workbook's convention (default: blue inputs, black formulas, " +
+    "green cross-sheet links, red external links, plus currency/percent/multiple/number formats) is saved " +
+    "in the workbook and reused across sessions. Operations: 'get' shows the convention, 'set' merges " +
+    "changes into it, 'reset' restores the default, 'preview' classifies a range without writing, " +
+    "'apply' styles it. numberFormat applies one kind to every numeric cell; normalizeNumberFormats swaps " +
+    "recognised existing formats for the convention's version.",
+  parameters: Type.Object({
+    operation: Type.Union([
+      Type.Literal("get"),
+      Type.Literal("set"),
+      Type.Literal("reset"),
+      Type.Literal("preview"),
+      Type.Literal("apply"),
+    ]),
+    sheetId: Type.Optional(
+      Type.Number({ description: "Worksheet ID for preview/apply" }),
+    ),
+    range: Type.Optional(
+      Type.String({ description: "Range in A1 notation. Default: used range" }),
+    ),
+    convention: Type.Optional(ConventionSchema),
+    roles: Type.Optional(
+      Type.Array(RoleLiteral, {
+        description: "Only style these roles. Default: all",
+      }),
+    ),
+    numberFormat: Type.Optional(NumberFormatKindLiteral),
+    normalizeNumberFormats: Type.Optional(
+      Type.Boolean({ description: "Default: false" }),
+    ),
+    explanation: Type.Optional(
+      Type.String({
+        description: "Brief explanation (max 50 chars)",
+        maxLength: 50,
+      }),
+    ),
+  }),
+  dirtyTracking: {
+    getRanges: (p) =>
+      p.operation === "apply" && p.sheetId
+        ? [{ sheetId: p.sheetId, range: p.range || "*" }]
+        : [],
+  },
+  execute: async (_toolCallId, params) => {
+    try {
+      if (params.operation === "preview" || params.operation === "apply") {
+        if (params.sheetId === undefined) {
+          throw new Error(`${params.operation} requires sheetId`);
+        }
+        const result = await applyFormatConvention({
+          sheetId: params.sheetId,
+          range: params.range,
+          apply: params.operation === "apply",
+          roles: params.roles,
+          numberFormat: params.numberFormat,
+          normalizeNumberFormats: params.normalizeNumberFormats,
+        });
+        return toolSuccess(result);
+      }
+      const result = await modifyFormatConvention({
+        operation: params.operation,
+        convention: params.convention,
+      });
+      return toolSuccess(result);
+    } catch (error) {
+      const message =
+        error instanceof Error
+          ? error.message
+          : "Unknown error applying formatting conventions";
+      return toolError(message);
+    }
+  },
+});
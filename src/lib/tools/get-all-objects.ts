@@ -6,7 +6,10 @@ export const getAllObjectsTool = defineTool({
   name: "get_all_objects",
   label: "Get All Objects",
   description:
-    "List all charts, pivot tables, and other objects in the workbook. " +
+    "List all charts, pivot tables, tables, conditional formatting rules, named ranges, shapes, images and other objects in the workbook. " +
+    "Charts include their type, title, legend, size, axes and each series' type and source ranges. " +
+    "Pivot tables include their source, row/column/value/filter fields, active field filters, layout and totals. " +
+    "Shapes include their type, text, position and size in points. " +
     "Use this to discover what visualizations exist before modifying them.",
   parameters: Type.Object({
     sheetId: Type.Optional(
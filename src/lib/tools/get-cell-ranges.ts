@@ -7,7 +7,11 @@ export const getCellRangesTool = defineTool({
   label: "Get Cell Ranges",
   description:
     "Read cell values, formulas, and formatting from specified ranges in a worksheet. " +
-    "Returns cells as a sparse object with A1-notation keys. " +
+    "Returns cells as a sparse object with A1-notation keys, plus any merged areas (only their top-left cell " +
+    "holds a value), data validation rules, hyperlinks, notes and threaded comments (with replies, " +
+    "authors and resolved state) in the ranges. " +
+    "With styles, also returns per-cell font, fill, alignment, wrap, indent and number format, borders " +
+    "(same shape as set_cell_range borderStyles; dash-dot styles read as dashed, hairlines as thin), column widths and non-standard row heights in points. " +
     "Use this to inspect data before modifying it.",
   parameters: Type.Object({
     sheetId: Type.Number({ description: "The worksheet ID (1-based index)" }),
@@ -16,7 +20,8 @@ export const getCellRangesTool = defineTool({
     }),
     includeStyles: Type.Optional(
       Type.Boolean({
-        description: "Include font/fill styling info. Default: true",
+        description:
+          "Include styling, borders and column/row sizes. Default: true",
         default: true,
       }),
     ),
@@ -37,6 +42,7 @@ export const getCellRangesTool = defineTool({
     try {
       const result = await getCellRanges(params.sheetId, params.ranges, {
         includeStyles: params.includeStyles,
+        includeDataValidation: true,
         cellLimit: params.cellLimit,
       });
       return toolSuccess(result);
@@ -0,0 +1,87 @@
+import { Type } from "@sinclair/typebox";
+import { goalSeek } from "../excel/api";
+import { defineTool, toolError, toolSuccess } from "./types";
+
+const CellSchema = {
+  sheetId: Type.Number({ description: "Worksheet ID (1-based index)" }),
+  cell: Type.String({ description: "Single cell in A1 notation, e.g. 'B4'" }),
+};
+
+export const goalSeekTool = defineTool({
+  name: "goal_seek",
+  label: "Goal Seek",
+  description:
+    "Find the input values that make a formula reach a goal, like Excel's Goal Seek and a simple Solver. " +
+    "The tool writes the changing cells, lets Excel recalculate and reads the objective cell, repeating " +
+    "until the goal is met. With one changing cell and goal 'value' it uses secant/bisection root finding; " +
+    "with several changing cells, goal 'min'/'max' or constraints it runs a bounded simplex search. " +
+    "Changing cells must hold numbers, not formulas. On success the solution is left in the changing cells; " +
+    "if no solution is found (or constraints can't be met) the original inputs are restored and the " +
+    "closest point found is reported. Use this instead of guessing input values by hand.",
+  parameters: Type.Object({
+    changingCells: Type.Array(
+      Type.Object({
+        ...CellSchema,
+        min: Type.Optional(Type.Number({ description: "Lower bound" })),
+        max: Type.Optional(Type.Number({ description: "Upper bound" })),
+      }),
+      { description: "Input cells to vary", minItems: 1 },
+    ),
+    objective: Type.Object({
+      ...CellSchema,
+      goal: Type.Union(
+        [Type.Literal("value"), Type.Literal("min"), Type.Literal("max")],
+        { description: "'value' to hit a target, or 'min'/'max'" },
+      ),
+      value: Type.Optional(
+        Type.Number({ description: "Target value (goal 'value')" }),
+      ),
+    }),
+    constraints: Type.Optional(
+      Type.Array(
+        Type.Object({
+          ...CellSchema,
+          operator: Type.Union([
+            Type.Literal("<="),
+            Type.Literal(">="),
+            Type.Literal("="),
+          ]),
+          value: Type.Number(),
+        }),
+        { description: "Conditions other cells must satisfy" },
+      ),
+    ),
+    tolerance: Type.Optional(
+      Type.Number({
+        description:
+          "Acceptable error relative to max(1, |target|), and to each constraint's bound likewise. Default: 1e-7",
+      }),
+    ),
+    maxIterations: Type.Optional(
+      Type.Number({
+        description:
+          "Max recalculations. Default: 100 (single cell), 200 (multi-variable)",
+      }),
+    ),
+    explanation: Type.Optional(
+      Type.String({
+        description: "Brief explanation (max 50 chars)",
+        maxLength: 50,
+      }),
+    ),
+  }),
+  dirtyTracking: {
+    getRanges: (p) =>
+      p.changingCells.map((c) => ({ sheetId: c.sheetId, range: c.cell })),
+  },
+  execute: async (_toolCallId, params) => {
+    try {
+      const result = await goalSeek(params);
+      return toolSuccess(result);
+    } catch (error) {
+      const message =
+        error instanceof Error ? error.message : "Unknown error in goal seek";
+      return toolError(message);
+    }
+  },
+});
@@ -1,18 +1,32 @@
-export { bashTool } from "./bash";
+export { auditWorkbookTool } from "./audit-workbook";
+export { bashTool, readOnlyBashTool } from "./bash";
 export { clearCellRangeTool } from "./clear-cell-range";
+export { compareRangesTool } from "./compare-ranges";
 export { copyToTool } from "./copy-to";
 export { evalOfficeJsTool } from "./eval-officejs";
+export { findReplaceTool } from "./find-replace";
+export { formatConventionsTool } from "./format-conventions";
 export { getAllObjectsTool } from "./get-all-objects";
 export { getCellRangesTool } from "./get-cell-ranges";
 export { getRangeAsCsvTool } from "./get-range-as-csv";
+export { goalSeekTool } from "./goal-seek";
+export { modifyConditionalFormatTool } from "./modify-conditional-format";
+export { modifyDataValidationTool } from "./modify-data-validation";
 export { modifyObjectTool } from "./modify-object";
+export { modifyPageLayoutTool } from "./modify-page-layout";
+export { modifySheetProtectionTool } from "./modify-sheet-protection";
 export { modifySheetStructureTool } from "./modify-sheet-structure";
 export { modifyWorkbookStructureTool } from "./modify-workbook-structure";
 export { readTool } from "./read-file";
 export { resizeRangeTool } from "./resize-range";
 export { screenshotRangeTool } from "./screenshot-range";
 export { searchDataTool } from "./search-data";
+export { sensitivityTableTool } from "./sensitivity-table";
 export { setCellRangeTool } from "./set-cell-range";
+export { simulateTool } from "./simulate";
+export { sortFilterRangeTool } from "./sort-filter-range";
+export { type SubmittedPlan, submitPlanTool } from "./submit-plan";
+export { traceDependenciesTool } from "./trace-dependencies";
 export {
   defineTool,
   type ToolResult,
@@ -21,21 +35,35 @@ export {
   toolText,
 } from "./types";
 
-import { bashTool } from "./bash";
+import { auditWorkbookTool } from "./audit-workbook";
+import { bashTool, readOnlyBashTool } from "./bash";
 import { clearCellRangeTool } from "./clear-cell-range";
+import { compareRangesTool } from "./compare-ranges";
 import { copyToTool } from "./copy-to";
 import { evalOfficeJsTool } from "./eval-officejs";
+import { findReplaceTool } from "./find-replace";
+import { formatConventionsTool } from "./format-conventions";
 import { getAllObjectsTool } from "./get-all-objects";
 import { getCellRangesTool } from "./get-cell-ranges";
 import { getRangeAsCsvTool } from "./get-range-as-csv";
+import { goalSeekTool } from "./goal-seek";
+import { modifyConditionalFormatTool } from "./modify-conditional-format";
+import { modifyDataValidationTool } from "./modify-data-validation";
 import { modifyObjectTool } from "./modify-object";
+import { modifyPageLayoutTool } from "./modify-page-layout";
+import { modifySheetProtectionTool } from "./modify-sheet-protection";
 import { modifySheetStructureTool } from "./modify-sheet-structure";
 import { modifyWorkbookStructureTool } from "./modify-workbook-structure";
 import { readTool } from "./read-file";
 import { resizeRangeTool } from "./resize-range";
 import { screenshotRangeTool } from "./screenshot-range";
 import { searchDataTool } from "./search-data";
+import { sensitivityTableTool } from "./sensitivity-table";
 import { setCellRangeTool } from "./set-cell-range";
+import { simulateTool } from "./simulate";
+import { sortFilterRangeTool } from "./sort-filter-range";
+import { submitPlanTool } from "./submit-plan";
+import { traceDependenciesTool } from "./trace-dependencies";
 
 export const EXCEL_TOOLS = [
   // fs tools
@@ -47,13 +75,41 @@ export const EXCEL_TOOLS = [
   searchDataTool,
   screenshotRangeTool,
   getAllObjectsTool,
+  traceDependenciesTool,
+  auditWorkbookTool,
+  compareRangesTool,
   // Excel write tools
   setCellRangeTool,
   clearCellRangeTool,
   copyToTool,
+  findReplaceTool,
   modifySheetStructureTool,
   modifyWorkbookStructureTool,
   resizeRangeTool,
   modifyObjectTool,
+  modifyConditionalFormatTool,
+  modifyDataValidationTool,
+  sortFilterRangeTool,
+  modifySheetProtectionTool,
+  modifyPageLayoutTool,
+  formatConventionsTool,
+  goalSeekTool,
+  sensitivityTableTool,
+  simulateTool,
   evalOfficeJsTool,
 ];
+
+/** Plan mode: investigate read-only, then submit_plan for the user to approve */
+export const PLAN_MODE_TOOLS = [
+  readTool,
+  readOnlyBashTool,
+  getCellRangesTool,
+  getRangeAsCsvTool,
+  searchDataTool,
+  screenshotRangeTool,
+  getAllObjectsTool,
+  traceDependenciesTool,
+  auditWorkbookTool,
+  compareRangesTool,
+  submitPlanTool,
+];
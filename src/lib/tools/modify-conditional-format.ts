@@ -0,0 +1,206 @@
+import { Type } from "@sinclair/typebox";
+import { modifyConditionalFormat } from "../excel/api";
+import { defineTool, toolError, toolSuccess } from "./types";
+
+const ThresholdTypeSchema = Type.Union([
+  Type.Literal("number"),
+  Type.Literal("percent"),
+  Type.Literal("percentile"),
+  Type.Literal("formula"),
+]);
+
+const ColorScalePointSchema = Type.Object({
+  type: Type.Union([
+    Type.Literal("lowestValue"),
+    Type.Literal("highestValue"),
+    Type.Literal("number"),
+    Type.Literal("percent"),
+    Type.Literal("percentile"),
+    Type.Literal("formula"),
+  ]),
+  value: Type.Optional(
+    Type.String({
+      description:
+        "Number or formula, e.g. '50' or '=$B$1'. Not for lowest/highest",
+    }),
+  ),
+  color: Type.String({ description: "Hex color, e.g. '#F8696B'" }),
+});
+
+const DataBarBoundSchema = Type.Object({
+  type: Type.Union([
+    Type.Literal("automatic"),
+    Type.Literal("lowestValue"),
+    Type.Literal("highestValue"),
+    Type.Literal("number"),
+    Type.Literal("percent"),
+    Type.Literal("percentile"),
+    Type.Literal("formula"),
+  ]),
+  value: Type.Optional(Type.String()),
+});
+
+const PropertiesSchema = Type.Object({
+  cellValue: Type.Optional(
+    Type.Object(
+      {
+        operator: Type.Union([
+          Type.Literal("between"),
+          Type.Literal("notBetween"),
+          Type.Literal("equalTo"),
+          Type.Literal("notEqualTo"),
+          Type.Literal("greaterThan"),
+          Type.Literal("lessThan"),
+          Type.Literal("greaterThanOrEqual"),
+          Type.Literal("lessThanOrEqual"),
+        ]),
+        formula1: Type.String({ description: "e.g. '100' or '=$B$1'" }),
+        formula2: Type.Optional(
+          Type.String({ description: "Upper bound for between/notBetween" }),
+        ),
+      },
+      { description: "Rule for cellValue" },
+    ),
+  ),
+  formula: Type.Optional(
+    Type.String({
+      description:
+        "Rule for custom: formula relative to the range's top-left cell, e.g. '=$C2>$D2'",
+    }),
+  ),
+  format: Type.Optional(
+    Type.Object(
+      {
+        fontColor: Type.Optional(Type.String()),
+        fillColor: Type.Optional(Type.String()),
+        bold: Type.Optional(Type.Boolean()),
+        italic: Type.Optional(Type.Boolean()),
+      },
+      { description: "Format applied when a cellValue/custom rule matches" },
+    ),
+  ),
+  colorScale: Type.Optional(
+    Type.Object({
+      minimum: ColorScalePointSchema,
+      midpoint: Type.Optional(ColorScalePointSchema),
+      maximum: ColorScalePointSchema,
+    }),
+  ),
+  dataBar: Type.Optional(
+    Type.Object({
+      color: Type.Optional(Type.String({ description: "Positive bar color" })),
+      negativeColor: Type.Optional(Type.String()),
+      gradient: Type.Optional(Type.Boolean()),
+      showValue: Type.Optional(
+        Type.Boolean({ description: "false shows the bar only" }),
+      ),
+      direction: Type.Optional(
+        Type.Union([
+          Type.Literal("context"),
+          Type.Literal("leftToRight"),
+          Type.Literal("rightToLeft"),
+        ]),
+      ),
+      lowerBound: Type.Optional(DataBarBoundSchema),
+      upperBound: Type.Optional(DataBarBoundSchema),
+    }),
+  ),
+  iconSet: Type.Optional(
+    Type.Object({
+      style: Type.String({
+        description:
+          "Icon set, e.g. threeArrows, threeTrafficLights1, threeSymbols, fourRating, fiveArrows, threeStars",
+      }),
+      reverse: Type.Optional(Type.Boolean()),
+      showIconOnly: Type.Optional(Type.Boolean()),
+      thresholds: Type.Optional(
+        Type.Array(
+          Type.Object({
+            type: ThresholdTypeSchema,
+            operator: Type.Optional(
+              Type.Union([
+                Type.Literal("greaterThan"),
+                Type.Literal("greaterThanOrEqual"),
+              ]),
+            ),
+            value: Type.String(),
+          }),
+          {
+            description:
+              "Lower bounds of the 2nd..nth icons (one fewer than icons in the set)",
+          },
+        ),
+      ),
+    }),
+  ),
+  priority: Type.Optional(Type.Number({ description: "0 is evaluated first" })),
+  stopIfTrue: Type.Optional(Type.Boolean()),
+});
+
+export const modifyConditionalFormatTool = defineTool({
+  name: "modify_conditional_format",
+  label: "Modify Conditional Format",
+  description:
+    "Create, update, or delete conditional formatting rules. " +
+    "Rule types: colorScale (2 or 3 colors), dataBar, iconSet, " +
+    "cellValue (compare to a value, with format), custom (formula, with format). " +
+    "Existing rules and their IDs are listed by get_all_objects (type conditionalFormat).",
+  parameters: Type.Object({
+    operation: Type.Union(
+      [Type.Literal("create"), Type.Literal("update"), Type.Literal("delete")],
+      { description: "Operation to perform" },
+    ),
+    sheetId: Type.Number({ description: "The worksheet ID (1-based index)" }),
+    range: Type.Optional(
+      Type.String({ description: "Range to format (required for create)" }),
+    ),
+    id: Type.Optional(
+      Type.String({ description: "Rule ID (required for update/delete)" }),
+    ),
+    ruleType: Type.Optional(
+      Type.Union(
+        [
+          Type.Literal("colorScale"),
+          Type.Literal("dataBar"),
+          Type.Literal("iconSet"),
+          Type.Literal("cellValue"),
+          Type.Literal("custom"),
+        ],
+        { description: "Rule type (required for create)" },
+      ),
+    ),
+    properties: Type.Optional(PropertiesSchema),
+    explanation: Type.Optional(
+      Type.String({
+        description: "Brief explanation (max 50 chars)",
+        maxLength: 50,
+      }),
+    ),
+  }),
+  dirtyTracking: {
+    getRanges: (p, result) => {
+      const range =
+        p.range || (result as { range?: string } | undefined)?.range;
+      return range ? [{ sheetId: p.sheetId, range }] : [];
+    },
+  },
+  execute: async (_toolCallId, params) => {
+    try {
+      const result = await modifyConditionalFormat({
+        operation: params.operation,
+        sheetId: params.sheetId,
+        range: params.range,
+        id: params.id,
+        ruleType: params.ruleType,
+        properties: params.properties,
+      });
+      return toolSuccess(result);
+    } catch (error) {
+      const message =
+        error instanceof Error
+          ? error.message
+          : "Unknown error modifying conditional format";
+      return toolError(message);
+    }
+  },
+});
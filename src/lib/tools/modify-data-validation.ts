@@ -0,0 +1,139 @@
+import { Type } from "@sinclair/typebox";
+import { modifyDataValidation } from "../excel/api";
+import { defineTool, toolError, toolSuccess } from "./types";
+
+const ValidationSchema = Type.Object({
+  type: Type.Union([
+    Type.Literal("list"),
+    Type.Literal("wholeNumber"),
+    Type.Literal("decimal"),
+    Type.Literal("date"),
+    Type.Literal("time"),
+    Type.Literal("textLength"),
+    Type.Literal("custom"),
+  ]),
+  operator: Type.Optional(
+    Type.Union(
+      [
+        Type.Literal("between"),
+        Type.Literal("notBetween"),
+        Type.Literal("equalTo"),
+        Type.Literal("notEqualTo"),
+        Type.Literal("greaterThan"),
+        Type.Literal("lessThan"),
+        Type.Literal("greaterThanOrEqualTo"),
+        Type.Literal("lessThanOrEqualTo"),
+      ],
+      { description: "For number, date, time and textLength rules" },
+    ),
+  ),
+  formula1: Type.Optional(
+    Type.Union([Type.String(), Type.Number()], {
+      description:
+        "Bound or value to compare with: number, ISO date ('2025-01-31'), or formula ('=$B$1')",
+    }),
+  ),
+  formula2: Type.Optional(
+    Type.Union([Type.String(), Type.Number()], {
+      description: "Upper bound for between/notBetween",
+    }),
+  ),
+  values: Type.Optional(
+    Type.Array(Type.String(), {
+      description: "List rule: allowed values (no commas)",
+    }),
+  ),
+  source: Type.Optional(
+    Type.String({
+      description:
+        "List rule: range with allowed values, e.g. '$A$1:$A$10' or 'Lists!$A$2:$A$20'",
+    }),
+  ),
+  inCellDropDown: Type.Optional(
+    Type.Boolean({ description: "List rule: show dropdown. Default: true" }),
+  ),
+  formula: Type.Optional(
+    Type.String({
+      description:
+        "Custom rule: formula relative to the range's top-left cell that must be TRUE, e.g. '=ISNUMBER(A2)'",
+    }),
+  ),
+  ignoreBlanks: Type.Optional(Type.Boolean()),
+  inputMessage: Type.Optional(
+    Type.Object(
+      {
+        title: Type.Optional(Type.String()),
+        message: Type.String(),
+      },
+      { description: "Message shown when the cell is selected" },
+    ),
+  ),
+  errorAlert: Type.Optional(
+    Type.Object(
+      {
+        show: Type.Optional(
+          Type.Boolean({
+            description: "false accepts invalid input silently. Default: true",
+          }),
+        ),
+        style: Type.Optional(
+          Type.Union(
+            [
+              Type.Literal("stop"),
+              Type.Literal("warning"),
+              Type.Literal("information"),
+            ],
+            { description: "stop rejects invalid input. Default: stop" },
+          ),
+        ),
+        title: Type.Optional(Type.String()),
+        message: Type.Optional(Type.String()),
+      },
+      { description: "Alert shown on invalid input" },
+    ),
+  ),
+});
+
+export const modifyDataValidationTool = defineTool({
+  name: "modify_data_validation",
+  label: "Modify Data Validation",
+  description:
+    "Set or clear data validation on a range: dropdown lists (literal values or a source range), " +
+    "whole/decimal number bounds, date/time ranges, text length, and custom formulas, " +
+    "with optional input and error messages. Setting replaces any existing rule on the range. " +
+    "Existing rules are returned by get_cell_ranges under dataValidation.",
+  parameters: Type.Object({
+    operation: Type.Union([Type.Literal("set"), Type.Literal("clear")], {
+      description: "Operation to perform",
+    }),
+    sheetId: Type.Number({ description: "The worksheet ID (1-based index)" }),
+    range: Type.String({ description: "Range in A1 notation, e.g. 'B2:B100'" }),
+    validation: Type.Optional(ValidationSchema),
+    explanation: Type.Optional(
+      Type.String({
+        description: "Brief explanation (max 50 chars)",
+        maxLength: 50,
+      }),
+    ),
+  }),
+  dirtyTracking: {
+    getRanges: (p) => [{ sheetId: p.sheetId, range: p.range }],
+  },
+  execute: async (_toolCallId, params) => {
+    try {
+      const result = await modifyDataValidation({
+        operation: params.operation,
+        sheetId: params.sheetId,
+        range: params.range,
+        validation: params.validation,
+      });
+      return toolSuccess(result);
+    } catch (error) {
+      const message =
+        error instanceof Error
+          ? error.message
+          : "Unknown error modifying data validation";
+      return toolError(message);
+    }
+  },
+});
@@ -1,5 +1,6 @@
 import { Type } from "@sinclair/typebox";
 import { modifyObject } from "../excel/api";
+import { fileExists, getFileType, readFileBuffer, toBase64 } from "../vfs";
 import { defineTool, toolError, toolSuccess } from "./types";
 
 const PivotFieldSchema = Type.Object({
@@ -11,45 +12,403 @@ const PivotFieldSchema = Type.Object({
       Type.Literal("average"),
       Type.Literal("max"),
       Type.Literal("min"),
+      Type.Literal("product"),
+      Type.Literal("countNumbers"),
+      Type.Literal("standardDeviation"),
+      Type.Literal("standardDeviationP"),
+      Type.Literal("variance"),
+      Type.Literal("varianceP"),
     ]),
   ),
+  name: Type.Optional(
+    Type.String({ description: "Display name, e.g. 'Total Sales'" }),
+  ),
+  numberFormat: Type.Optional(Type.String({ description: "e.g. '#,##0'" })),
+  showAs: Type.Optional(
+    Type.Object({
+      calculation: Type.Union([
+        Type.Literal("none"),
+        Type.Literal("percentOfGrandTotal"),
+        Type.Literal("percentOfRowTotal"),
+        Type.Literal("percentOfColumnTotal"),
+        Type.Literal("percentOfParentRowTotal"),
+        Type.Literal("percentOfParentColumnTotal"),
+        Type.Literal("percentOfParentTotal"),
+        Type.Literal("percentOf"),
+        Type.Literal("runningTotal"),
+        Type.Literal("percentRunningTotal"),
+        Type.Literal("differenceFrom"),
+        Type.Literal("percentDifferenceFrom"),
+        Type.Literal("rankAscending"),
+        Type.Literal("rankDecending"),
+        Type.Literal("index"),
+      ]),
+      baseField: Type.Optional(
+        Type.String({
+          description:
+            "Row/column field for running totals, parent totals, percentOf and differenceFrom",
+        }),
+      ),
+      baseItem: Type.Optional(
+        Type.String({ description: "Item of baseField to compare against" }),
+      ),
+    }),
+  ),
+});
+
+const PivotFieldFilterSchema = Type.Object({
+  field: Type.String({ description: "Row, column or filter field" }),
+  items: Type.Optional(
+    Type.Array(Type.String(), { description: "Manual filter: items to show" }),
+  ),
+  label: Type.Optional(
+    Type.Object({
+      condition: Type.Union([
+        Type.Literal("equals"),
+        Type.Literal("beginsWith"),
+        Type.Literal("endsWith"),
+        Type.Literal("contains"),
+        Type.Literal("greaterThan"),
+        Type.Literal("greaterThanOrEqualTo"),
+        Type.Literal("lessThan"),
+        Type.Literal("lessThanOrEqualTo"),
+        Type.Literal("between"),
+      ]),
+      value: Type.Optional(Type.String()),
+      lowerBound: Type.Optional(Type.String()),
+      upperBound: Type.Optional(Type.String()),
+      exclusive: Type.Optional(
+        Type.Boolean({ description: "Invert the condition" }),
+      ),
+    }),
+  ),
+  value: Type.Optional(
+    Type.Object({
+      condition: Type.Union([
+        Type.Literal("equals"),
+        Type.Literal("greaterThan"),
+        Type.Literal("greaterThanOrEqualTo"),
+        Type.Literal("lessThan"),
+        Type.Literal("lessThanOrEqualTo"),
+        Type.Literal("between"),
+        Type.Literal("topN"),
+        Type.Literal("bottomN"),
+      ]),
+      dataField: Type.String({
+        description: "Values field to compare, e.g. 'Sum of Sales'",
+      }),
+      value: Type.Optional(
+        Type.Number({ description: "Comparison value, or N for topN/bottomN" }),
+      ),
+      lowerBound: Type.Optional(Type.Number()),
+      upperBound: Type.Optional(Type.Number()),
+      selectionType: Type.Optional(
+        Type.Union(
+          [Type.Literal("items"), Type.Literal("percent"), Type.Literal("sum")],
+          { description: "topN/bottomN unit. Default: items" },
+        ),
+      ),
+      exclusive: Type.Optional(
+        Type.Boolean({ description: "Invert the condition" }),
+      ),
+    }),
+  ),
+  clear: Type.Optional(
+    Type.Boolean({ description: "Remove all filters on the field" }),
+  ),
+});
+
+const CellValueSchema = Type.Union([
+  Type.String(),
+  Type.Number(),
+  Type.Boolean(),
+]);
+
+const TableTotalSchema = Type.Object({
+  column: Type.String({ description: "Column name" }),
+  function: Type.Optional(
+    Type.Union(
+      [
+        Type.Literal("sum"),
+        Type.Literal("average"),
+        Type.Literal("count"),
+        Type.Literal("countNumbers"),
+        Type.Literal("max"),
+        Type.Literal("min"),
+        Type.Literal("stdDev"),
+        Type.Literal("var"),
+        Type.Literal("none"),
+      ],
+      { description: "Default: sum" },
+    ),
+  ),
+  formula: Type.Optional(
+    Type.String({ description: "Custom totals formula instead of function" }),
+  ),
+});
+
+const ChartAxisSchema = Type.Object({
+  title: Type.Optional(Type.String()),
+  min: Type.Optional(Type.Number()),
+  max: Type.Optional(Type.Number()),
+  majorUnit: Type.Optional(Type.Number()),
+  numberFormat: Type.Optional(Type.String({ description: "e.g. '$#,##0'" })),
+  gridlines: Type.Optional(Type.Boolean({ description: "Major gridlines" })),
+  visible: Type.Optional(Type.Boolean()),
+});
+
+const ChartSeriesSchema = Type.Object({
+  name: Type.String({
+    description: "Existing series name, or the name of a new series",
+  }),
+  values: Type.Optional(
+    Type.String({ description: "Values range (required for new series)" }),
+  ),
+  categories: Type.Optional(
+    Type.String({ description: "Category / X values range" }),
+  ),
+  chartType: Type.Optional(
+    Type.String({ description: "Per-series type for combo charts, e.g. line" }),
+  ),
+  color: Type.Optional(
+    Type.String({ description: "Fill/line color, e.g. #1F4E79" }),
+  ),
+  axisGroup: Type.Optional(
+    Type.Union([Type.Literal("primary"), Type.Literal("secondary")]),
+  ),
+  dataLabels: Type.Optional(Type.Boolean()),
+  delete: Type.Optional(Type.Boolean({ description: "Remove this series" })),
 });
 
 const PropertiesSchema = Type.Object({
-  name: Type.Optional(Type.String()),
+  name: Type.Optional(
+    Type.String({ description: "Object name; for named ranges, the name" }),
+  ),
   source: Type.Optional(
-    Type.String({ description: "Data source range, e.g. 'Sheet1!A1:D100'" }),
+    Type.String({
+      description:
+        "Data source range, e.g. 'Sheet1!A1:D100'. For tables, the range to convert",
+    }),
   ),
   range: Type.Optional(
     Type.String({ description: "Output location (pivot table top-left cell)" }),
   ),
   anchor: Type.Optional(
-    Type.String({ description: "Chart placement (top-left cell)" }),
+    Type.String({ description: "Chart or shape placement (top-left cell)" }),
   ),
   rows: Type.Optional(Type.Array(Type.Object({ field: Type.String() }))),
   columns: Type.Optional(Type.Array(Type.Object({ field: Type.String() }))),
   values: Type.Optional(Type.Array(PivotFieldSchema)),
+  filters: Type.Optional(
+    Type.Array(Type.Object({ field: Type.String() }), {
+      description: "Pivot report filter fields",
+    }),
+  ),
+  fieldFilters: Type.Optional(
+    Type.Array(PivotFieldFilterSchema, {
+      description: "Manual, label or value filters on pivot fields",
+    }),
+  ),
+  layout: Type.Optional(
+    Type.Union(
+      [
+        Type.Literal("compact"),
+        Type.Literal("outline"),
+        Type.Literal("tabular"),
+      ],
+      { description: "Pivot layout" },
+    ),
+  ),
+  subtotals: Type.Optional(
+    Type.Union(
+      [Type.Literal("top"), Type.Literal("bottom"), Type.Literal("off")],
+      {
+        description: "Pivot subtotal placement",
+      },
+    ),
+  ),
+  grandTotals: Type.Optional(
+    Type.Object(
+      {
+        rows: Type.Optional(Type.Boolean()),
+        columns: Type.Optional(Type.Boolean()),
+      },
+      { description: "Pivot grand totals" },
+    ),
+  ),
+  refresh: Type.Optional(
+    Type.Boolean({ description: "Refresh the pivot from its source" }),
+  ),
   title: Type.Optional(Type.String()),
   chartType: Type.Optional(
+    Type.String({
+      description:
+        "Any Excel chart type, e.g. columnClustered, columnStacked, columnStacked100, barClustered, " +
+        "barStacked, line, lineMarkers, lineStacked, area, areaStacked, pie, doughnut, xyscatter, " +
+        "xyscatterLines, bubble, radar, waterfall, histogram, pareto, boxwhisker, treemap, sunburst, funnel",
+    }),
+  ),
+  seriesBy: Type.Optional(
+    Type.Union(
+      [Type.Literal("auto"), Type.Literal("rows"), Type.Literal("columns")],
+      { description: "Chart source orientation. Default: auto" },
+    ),
+  ),
+  width: Type.Optional(
+    Type.Number({ description: "Chart or shape width in points" }),
+  ),
+  height: Type.Optional(
+    Type.Number({ description: "Chart or shape height in points" }),
+  ),
+  legend: Type.Optional(
     Type.Union([
-      Type.Literal("columnClustered"),
-      Type.Literal("barClustered"),
-      Type.Literal("line"),
-      Type.Literal("pie"),
-      Type.Literal("scatter"),
-      Type.Literal("area"),
-      Type.Literal("doughnut"),
+      Type.Literal("top"),
+      Type.Literal("bottom"),
+      Type.Literal("left"),
+      Type.Literal("right"),
+      Type.Literal("corner"),
+      Type.Literal("none"),
     ]),
   ),
+  dataLabels: Type.Optional(
+    Type.Object(
+      {
+        showValue: Type.Optional(Type.Boolean()),
+        showPercentage: Type.Optional(Type.Boolean()),
+        showCategoryName: Type.Optional(Type.Boolean()),
+        showSeriesName: Type.Optional(Type.Boolean()),
+        position: Type.Optional(
+          Type.String({
+            description:
+              "center, insideEnd, insideBase, outsideEnd, left, right, top, bottom, bestFit, callout",
+          }),
+        ),
+        numberFormat: Type.Optional(Type.String()),
+      },
+      { description: "Chart-wide data labels" },
+    ),
+  ),
+  categoryAxis: Type.Optional(ChartAxisSchema),
+  valueAxis: Type.Optional(ChartAxisSchema),
+  secondaryValueAxis: Type.Optional(ChartAxisSchema),
+  series: Type.Optional(
+    Type.Array(ChartSeriesSchema, {
+      description:
+        "Add, restyle, retype, move to secondary axis, or delete series",
+    }),
+  ),
+  shapeType: Type.Optional(
+    Type.String({
+      description:
+        "Shape create: image, textBox, or a geometric shape such as rectangle, roundRectangle, " +
+        "ellipse, triangle, rightArrow, chevron, star5, callout1",
+    }),
+  ),
+  image: Type.Optional(
+    Type.String({
+      description:
+        "Image create: PNG or JPEG path, absolute or relative to /home/user/uploads/",
+    }),
+  ),
+  text: Type.Optional(Type.String({ description: "Shape or text box text" })),
+  fill: Type.Optional(
+    Type.String({ description: "Shape fill color, e.g. #DDEBF7, or none" }),
+  ),
+  lineColor: Type.Optional(
+    Type.String({ description: "Shape outline color, or none" }),
+  ),
+  fontSize: Type.Optional(Type.Number({ description: "Shape text size" })),
+  fontColor: Type.Optional(Type.String({ description: "Shape text color" })),
+  bold: Type.Optional(Type.Boolean({ description: "Shape text bold" })),
+  horizontalAlignment: Type.Optional(
+    Type.Union(
+      [Type.Literal("left"), Type.Literal("center"), Type.Literal("right")],
+      { description: "Shape text alignment" },
+    ),
+  ),
+  refersTo: Type.Optional(
+    Type.String({
+      description:
+        "Named range target: A1 address on this sheet or formula, e.g. 'B2:B20' or '=Inputs!$C$4*12'",
+    }),
+  ),
+  hasHeaders: Type.Optional(
+    Type.Boolean({
+      description:
+        "Table create: first row of source is headers. Default: true",
+    }),
+  ),
+  style: Type.Optional(
+    Type.String({
+      description: "Table style, e.g. 'TableStyleMedium2', 'TableStyleLight9'",
+    }),
+  ),
+  showTotals: Type.Optional(Type.Boolean({ description: "Table totals row" })),
+  totals: Type.Optional(
+    Type.Array(TableTotalSchema, {
+      description: "Per-column totals row aggregation (turns the row on)",
+    }),
+  ),
+  addRows: Type.Optional(
+    Type.Object({
+      values: Type.Array(Type.Array(CellValueSchema)),
+      index: Type.Optional(
+        Type.Number({ description: "0-based data row. Default: append" }),
+      ),
+    }),
+  ),
+  deleteRows: Type.Optional(
+    Type.Array(Type.Number(), { description: "0-based data row indices" }),
+  ),
+  addColumns: Type.Optional(
+    Type.Array(
+      Type.Object({
+        name: Type.String(),
+        values: Type.Optional(
+          Type.Array(CellValueSchema, {
+            description: "One value or formula per data row",
+          }),
+        ),
+        index: Type.Optional(Type.Number({ description: "Default: append" })),
+      }),
+    ),
+  ),
+  deleteColumns: Type.Optional(
+    Type.Array(Type.String(), { description: "Column names" }),
+  ),
+  convertToRange: Type.Optional(
+    Type.Boolean({
+      description:
+        "Table delete: keep the data and formatting as a plain range",
+    }),
+  ),
+  comment: Type.Optional(Type.String({ description: "Named range comment" })),
+  scope: Type.Optional(
+    Type.Union([Type.Literal("workbook"), Type.Literal("sheet")], {
+      description: "Named range scope. Default: workbook",
+    }),
+  ),
 });
 
 export const modifyObjectTool = defineTool({
   name: "modify_object",
   label: "Modify Object",
   description:
-    "Create, update, or delete charts and pivot tables. " +
-    "For charts, specify chartType, source, and anchor. " +
-    "For pivot tables, specify source, range, rows, columns, and values.",
+    "Create, update, or delete charts, pivot tables, tables, named ranges, and shapes. " +
+    "For charts, specify chartType, source, and anchor; titles, legend, data labels, size, axes " +
+    "(title/min/max/number format/gridlines, secondary value axis) and per-series type, color and axis " +
+    "(combo charts) can be set on create or update. Use get_all_objects to read a chart's current " +
+    "settings and series ranges before editing it. " +
+    "For pivot tables, specify source, range, rows, columns, values, and filters; on update, each of " +
+    "those lists replaces the current fields on that axis. fieldFilters, layout, subtotals, grandTotals, " +
+    "value number formats, showAs (% of total, running total, ...) and refresh can be set on create or update. " +
+    "For tables, create from source; update can rename, restyle, add/delete rows and columns, " +
+    "and set the totals row; delete with convertToRange keeps the data. " +
+    "For named ranges, specify name, refersTo, and optionally comment and scope; " +
+    "the id is the name, and update can rename, re-point, or move it between scopes. " +
+    "For shapes, set shapeType to image (with an image file from the VFS), textBox, or a geometric " +
+    "shape, and place it with anchor plus width/height (one dimension keeps the aspect ratio); " +
+    "text, fill, lineColor and font can be set on create or update. The id is the shape id or name.",
   parameters: Type.Object({
     operation: Type.Union(
       [Type.Literal("create"), Type.Literal("update"), Type.Literal("delete")],
@@ -59,7 +418,13 @@ export const modifyObjectTool = defineTool({
     ),
     sheetId: Type.Number({ description: "The worksheet ID (1-based index)" }),
     objectType: Type.Union(
-      [Type.Literal("pivotTable"), Type.Literal("chart")],
+      [
+        Type.Literal("pivotTable"),
+        Type.Literal("chart"),
+        Type.Literal("table"),
+        Type.Literal("namedRange"),
+        Type.Literal("shape"),
+      ],
       { description: "Type of object" },
     ),
     id: Type.Optional(
@@ -74,21 +439,59 @@ export const modifyObjectTool = defineTool({
     ),
   }),
   dirtyTracking: {
-    getRanges: (p) => [
-      {
-        sheetId: p.sheetId,
-        range: p.properties?.range || p.properties?.anchor || "*",
-      },
-    ],
+    getRanges: (p, result) => {
+      // Names don't touch cells
+      if (p.objectType === "namedRange") return [];
+      if (p.objectType !== "table") {
+        // Charts, pivots and shapes write no cells revert could restore, so
+        // they are only reported once done, not checkpointed
+        if (!result) return [];
+        const range = p.properties?.range || p.properties?.anchor;
+        return [{ sheetId: p.sheetId, range: range || "*" }];
+      }
+      if (p.operation === "create") {
+        return [{ sheetId: p.sheetId, range: p.properties?.source || "*" }];
+      }
+      // Renames and restyles leave cells alone; row/column edits, totals and
+      // deletes can shift or rewrite anything on the sheet
+      const props = p.properties ?? {};
+      const writesCells =
+        p.operation === "delete" ||
+        props.addRows ||
+        props.deleteRows ||
+        props.addColumns ||
+        props.deleteColumns ||
+        props.totals ||
+        props.showTotals !== undefined;
+      return writesCells ? [{ sheetId: p.sheetId, range: "*" }] : [];
+    },
   },
   execute: async (_toolCallId, params) => {
     try {
+      const { image, ...properties } = params.properties ?? {};
+      let imageBase64: string | undefined;
+      if (image) {
+        const path = image.startsWith("/")
+          ? image
+          : `/home/user/uploads/${image}`;
+        if (!(await fileExists(path))) {
+          return toolError(`File not found: ${path}`);
+        }
+        const { mimeType } = getFileType(path);
+        if (mimeType !== "image/png" && mimeType !== "image/jpeg") {
+          return toolError(
+            `Excel can only insert PNG or JPEG images, not ${mimeType}`,
+          );
+        }
+        imageBase64 = toBase64(await readFileBuffer(path));
+      }
+
       const result = await modifyObject({
         operation: params.operation,
         sheetId: params.sheetId,
         objectType: params.objectType,
         id: params.id,
-        properties: params.properties,
+        properties: params.properties && { ...properties, imageBase64 },
       });
       return toolSuccess(result);
     } catch (error) {
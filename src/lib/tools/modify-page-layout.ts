@@ -0,0 +1,122 @@
+import { Type } from "@sinclair/typebox";
+import { modifyPageLayout } from "../excel/api";
+import { defineTool, toolError, toolSuccess } from "./types";
+
+const HeaderFooterSchema = Type.Object({
+  left: Type.Optional(Type.String()),
+  center: Type.Optional(Type.String()),
+  right: Type.Optional(Type.String()),
+});
+
+const SettingsSchema = Type.Object({
+  printArea: Type.Optional(
+    Type.String({ description: "e.g. 'A1:H60' or 'A1:H60,A70:H90'" }),
+  ),
+  printTitleRows: Type.Optional(
+    Type.String({ description: "Rows repeated on every page, e.g. '1:3'" }),
+  ),
+  printTitleColumns: Type.Optional(
+    Type.String({ description: "Columns repeated on every page, e.g. 'A:B'" }),
+  ),
+  orientation: Type.Optional(
+    Type.Union([Type.Literal("portrait"), Type.Literal("landscape")]),
+  ),
+  paperSize: Type.Optional(
+    Type.String({
+      description: "e.g. letter, legal, a4, a3, tabloid, executive",
+    }),
+  ),
+  margins: Type.Optional(
+    Type.Object(
+      {
+        top: Type.Optional(Type.Number()),
+        bottom: Type.Optional(Type.Number()),
+        left: Type.Optional(Type.Number()),
+        right: Type.Optional(Type.Number()),
+        header: Type.Optional(Type.Number()),
+        footer: Type.Optional(Type.Number()),
+      },
+      { description: "Inches" },
+    ),
+  ),
+  scale: Type.Optional(
+    Type.Number({ description: "Print scaling percent (10-400)" }),
+  ),
+  fitToPages: Type.Optional(
+    Type.Object(
+      {
+        wide: Type.Optional(Type.Number()),
+        tall: Type.Optional(Type.Number()),
+      },
+      {
+        description:
+          "Fit to N pages wide by M tall; 0 leaves a direction automatic, e.g. { wide: 1, tall: 0 }",
+      },
+    ),
+  ),
+  centerHorizontally: Type.Optional(Type.Boolean()),
+  centerVertically: Type.Optional(Type.Boolean()),
+  header: Type.Optional(HeaderFooterSchema),
+  footer: Type.Optional(HeaderFooterSchema),
+  printGridlines: Type.Optional(Type.Boolean()),
+  printHeadings: Type.Optional(
+    Type.Boolean({ description: "Print row numbers and column letters" }),
+  ),
+  blackAndWhite: Type.Optional(Type.Boolean()),
+  rowBreaks: Type.Optional(
+    Type.Array(Type.Number(), {
+      description: "Manual page breaks: row numbers that start a new page",
+    }),
+  ),
+  columnBreaks: Type.Optional(
+    Type.Array(Type.String(), {
+      description: "Manual page breaks: column letters that start a new page",
+    }),
+  ),
+});
+
+export const modifyPageLayoutTool = defineTool({
+  name: "modify_page_layout",
+  label: "Modify Page Layout",
+  description:
+    "Read or change a worksheet's print setup: print area, print titles (rows/columns repeated on every page), " +
+    "orientation, paper size, margins, scaling or fit-to-pages, centering, headers and footers, manual page " +
+    "breaks, and gridline/heading printing. Both operations return the resulting settings. " +
+    "Header/footer text accepts Excel codes: &P page number, &N total pages, &D date, &T time, &F file name, " +
+    '&A sheet name, &B bold, &I italic, &"Font,Style" font, &12 font size, && a literal ampersand.',
+  parameters: Type.Object({
+    operation: Type.Union([Type.Literal("get"), Type.Literal("set")], {
+      description: "Operation to perform",
+    }),
+    sheetId: Type.Number({ description: "The worksheet ID (1-based index)" }),
+    settings: Type.Optional(SettingsSchema),
+    clearPageBreaks: Type.Optional(
+      Type.Boolean({
+        description: "Remove all manual page breaks before adding new ones",
+      }),
+    ),
+    explanation: Type.Optional(
+      Type.String({
+        description: "Brief explanation (max 50 chars)",
+        maxLength: 50,
+      }),
+    ),
+  }),
+  execute: async (_toolCallId, params) => {
+    try {
+      const result = await modifyPageLayout({
+        operation: params.operation,
+        sheetId: params.sheetId,
+        settings: params.settings,
+        clearPageBreaks: params.clearPageBreaks,
+      });
+      return toolSuccess(result);
+    } catch (error) {
+      const message =
+        error instanceof Error
+          ? error.message
+          : "Unknown error modifying page layout";
+      return toolError(message);
+    }
+  },
+});
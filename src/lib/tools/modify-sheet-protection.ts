@@ -0,0 +1,63 @@
+import { Type } from "@sinclair/typebox";
+import { modifySheetProtection, PROTECTION_ACTIONS } from "../excel/api";
+import { defineTool, toolError, toolSuccess } from "./types";
+
+export const modifySheetProtectionTool = defineTool({
+  name: "modify_sheet_protection",
+  label: "Modify Sheet Protection",
+  description:
+    "Protect or unprotect a worksheet. Protection locks every cell except unlockedRanges and blocks " +
+    "the actions not listed in allow. Current protection state, allowed actions and locked ranges are " +
+    "in the workbook context under each sheet's protection. " +
+    "Only unprotect or protect when the user asks, and only pass a password the user gave you; " +
+    "never make one up.",
+  parameters: Type.Object({
+    operation: Type.Union(
+      [Type.Literal("protect"), Type.Literal("unprotect")],
+      { description: "Operation to perform" },
+    ),
+    sheetId: Type.Number({ description: "The worksheet ID (1-based index)" }),
+    password: Type.Optional(
+      Type.String({ description: "Password supplied by the user" }),
+    ),
+    allow: Type.Optional(
+      Type.Array(
+        Type.Union(PROTECTION_ACTIONS.map((action) => Type.Literal(action))),
+        {
+          description:
+            "Protect: actions users may still perform, e.g. ['formatCells', 'sort', 'autoFilter']",
+        },
+      ),
+    ),
+    unlockedRanges: Type.Optional(
+      Type.Array(Type.String(), {
+        description:
+          "Protect: input ranges that stay editable, e.g. ['C4:C12']",
+      }),
+    ),
+    explanation: Type.Optional(
+      Type.String({
+        description: "Brief explanation (max 50 chars)",
+        maxLength: 50,
+      }),
+    ),
+  }),
+  execute: async (_toolCallId, params) => {
+    try {
+      const result = await modifySheetProtection({
+        operation: params.operation,
+        sheetId: params.sheetId,
+        password: params.password,
+        allow: params.allow,
+        unlockedRanges: params.unlockedRanges,
+      });
+      return toolSuccess(result);
+    } catch (error) {
+      const message =
+        error instanceof Error
+          ? error.message
+          : "Unknown error modifying sheet protection";
+      return toolError(message);
+    }
+  },
+});
@@ -2,7 +2,7 @@
 
 import { Type } from "@sinclair/typebox";
 import { parseRange } from "../dirty-tracker";
-import { getWorksheetById } from "../excel/api";
+import { getWorksheetById, resolveRange } from "../excel/api";
 import type { ToolResult } from "./types";
 import { defineTool, toolError } from "./types";
 
@@ -125,7 +125,8 @@ export const screenshotRangeTool = defineTool({
   parameters: Type.Object({
     sheetId: Type.Number({ description: "The worksheet ID (1-based index)" }),
     range: Type.String({
-      description: "Range in A1 notation, e.g. 'A1:F20' or 'B3:M30'",
+      description:
+        "Range in A1 notation or a defined name, e.g. 'A1:F20' or 'B3:M30'",
     }),
     explanation: Type.Optional(
       Type.String({
@@ -137,22 +138,22 @@ export const screenshotRangeTool = defineTool({
   }),
   execute: async (_toolCallId, params): Promise<ToolResult> => {
     try {
-      const parsed = parseRange(params.range);
-      if (!parsed) {
-        return toolError(`Invalid range: ${params.range}`);
-      }
-
-      const { startRow, startCol, endCol, endRow } = parsed;
-      const numCols = endCol - startCol + 1;
-      const numRows = endRow - startRow + 1;
-
       const data = await Excel.run(async (context) => {
         const sheet = await getWorksheetById(context, params.sheetId);
         if (!sheet) {
           throw new Error(`Worksheet with ID ${params.sheetId} not found`);
         }
 
-        const range = sheet.getRange(params.range);
+        const range = await resolveRange(context, sheet, params.range);
+        range.load("address");
+        await context.sync();
+
+        const parsed = parseRange(range.address.split("!")[1]);
+        if (!parsed) throw new Error(`Invalid range: ${params.range}`);
+        const { startRow, startCol, endCol, endRow } = parsed;
+        const numCols = endCol - startCol + 1;
+        const numRows = endRow - startRow + 1;
+
         const image = range.getImage();
 
         const cols: Excel.Range[] = [];
@@ -175,13 +176,15 @@ export const screenshotRangeTool = defineTool({
           imageBase64: image.value,
           colWidths: cols.map((c) => c.format.columnWidth),
           rowHeights: rows.map((r) => r.format.rowHeight),
+          startRow,
+          startCol,
         };
       });
 
       const base64 = await compositeWithHeaders(
         data.imageBase64,
-        startRow,
-        startCol,
+        data.startRow,
+        data.startCol,
         data.colWidths,
         data.rowHeights,
       );
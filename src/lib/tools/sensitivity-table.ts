@@ -0,0 +1,75 @@
+import { Type } from "@sinclair/typebox";
+import { sensitivityTable } from "../excel/api";
+import { sensitivityExtent, sensitivityRange } from "../excel/sensitivity";
+import { defineTool, toolError, toolSuccess } from "./types";
+
+const CellSchema = {
+  sheetId: Type.Number({ description: "Worksheet ID (1-based index)" }),
+  cell: Type.String({ description: "Single cell in A1 notation, e.g. 'B4'" }),
+};
+
+const InputSchema = Type.Object({
+  ...CellSchema,
+  values: Type.Array(Type.Number(), {
+    description: "Test values, e.g. [0.08, 0.09, 0.10, 0.11, 0.12]",
+    minItems: 1,
+  }),
+});
+
+export const sensitivityTableTool = defineTool({
+  name: "sensitivity_table",
+  label: "Sensitivity Table",
+  description:
+    "Build a sensitivity (data) table, since Excel's native Data Table isn't available to add-ins. " +
+    "For every combination of test values, the tool writes the input cells, lets Excel recalculate and " +
+    "reads the output cells, then restores the original inputs and writes the results as static values. " +
+    "One input: a column of test values with one column per output. Two inputs (rowInput down, colInput " +
+    "across): one grid per output, stacked. Headers are bold, values keep the number formats of the input " +
+    "and output cells, and colorScale adds a red-yellow-green scale. Input cells must hold numbers, not formulas.",
+  parameters: Type.Object({
+    rowInput: InputSchema,
+    colInput: Type.Optional(InputSchema),
+    outputs: Type.Array(Type.Object(CellSchema), {
+      description: "Cells to record for each scenario",
+      minItems: 1,
+    }),
+    target: Type.Object(CellSchema, {
+      description: "Top-left cell where the table is written",
+    }),
+    colorScale: Type.Optional(
+      Type.Boolean({ description: "Add a color scale. Default: false" }),
+    ),
+    allowOverwrite: Type.Optional(
+      Type.Boolean({ description: "Overwrite non-empty cells at the target" }),
+    ),
+    explanation: Type.Optional(
+      Type.String({
+        description: "Brief explanation (max 50 chars)",
+        maxLength: 50,
+      }),
+    ),
+  }),
+  dirtyTracking: {
+    getRanges: (p) => {
+      const extent = sensitivityExtent(
+        p.rowInput.values.length,
+        p.colInput?.values.length,
+        p.outputs.length,
+      );
+      const range = sensitivityRange(p.target.cell, extent) ?? p.target.cell;
+      return [{ sheetId: p.target.sheetId, range }];
+    },
+  },
+  execute: async (_toolCallId, params) => {
+    try {
+      const result = await sensitivityTable(params);
+      return toolSuccess(result);
+    } catch (error) {
+      const message =
+        error instanceof Error
+          ? error.message
+          : "Unknown error building sensitivity table";
+      return toolError(message);
+    }
+  },
+});
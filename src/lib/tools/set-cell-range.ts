@@ -1,4 +1,5 @@
 import { Type } from "@sinclair/typebox";
+import { formatRange, parseRange } from "../dirty-tracker";
 import { setCellRange } from "../excel/api";
 import { defineTool, toolError, toolSuccess } from "./types";
 
@@ -62,10 +63,47 @@ const BorderStylesSchema = Type.Optional(
   }),
 );
 
+const HyperlinkSchema = Type.Optional(
+  Type.Object({
+    url: Type.Optional(Type.String({ description: "Web or mailto address" })),
+    documentReference: Type.Optional(
+      Type.String({ description: "In-workbook target, e.g. 'Sheet2!A1'" }),
+    ),
+    screenTip: Type.Optional(Type.String()),
+    remove: Type.Optional(
+      Type.Boolean({
+        description:
+          "Remove the link (also clears the cell's formatting; restyle with cellStyles)",
+      }),
+    ),
+  }),
+);
+
+const CommentSchema = Type.Optional(
+  Type.Object({
+    content: Type.Optional(
+      Type.String({ description: "Start a new comment thread on the cell" }),
+    ),
+    reply: Type.Optional(
+      Type.String({ description: "Reply to the cell's existing thread" }),
+    ),
+    resolved: Type.Optional(
+      Type.Boolean({ description: "Resolve or reopen the thread" }),
+    ),
+    delete: Type.Optional(
+      Type.Boolean({ description: "Delete the thread and its replies" }),
+    ),
+  }),
+);
+
 const CellSchema = Type.Object({
   value: Type.Optional(Type.Any()),
   formula: Type.Optional(Type.String()),
-  note: Type.Optional(Type.String()),
+  note: Type.Optional(
+    Type.String({ description: "Legacy cell note; empty string deletes it" }),
+  ),
+  hyperlink: HyperlinkSchema,
+  comment: CommentSchema,
   cellStyles: CellStylesSchema,
   borderStyles: BorderStylesSchema,
 });
@@ -77,6 +115,19 @@ const ResizeSchema = Type.Optional(
   }),
 );
 
+/** The range actually written once auto-expanded to the cells dimensions */
+function expandToCells(range: string, cells: unknown[][]): string {
+  const bounds = parseRange(range);
+  if (!bounds || cells.length === 0) return range;
+  const cols = Math.max(...cells.map((r) => r.length));
+  return formatRange({
+    startCol: bounds.startCol,
+    startRow: bounds.startRow,
+    endCol: bounds.startCol + Math.max(cols, 1) - 1,
+    endRow: bounds.startRow + cells.length - 1,
+  });
+}
+
 export const setCellRangeTool = defineTool({
   name: "set_cell_range",
   label: "Set Cell Range",
@@ -87,7 +138,13 @@ export const setCellRangeTool = defineTool({
     "If the tool returns an overwrite error, read those cells to see what's there, " +
     "confirm with the user, then retry with allow_overwrite=true. " +
     "Only set allow_overwrite=true on first attempt if user explicitly says 'replace' or 'overwrite'. " +
-    "Use copyToRange to expand a pattern to a larger area.",
+    "Use copyToRange to expand a pattern to a larger area. " +
+    "Use merge to merge the written range (mergeAcross merges each row separately, e.g. for headers) or " +
+    "unmerge it before writing. In merged areas only the top-left cell is shown; writes to the hidden cells are " +
+    "reported in messages. " +
+    "Cells can also carry a hyperlink (URL or in-workbook reference), a legacy note, and a threaded comment: " +
+    "start a thread, reply to it, resolve it or delete it. Cells given without value or formula keep their " +
+    "contents, so links, notes and comments can be added to filled cells without allow_overwrite.",
   parameters: Type.Object({
     sheetId: Type.Number({ description: "The worksheet ID (1-based index)" }),
     range: Type.String({
@@ -107,6 +164,19 @@ export const setCellRangeTool = defineTool({
     allow_overwrite: Type.Optional(
       Type.Boolean({ description: "Confirm overwriting existing data" }),
     ),
+    merge: Type.Optional(
+      Type.Union(
+        [
+          Type.Literal("merge"),
+          Type.Literal("mergeAcross"),
+          Type.Literal("unmerge"),
+        ],
+        {
+          description:
+            "merge/mergeAcross: merge the range after writing. unmerge: unmerge it before writing",
+        },
+      ),
+    ),
     explanation: Type.Optional(
       Type.String({
         description: "Brief explanation (max 50 chars)",
@@ -116,7 +186,9 @@ export const setCellRangeTool = defineTool({
   }),
   dirtyTracking: {
     getRanges: (p) => {
-      const ranges = [{ sheetId: p.sheetId, range: p.range }];
+      const ranges = [
+        { sheetId: p.sheetId, range: expandToCells(p.range, p.cells) },
+      ];
       if (p.copyToRange) {
         ranges.push({ sheetId: p.sheetId, range: p.copyToRange });
       }
@@ -134,6 +206,7 @@ export const setCellRangeTool = defineTool({
           resizeWidth: params.resizeWidth,
           resizeHeight: params.resizeHeight,
           allowOverwrite: params.allow_overwrite,
+          merge: params.merge,
         },
       );
       return toolSuccess(result);
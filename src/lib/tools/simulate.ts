@@ -0,0 +1,105 @@
+import { Type } from "@sinclair/typebox";
+import { simulate } from "../excel/api";
+import { defineTool, toolError, toolSuccess } from "./types";
+
+const CellSchema = {
+  sheetId: Type.Number({ description: "Worksheet ID (1-based index)" }),
+  cell: Type.String({ description: "Single cell in A1 notation, e.g. 'B4'" }),
+};
+
+const DistributionSchema = Type.Union([
+  Type.Object({
+    type: Type.Literal("normal"),
+    mean: Type.Number(),
+    stdDev: Type.Number(),
+    min: Type.Optional(Type.Number({ description: "Truncate below" })),
+    max: Type.Optional(Type.Number({ description: "Truncate above" })),
+  }),
+  Type.Object({
+    type: Type.Literal("triangular"),
+    min: Type.Number(),
+    mode: Type.Number({ description: "Most likely value" }),
+    max: Type.Number(),
+  }),
+  Type.Object({
+    type: Type.Literal("uniform"),
+    min: Type.Number(),
+    max: Type.Number(),
+  }),
+  Type.Object({
+    type: Type.Literal("discrete"),
+    values: Type.Array(Type.Number()),
+    weights: Type.Optional(
+      Type.Array(Type.Number(), {
+        description: "Relative weights, one per value. Default: equal",
+      }),
+    ),
+  }),
+  Type.Object({
+    type: Type.Literal("discrete"),
+    range: Type.String({
+      description:
+        "Range with values in the first column and optional weights in the second",
+    }),
+    sheetId: Type.Optional(
+      Type.Number({ description: "Sheet of the range. Default: input's" }),
+    ),
+  }),
+]);
+
+export const simulateTool = defineTool({
+  name: "simulate",
+  label: "Monte Carlo Simulation",
+  description:
+    "Run a Monte Carlo simulation on the workbook's own formulas. Each iteration samples every input " +
+    "cell from its distribution (normal, triangular, uniform, or discrete values/range), lets Excel " +
+    "recalculate and records the output cells; iterations are batched for speed. The original inputs are " +
+    "always restored, including when the run fails or is aborted. Results go to a new sheet with summary " +
+    "statistics (mean, std dev, min/max, P5-P95), the input distributions, and a histogram table and " +
+    "column chart per output. Input cells must hold numbers, not formulas. Pass seed to reproduce a run.",
+  parameters: Type.Object({
+    inputs: Type.Array(
+      Type.Object({ ...CellSchema, distribution: DistributionSchema }),
+      { description: "Input cells and their distributions", minItems: 1 },
+    ),
+    outputs: Type.Array(Type.Object(CellSchema), {
+      description: "Cells to record each iteration",
+      minItems: 1,
+    }),
+    iterations: Type.Optional(
+      Type.Number({ description: "Default: 1000, max 10000" }),
+    ),
+    batchSize: Type.Optional(
+      Type.Number({ description: "Iterations per round trip. Default: 50" }),
+    ),
+    seed: Type.Optional(Type.Number({ description: "Random seed" })),
+    bins: Type.Optional(
+      Type.Number({ description: "Histogram bins. Default: 20" }),
+    ),
+    sheetName: Type.Optional(
+      Type.String({ description: "Results sheet name. Default: Simulation" }),
+    ),
+    explanation: Type.Optional(
+      Type.String({
+        description: "Brief explanation (max 50 chars)",
+        maxLength: 50,
+      }),
+    ),
+  }),
+  dirtyTracking: {
+    getRanges: (_p, result) => {
+      const r = result as { sheetId?: number } | undefined;
+      return r?.sheetId ? [{ sheetId: r.sheetId, range: "*" }] : [];
+    },
+  },
+  execute: async (_toolCallId, params, signal) => {
+    try {
+      const result = await simulate({ ...params, signal });
+      return toolSuccess(result);
+    } catch (error) {
+      const message =
+        error instanceof Error ? error.message : "Unknown error in simulation";
+      return toolError(message);
+    }
+  },
+});
@@ -0,0 +1,171 @@
+import { Type } from "@sinclair/typebox";
+import { captureCheckpoint } from "../checkpoints";
+import { resolveSortRange, sortFilterRange } from "../excel/api";
+import { defineTool, toolError, toolSuccess } from "./types";
+
+const ColumnSchema = Type.Union([Type.String(), Type.Number()], {
+  description:
+    "Header name, column letter (e.g. 'C'), or 0-based offset within the range",
+});
+
+const SortKeySchema = Type.Object({
+  column: ColumnSchema,
+  ascending: Type.Optional(Type.Boolean({ description: "Default: true" })),
+  sortOn: Type.Optional(
+    Type.Union(
+      [
+        Type.Literal("value"),
+        Type.Literal("cellColor"),
+        Type.Literal("fontColor"),
+      ],
+      { description: "Default: value. Color sorts put `color` first" },
+    ),
+  ),
+  color: Type.Optional(
+    Type.String({ description: "Hex color for color sorts" }),
+  ),
+  customOrder: Type.Optional(
+    Type.Array(Type.String(), {
+      description:
+        "Sort by this list order instead of alphabetically, e.g. ['High','Medium','Low']. Unlisted values go last, also when descending",
+    }),
+  ),
+});
+
+const FilterSchema = Type.Object({
+  column: ColumnSchema,
+  type: Type.Union([
+    Type.Literal("values"),
+    Type.Literal("topItems"),
+    Type.Literal("topPercent"),
+    Type.Literal("bottomItems"),
+    Type.Literal("bottomPercent"),
+    Type.Literal("custom"),
+    Type.Literal("dynamic"),
+    Type.Literal("cellColor"),
+    Type.Literal("fontColor"),
+  ]),
+  values: Type.Optional(
+    Type.Array(Type.String(), { description: "values: values to show" }),
+  ),
+  count: Type.Optional(
+    Type.Number({ description: "top/bottom: number of items or percent" }),
+  ),
+  criterion1: Type.Optional(
+    Type.String({
+      description: "custom: comparison, e.g. '>=100', '<>0', '=*north*'",
+    }),
+  ),
+  criterion2: Type.Optional(
+    Type.String({ description: "custom: second comparison" }),
+  ),
+  operator: Type.Optional(
+    Type.Union([Type.Literal("and"), Type.Literal("or")], {
+      description: "custom: how to combine the criteria. Default: and",
+    }),
+  ),
+  dynamic: Type.Optional(
+    Type.String({
+      description:
+        "dynamic: e.g. today, yesterday, thisWeek, lastMonth, thisQuarter, yearToDate, lastYear, aboveAverage, belowAverage",
+    }),
+  ),
+  color: Type.Optional(
+    Type.String({ description: "cellColor/fontColor: hex color" }),
+  ),
+});
+
+export const sortFilterRangeTool = defineTool({
+  name: "sort_filter_range",
+  label: "Sort & Filter",
+  description:
+    "Sort a range or table by one or more keys (value, cell color, font color, custom order), " +
+    "or apply, read, and clear AutoFilter criteria (values, top/bottom N, custom comparisons, dynamic date filters). " +
+    "Ranges that overlap a table act on the whole table. Sorting moves whole rows within the range only.",
+  parameters: Type.Object({
+    operation: Type.Union(
+      [
+        Type.Literal("sort"),
+        Type.Literal("filter"),
+        Type.Literal("readFilter"),
+        Type.Literal("clearFilter"),
+      ],
+      { description: "Operation to perform" },
+    ),
+    sheetId: Type.Number({ description: "The worksheet ID (1-based index)" }),
+    range: Type.Optional(
+      Type.String({
+        description:
+          "Range including the header row, or a table name. Required for sort/filter; for readFilter/clearFilter omit to use the sheet's AutoFilter",
+      }),
+    ),
+    keys: Type.Optional(
+      Type.Array(SortKeySchema, {
+        description: "sort: keys in priority order",
+      }),
+    ),
+    filters: Type.Optional(
+      Type.Array(FilterSchema, {
+        description: "filter: criteria, one per column; added to existing ones",
+      }),
+    ),
+    hasHeaders: Type.Optional(
+      Type.Boolean({
+        description: "sort: first row is a header row. Default: true",
+      }),
+    ),
+    matchCase: Type.Optional(
+      Type.Boolean({ description: "sort: Default false" }),
+    ),
+    removeFilter: Type.Optional(
+      Type.Boolean({
+        description: "clearFilter: also remove the filter dropdowns",
+      }),
+    ),
+    explanation: Type.Optional(
+      Type.String({
+        description: "Brief explanation (max 50 chars)",
+        maxLength: 50,
+      }),
+    ),
+  }),
+  dirtyTracking: {
+    getRanges: (p, result) => {
+      if (p.operation === "readFilter") return [];
+      // Sorts are checkpointed in execute, once the table is resolved
+      const range = (result as { range?: string } | undefined)?.range;
+      return range ? [{ sheetId: p.sheetId, range }] : [];
+    },
+  },
+  execute: async (toolCallId, params) => {
+    try {
+      // Only sorting moves cell contents, so only it is checkpointed. Ranges
+      // in a table sort the whole table, so snapshot all of it.
+      if (params.operation === "sort" && params.range) {
+        await captureCheckpoint(toolCallId, "sort_filter_range", [
+          {
+            sheetId: params.sheetId,
+            range: await resolveSortRange(params.sheetId, params.range),
+          },
+        ]);
+      }
+      const result = await sortFilterRange({
+        operation: params.operation,
+        sheetId: params.sheetId,
+        range: params.range,
+        keys: params.keys,
+        filters: params.filters,
+        hasHeaders: params.hasHeaders,
+        matchCase: params.matchCase,
+        removeFilter: params.removeFilter,
+      });
+      return toolSuccess(result);
+    } catch (error) {
+      const message =
+        error instanceof Error
+          ? error.message
+          : "Unknown error sorting or filtering";
+      return toolError(message);
+    }
+  },
+});
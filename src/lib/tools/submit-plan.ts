@@ -0,0 +1,53 @@
+import { type Static, Type } from "@sinclair/typebox";
+import { defineTool, toolError, toolSuccess } from "./types";
+
+const PlanSchema = Type.Object({
+  summary: Type.String({
+    description: "One or two sentences on what the plan achieves",
+  }),
+  steps: Type.Array(
+    Type.Object({
+      action: Type.String({
+        description: "What will change, e.g. 'Add a Total row summing Q1-Q4'",
+      }),
+      target: Type.Optional(
+        Type.String({
+          description: "Where, e.g. 'Revenue!A12:F12' or a new sheet's name",
+        }),
+      ),
+      tool: Type.Optional(
+        Type.String({ description: "Write tool to use, e.g. set_cell_range" }),
+      ),
+    }),
+    { description: "Changes in the order they will be made" },
+  ),
+  notes: Type.Optional(
+    Type.String({
+      description: "Assumptions, open questions or risks for the user",
+    }),
+  ),
+});
+
+export type SubmittedPlan = Static<typeof PlanSchema>;
+
+export const submitPlanTool = defineTool({
+  name: "submit_plan",
+  label: "Submit Plan",
+  description:
+    "Plan mode only. Submit the changes you intend to make to the workbook for the user to review. " +
+    "Investigate with the read tools first, so every step names concrete cells. " +
+    "The user approves the plan in the UI, which unlocks the write tools; " +
+    "after calling this, end your turn and wait. If the user replies with changes instead, " +
+    "submit a revised plan.",
+  parameters: PlanSchema,
+  execute: async (_toolCallId, params) => {
+    if (params.steps.length === 0) {
+      return toolError("A plan needs at least one step");
+    }
+    return toolSuccess({
+      submitted: true,
+      steps: params.steps.length,
+      message: "Plan submitted. Wait for the user to approve it.",
+    });
+  },
+});
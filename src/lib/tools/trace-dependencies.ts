@@ -0,0 +1,58 @@
+import { Type } from "@sinclair/typebox";
+import { traceDependencies } from "../excel/api";
+import { defineTool, toolError, toolSuccess } from "./types";
+
+export const traceDependenciesTool = defineTool({
+  name: "trace_dependencies",
+  label: "Trace Dependencies",
+  description:
+    "Trace where a cell's value comes from (precedents) and what uses it (dependents) as a tree, " +
+    "across sheets and through defined names and table references. Range inputs like SUM(B2:B100) " +
+    "appear as one node listing the formula cells inside it and a count of constants. " +
+    "Circular references are flagged. sheetIds maps sheet names to IDs for citations.",
+  parameters: Type.Object({
+    sheetId: Type.Number({ description: "The worksheet ID (1-based index)" }),
+    cell: Type.String({
+      description:
+        "Single cell in A1 notation or a name for one cell, e.g. 'F12'",
+    }),
+    direction: Type.Optional(
+      Type.Union(
+        [
+          Type.Literal("precedents"),
+          Type.Literal("dependents"),
+          Type.Literal("both"),
+        ],
+        { description: "Default: both" },
+      ),
+    ),
+    depth: Type.Optional(
+      Type.Number({
+        description: "Levels to follow in each direction. Default: 3, max: 10",
+        minimum: 1,
+        maximum: 10,
+      }),
+    ),
+    explanation: Type.Optional(
+      Type.String({
+        description: "Brief explanation (max 50 chars)",
+        maxLength: 50,
+      }),
+    ),
+  }),
+  execute: async (_toolCallId, params) => {
+    try {
+      const result = await traceDependencies(params.sheetId, params.cell, {
+        direction: params.direction,
+        depth: Math.min(params.depth ?? 3, 10),
+      });
+      return toolSuccess(result);
+    } catch (error) {
+      const message =
+        error instanceof Error
+          ? error.message
+          : "Unknown error tracing dependencies";
+      return toolError(message);
+    }
+  },
+});
@@ -1,11 +1,15 @@
 import type { AgentTool, AgentToolResult } from "@mariozechner/pi-agent-core";
 import type { Static, TObject } from "@sinclair/typebox";
+import { captureCheckpoint } from "../checkpoints";
 import type { DirtyRange } from "../dirty-tracker";
 
 export type ToolResult = AgentToolResult<undefined>;
 
 export interface DirtyTrackingConfig<T> {
-  /** Derive dirty ranges from params and optionally the result (for success only) */
+  /**
+   * Derive dirty ranges from params and optionally the result (for success only).
+   * Also called with params only before execution, to checkpoint the targets.
+   */
   getRanges: (params: T, result?: unknown) => DirtyRange[];
 }
 
@@ -36,6 +40,11 @@ export function defineTool<T extends TObject>(
     params: Static<T>,
     signal?: AbortSignal,
   ): Promise<ToolResult> => {
+    await captureCheckpoint(
+      toolCallId,
+      rest.name,
+      dirtyTracking.getRanges(params),
+    );
     const result = await execute(toolCallId, params, signal);
     const first = result.content[0];
     if (!first || first.type !== "text") return result;
@@ -17,7 +17,7 @@ function columnIndexToLetter(index: number): string {
   return letter;
 }
 
-function parseCsv(text: string): string[][] {
+export function parseCsv(text: string): string[][] {
   const rows: string[][] = [];
   let current = "";
   let inQuotes = false;
@@ -983,8 +983,11 @@ const webFetchCmd: Command = defineCommand("web-fetch", async (args, ctx) => {
   }
 });
 
-export function getCustomCommands(): CustomCommand[] {
-  return [
+/** `readOnly` leaves out csv-to-sheet and image-to-sheet, which write cells */
+export function getCustomCommands(
+  options: { readOnly?: boolean } = {},
+): CustomCommand[] {
+  const commands = [
     csvToSheet,
     sheetToCsv,
     pdfToText,
@@ -995,4 +998,6 @@ export function getCustomCommands(): CustomCommand[] {
     webSearchCmd,
     webFetchCmd,
   ];
+  if (!options.readOnly) return commands;
+  return commands.filter((cmd) => cmd !== csvToSheet && cmd !== imageToSheet);
 }
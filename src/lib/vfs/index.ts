@@ -13,6 +13,7 @@ import { getCustomCommands } from "./custom-commands";
 // Singleton instances
 let fs: InMemoryFs | null = null;
 let bash: Bash | null = null;
+let readOnlyBash: Bash | null = null;
 
 // Skill files are mounted on every VFS creation (global, not per-session)
 let skillFilesCache: Record<string, Uint8Array | string> = {};
@@ -50,12 +51,28 @@ export function getBash(): Bash {
   return bash;
 }
 
+/**
+ * Get or create the Bash instance for plan mode, which shares the filesystem
+ * but leaves out the commands that write to the workbook
+ */
+export function getReadOnlyBash(): Bash {
+  if (!readOnlyBash) {
+    readOnlyBash = new Bash({
+      fs: getVfs(),
+      cwd: "/home/user",
+      customCommands: getCustomCommands({ readOnly: true }),
+    });
+  }
+  return readOnlyBash;
+}
+
 /**
  * Reset the VFS (clears all files, creates fresh instances)
  */
 export function resetVfs(): void {
   fs = null;
   bash = null;
+  readOnlyBash = null;
 }
 
 /**
@@ -111,6 +128,7 @@ export async function restoreVfs(
 
   fs = new InMemoryFs(initialFiles);
   bash = null; // will be lazily created with the new fs
+  readOnlyBash = null;
 }
 
 /**
@@ -20,8 +20,21 @@ import {
   useRef,
   useState,
 } from "react";
+import {
+  beginCheckpointTurn,
+  endCheckpointTurn,
+  latestRevertibleCheckpoint,
+  type RevertResult,
+  revertCheckpoint,
+} from "../../../lib/checkpoints";
 import type { DirtyRange } from "../../../lib/dirty-tracker";
 import { getWorkbookMetadata, navigateTo } from "../../../lib/excel/api";
+import {
+  createChangeLog,
+  formatUserChanges,
+  type UserSelection,
+  watchUserChanges,
+} from "../../../lib/excel/user-changes";
 import {
   agentMessagesToChatMessages,
   type ChatMessage,
@@ -54,16 +67,19 @@ import {
 import {
   type ChatSession,
   createSession,
+  deleteCheckpoints,
   deleteSession,
   getOrCreateCurrentSession,
   getOrCreateWorkbookId,
   getSession,
   listSessions,
+  loadCheckpoints,
   loadVfsFiles,
   saveSession,
   saveVfsFiles,
+  type TurnCheckpoint,
 } from "../../../lib/storage";
-import { EXCEL_TOOLS } from "../../../lib/tools";
+import { EXCEL_TOOLS, PLAN_MODE_TOOLS } from "../../../lib/tools";
 import {
   deleteFile,
   listUploads,
@@ -111,6 +127,11 @@ interface ChatState {
   uploads: UploadedFile[];
   isUploading: boolean;
   skills: SkillMeta[];
+  checkpoints: TurnCheckpoint[];
+  /** The user's current selection, shown as a chip in the composer */
+  selection: UserSelection | null;
+  /** Read tools only until the user approves a submitted plan */
+  planMode: boolean;
 }
 
 const INITIAL_STATS: SessionStats = { ...deriveStats([]), contextWindow: 0 };
@@ -128,10 +149,14 @@ interface ChatContextValue {
   deleteCurrentSession: () => Promise<void>;
   getSheetName: (sheetId: number) => string | undefined;
   toggleFollowMode: () => void;
+  toggleIncludeSelection: () => void;
+  togglePlanMode: () => void;
+  approvePlan: () => Promise<void>;
   processFiles: (files: File[]) => Promise<void>;
   removeUpload: (name: string) => Promise<void>;
   installSkill: (files: File[]) => Promise<void>;
   uninstallSkill: (name: string) => Promise<void>;
+  revertTurn: (checkpointId: string) => Promise<void>;
 }
 
 const ChatContext = createContext<ChatContextValue | null>(null);
@@ -175,25 +200,48 @@ FILES & SHELL:
 When the user uploads files, an <attachments> section lists their paths. Use read to access them.
 
 EXCEL READ:
-- get_cell_ranges: Read cell values, formulas, and formatting
+- get_cell_ranges: Read cell values, formulas, formatting, data validation, hyperlinks, notes, and comments
 - get_range_as_csv: Get data as CSV (great for analysis)
 - search_data: Find text across the spreadsheet
-- get_all_objects: List charts, pivot tables, etc.
+- get_all_objects: List charts, pivot tables, tables, conditional formats, named ranges, shapes, etc.
+- trace_dependencies: Precedent/dependent tree of a cell across sheets
+- audit_workbook: Model review (errors, inconsistent formulas, hard-codes, unused inputs)
+- compare_ranges: Cell-level diff of two ranges or a range and a CSV, by position or key columns
 
 EXCEL WRITE:
-- set_cell_range: Write values, formulas, and formatting
+- set_cell_range: Write values, formulas, and formatting; merge/unmerge cells; add hyperlinks and notes; start, reply to and resolve comment threads
 - clear_cell_range: Clear contents or formatting
 - copy_to: Copy ranges with formula translation
+- find_replace: Find and replace in values or formulas; preview with apply=false, then apply=true
 - modify_sheet_structure: Insert/delete/hide rows/columns, freeze panes
 - modify_workbook_structure: Create/delete/rename sheets
 - resize_range: Adjust column widths and row heights
-- modify_object: Create/update/delete charts and pivot tables
+- modify_object: Create/update/delete charts, pivot tables, tables, named ranges, and shapes (images from the VFS, text boxes, geometric shapes)
+- modify_conditional_format: Create/update/delete conditional formatting rules
+- modify_data_validation: Set/clear dropdown lists and input rules
+- sort_filter_range: Sort ranges/tables and apply, read, or clear AutoFilters
+- modify_sheet_protection: Protect/unprotect sheets (only when the user asks; never guess passwords)
+- modify_page_layout: Print area, print titles, orientation, paper, margins, fit-to-page, headers/footers, page breaks
+- format_conventions: Color inputs/formulas/cross-sheet/external links and set number formats by the workbook's saved convention
+- goal_seek: Solve for input values that make a formula hit a target or min/max, with bounds and constraints
+- sensitivity_table: Run one- or two-way what-if scenarios on input cells and write the results as a formatted grid (Data Tables are unavailable)
+- simulate: Monte Carlo over input distributions; writes percentiles, histograms and charts to a new sheet
+
+When the selection is attached, <wb_context> has a selection entry with the selected cells' values and formulas (within the used range, first rows only when large). Answer "explain this"-style questions from it without reading the range again.
+
+When the user edited the workbook since your last turn, a <user_changes> section lists the cells they changed (with old → new values for single cells) and their current selection. Use it to act on "I fixed the inputs" without re-reading everything.
+
+Plan mode: when the user turns it on, only the read tools, bash without csv-to-sheet/image-to-sheet, and submit_plan are available. Investigate, call submit_plan with concrete steps (sheet, range, tool), then end your turn. Write tools return once the user approves; then carry out the approved plan and point out anything you had to change from it.
+
+Protected sheets are marked in <wb_context> with their allowed actions and locked ranges. Writes to locked cells fail; tell the user instead of retrying.
 
 Citations: Use markdown links with #cite: hash to reference sheets/cells. Clicking navigates there.
 - Sheet only: [Sheet Name](#cite:sheetId)
 - Cell/range: [A1:B10](#cite:sheetId!A1:B10)
 Example: [Exchange Ratio](#cite:3) or [see cell B5](#cite:3!B5)
 
+Anywhere a range is expected, a defined name (e.g. Revenue_Growth), table name or structured reference (e.g. Sales[Amount], Sales[#All]) can be used instead of an A1 address.
+
 When the user asks about their data, read it first. Be concise. Use A1 notation for cell references.
 
 ${buildSkillsPromptSection(skills)}
@@ -221,17 +269,23 @@ export function ChatProvider({ children }: { children: ReactNode }) {
       uploads: [],
       isUploading: false,
       skills: [],
+      checkpoints: [],
+      selection: null,
+      planMode: false,
     };
   });
 
   const agentRef = useRef<Agent | null>(null);
   const streamingMessageIdRef = useRef<string | null>(null);
   const isStreamingRef = useRef(false);
+  const isRevertingRef = useRef(false);
   const pendingConfigRef = useRef<ProviderConfig | null>(null);
   const workbookIdRef = useRef<string | null>(null);
   const sessionLoadedRef = useRef(false);
   const currentSessionIdRef = useRef<string | null>(null);
   const followModeRef = useRef(state.providerConfig?.followMode ?? true);
+  const planModeRef = useRef(false);
+  const changeLogRef = useRef(createChangeLog());
   const skillsRef = useRef<SkillMeta[]>([]);
 
   const availableProviders = getProviders();
@@ -420,8 +474,9 @@ export function ChatProvider({ children }: { children: ReactNode }) {
           resultText = JSON.stringify(event.result, null, 2);
         }
 
-        if (!event.isError && followModeRef.current) {
-          const dirtyRanges = parseDirtyRanges(resultText);
+        const dirtyRanges = event.isError ? null : parseDirtyRanges(resultText);
+        if (dirtyRanges) changeLogRef.current.ignore(dirtyRanges);
+        if (followModeRef.current) {
           if (dirtyRanges && dirtyRanges.length > 0) {
             const first = dirtyRanges[0];
             if (first.sheetId >= 0 && first.range !== "*") {
@@ -536,7 +591,7 @@ export function ChatProvider({ children }: { children: ReactNode }) {
           model: proxiedModel,
           systemPrompt,
           thinkingLevel: thinkingLevelToAgent(config.thinking),
-          tools: EXCEL_TOOLS,
+          tools: planModeRef.current ? PLAN_MODE_TOOLS : EXCEL_TOOLS,
           messages: existingMessages,
         },
         streamFn: async (model, context, options) => {
@@ -620,23 +675,36 @@ export function ChatProvider({ children }: { children: ReactNode }) {
 
       try {
         let promptContent = content;
+        const userChanges = changeLogRef.current.drain();
+        let sheetNames: Record<number, string> = {};
+        let wbContext = "";
         try {
           console.log("[Chat] Fetching workbook metadata...");
-          const metadata = await getWorkbookMetadata();
+          const metadata = await getWorkbookMetadata({
+            includeSelection: state.providerConfig.includeSelection ?? true,
+          });
           console.log("[Chat] Workbook metadata:", metadata);
-          promptContent = `<wb_context>\n${JSON.stringify(metadata, null, 2)}\n</wb_context>\n\n${content}`;
+          wbContext = `<wb_context>\n${JSON.stringify(metadata, null, 2)}\n</wb_context>\n\n`;
 
           if (metadata.sheetsMetadata) {
             const newSheetNames: Record<number, string> = {};
             for (const sheet of metadata.sheetsMetadata) {
               newSheetNames[sheet.id] = sheet.name;
             }
+            sheetNames = newSheetNames;
             setState((prev) => ({ ...prev, sheetNames: newSheetNames }));
           }
         } catch (err) {
           console.error("[Chat] Failed to get workbook metadata:", err);
         }
 
+        // Cells the user edited since the last turn, after the workbook context
+        const changes = formatUserChanges(userChanges, sheetNames);
+        if (changes) {
+          promptContent = `<user_changes>\n${changes}\n</user_changes>\n\n${promptContent}`;
+        }
+        promptContent = `${wbContext}${promptContent}`;
+
         // Add attachments section if files are uploaded
         if (attachments && attachments.length > 0) {
           const paths = attachments
@@ -645,6 +713,9 @@ export function ChatProvider({ children }: { children: ReactNode }) {
           promptContent = `<attachments>\n${paths}\n</attachments>\n\n${promptContent}`;
         }
 
+        if (currentSessionIdRef.current) {
+          beginCheckpointTurn(currentSessionIdRef.current);
+        }
         await agent.prompt(promptContent);
         console.log("[Chat] Full context:", agent.state.messages);
       } catch (err) {
@@ -655,6 +726,8 @@ export function ChatProvider({ children }: { children: ReactNode }) {
           isStreaming: false,
           error: err instanceof Error ? err.message : "An error occurred",
         }));
+      } finally {
+        endCheckpointTurn();
       }
     },
     [state.providerConfig, applyConfig],
@@ -662,12 +735,14 @@ export function ChatProvider({ children }: { children: ReactNode }) {
 
   const clearMessages = useCallback(() => {
     abort();
+    changeLogRef.current.clear();
     agentRef.current?.reset();
     resetVfs();
     if (currentSessionIdRef.current) {
       Promise.all([
         saveSession(currentSessionIdRef.current, []),
         saveVfsFiles(currentSessionIdRef.current, []),
+        deleteCheckpoints(currentSessionIdRef.current),
       ]).catch(console.error);
     }
     setState((prev) => ({
@@ -676,6 +751,7 @@ export function ChatProvider({ children }: { children: ReactNode }) {
       error: null,
       sessionStats: INITIAL_STATS,
       uploads: [],
+      checkpoints: [],
     }));
   }, [abort]);
 
@@ -717,6 +793,7 @@ export function ChatProvider({ children }: { children: ReactNode }) {
         error: null,
         sessionStats: INITIAL_STATS,
         uploads: [],
+        checkpoints: [],
       }));
     } catch (err) {
       console.error("[Chat] Failed to create session:", err);
@@ -737,9 +814,10 @@ export function ChatProvider({ children }: { children: ReactNode }) {
     }
     agentRef.current?.reset();
     try {
-      const [session, vfsFiles] = await Promise.all([
+      const [session, vfsFiles, checkpoints] = await Promise.all([
         getSession(sessionId),
         loadVfsFiles(sessionId),
+        loadCheckpoints(sessionId),
       ]);
       console.log(
         "[Chat] switchSession loaded:",
@@ -772,6 +850,7 @@ export function ChatProvider({ children }: { children: ReactNode }) {
           contextWindow: prev.sessionStats.contextWindow,
         },
         uploads: uploadNames.map((name) => ({ name, size: 0 })),
+        checkpoints,
       }));
     } catch (err) {
       console.error("[Chat] Failed to switch session:", err);
@@ -786,10 +865,17 @@ export function ChatProvider({ children }: { children: ReactNode }) {
     }
     agentRef.current?.reset();
     const deletedId = currentSessionIdRef.current;
-    await Promise.all([deleteSession(deletedId), saveVfsFiles(deletedId, [])]);
+    await Promise.all([
+      deleteSession(deletedId),
+      saveVfsFiles(deletedId, []),
+      deleteCheckpoints(deletedId),
+    ]);
     const session = await getOrCreateCurrentSession(workbookIdRef.current);
     currentSessionIdRef.current = session.id;
-    const vfsFiles = await loadVfsFiles(session.id);
+    const [vfsFiles, checkpoints] = await Promise.all([
+      loadVfsFiles(session.id),
+      loadCheckpoints(session.id),
+    ]);
     await restoreVfs(vfsFiles);
 
     if (session.agentMessages.length > 0 && agentRef.current) {
@@ -809,6 +895,7 @@ export function ChatProvider({ children }: { children: ReactNode }) {
         contextWindow: prev.sessionStats.contextWindow,
       },
       uploads: uploadNames.map((name) => ({ name, size: 0 })),
+      checkpoints,
     }));
   }, [refreshSessions]);
 
@@ -830,9 +917,16 @@ export function ChatProvider({ children }: { children: ReactNode }) {
             saveVfsFiles(sessionId, vfsFiles),
           ]);
           await refreshSessions();
-          const updated = await getSession(sessionId);
+          const [updated, checkpoints] = await Promise.all([
+            getSession(sessionId),
+            loadCheckpoints(sessionId),
+          ]);
           if (updated) {
-            setState((prev) => ({ ...prev, currentSession: updated }));
+            setState((prev) => ({
+              ...prev,
+              currentSession: updated,
+              checkpoints,
+            }));
           }
         } catch (e) {
           console.error(e);
@@ -848,6 +942,29 @@ export function ChatProvider({ children }: { children: ReactNode }) {
     };
   }, []);
 
+  useEffect(() => {
+    // The agent's own writes happen while streaming or reverting and are not
+    // recorded; late events for them are dropped by the log's ignore list
+    let unwatch: (() => Promise<void>) | null = null;
+    let disposed = false;
+    watchUserChanges(
+      changeLogRef.current,
+      () => isStreamingRef.current || isRevertingRef.current,
+      (selection) => setState((prev) => ({ ...prev, selection })),
+    )
+      .then((remove) => {
+        if (disposed) remove().catch(console.error);
+        else unwatch = remove;
+      })
+      .catch((err) => {
+        console.error("[Chat] Failed to watch workbook changes:", err);
+      });
+    return () => {
+      disposed = true;
+      unwatch?.().catch(console.error);
+    };
+  }, []);
+
   useEffect(() => {
     if (sessionLoadedRef.current) return;
     sessionLoadedRef.current = true;
@@ -876,9 +993,10 @@ export function ChatProvider({ children }: { children: ReactNode }) {
 
         const session = await getOrCreateCurrentSession(id);
         currentSessionIdRef.current = session.id;
-        const [sessions, vfsFiles] = await Promise.all([
+        const [sessions, vfsFiles, checkpoints] = await Promise.all([
           listSessions(id),
           loadVfsFiles(session.id),
+          loadCheckpoints(session.id),
         ]);
         if (vfsFiles.length > 0) {
           await restoreVfs(vfsFiles);
@@ -909,6 +1027,7 @@ export function ChatProvider({ children }: { children: ReactNode }) {
           currentSession: session,
           sessions,
           skills,
+          checkpoints,
           sessionStats: {
             ...stats,
             contextWindow: prev.sessionStats.contextWindow,
@@ -1033,6 +1152,54 @@ export function ChatProvider({ children }: { children: ReactNode }) {
     [refreshSkillsAndRebuildAgent],
   );
 
+  const revertTurn = useCallback(async (checkpointId: string) => {
+    const sessionId = currentSessionIdRef.current;
+    if (!sessionId || isStreamingRef.current) return;
+    try {
+      const checkpoint = latestRevertibleCheckpoint(
+        await loadCheckpoints(sessionId),
+      );
+      if (checkpoint?.id !== checkpointId) {
+        setState((prev) => ({
+          ...prev,
+          error:
+            "Only the latest turn can be reverted; revert later turns first",
+        }));
+        return;
+      }
+      isRevertingRef.current = true;
+      let result: RevertResult;
+      try {
+        result = await revertCheckpoint(checkpoint);
+      } finally {
+        isRevertingRef.current = false;
+        changeLogRef.current.ignore(
+          checkpoint.snapshots.flatMap((snap) =>
+            [snap.address, snap.clearAddress]
+              .filter((range): range is string => !!range)
+              .map((range) => ({ sheetId: snap.sheetId, range })),
+          ),
+        );
+      }
+      console.log("[Chat] Reverted turn:", checkpointId, result);
+      const checkpoints = await loadCheckpoints(sessionId);
+      setState((prev) => ({
+        ...prev,
+        checkpoints,
+        error:
+          result.errors.length > 0
+            ? `Revert incomplete: ${result.errors.join("; ")}`
+            : prev.error,
+      }));
+    } catch (err) {
+      console.error("[Chat] Failed to revert turn:", err);
+      setState((prev) => ({
+        ...prev,
+        error: err instanceof Error ? err.message : "Failed to revert turn",
+      }));
+    }
+  }, []);
+
   const toggleFollowMode = useCallback(() => {
     setState((prev) => {
       if (!prev.providerConfig) return prev;
@@ -1044,6 +1211,36 @@ export function ChatProvider({ children }: { children: ReactNode }) {
     });
   }, []);
 
+  const setPlanMode = useCallback((planMode: boolean) => {
+    planModeRef.current = planMode;
+    agentRef.current?.setTools(planMode ? PLAN_MODE_TOOLS : EXCEL_TOOLS);
+    setState((prev) => ({ ...prev, planMode }));
+  }, []);
+
+  const togglePlanMode = useCallback(() => {
+    if (isStreamingRef.current) return;
+    setPlanMode(!planModeRef.current);
+  }, [setPlanMode]);
+
+  // Unlock the write tools and have the agent carry out the plan it submitted
+  const approvePlan = useCallback(async () => {
+    if (isStreamingRef.current || !planModeRef.current) return;
+    setPlanMode(false);
+    await sendMessage("Plan approved. Go ahead and make the changes.");
+  }, [setPlanMode, sendMessage]);
+
+  const toggleIncludeSelection = useCallback(() => {
+    setState((prev) => {
+      if (!prev.providerConfig) return prev;
+      const newConfig = {
+        ...prev.providerConfig,
+        includeSelection: !prev.providerConfig.includeSelection,
+      };
+      saveConfig(newConfig);
+      return { ...prev, providerConfig: newConfig };
+    });
+  }, []);
+
   return (
     <ChatContext.Provider
       value={{
@@ -1059,10 +1256,14 @@ export function ChatProvider({ children }: { children: ReactNode }) {
         deleteCurrentSession,
         getSheetName,
         toggleFollowMode,
+        toggleIncludeSelection,
+        togglePlanMode,
+        approvePlan,
         processFiles,
         removeUpload,
         installSkill,
         uninstallSkill,
+        revertTurn,
       }}
     >
       {children}
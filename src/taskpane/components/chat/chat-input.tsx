@@ -1,4 +1,4 @@
-import { Paperclip, Send, Square, X } from "lucide-react";
+import { Grid3x3, Paperclip, Plus, Send, Square, X } from "lucide-react";
 import {
   type ChangeEvent,
   type KeyboardEvent,
@@ -20,12 +20,22 @@ const MIN_ROWS = 1;
 const MAX_ROWS = 2;
 
 export function ChatInput() {
-  const { sendMessage, state, abort, processFiles, removeUpload } = useChat();
+  const {
+    sendMessage,
+    state,
+    abort,
+    processFiles,
+    removeUpload,
+    getSheetName,
+    toggleIncludeSelection,
+  } = useChat();
   const [input, setInput] = useState("");
   const textareaRef = useRef<HTMLTextAreaElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const uploads = state.uploads;
   const isUploading = state.isUploading;
+  const selection = state.selection;
+  const includeSelection = state.providerConfig?.includeSelection ?? true;
 
   const autoResize = useCallback(() => {
     const ta = textareaRef.current;
@@ -100,9 +110,43 @@ export function ChatInput() {
         </div>
       )}
 
-      {/* Uploaded files chips */}
-      {uploads.length > 0 && (
+      {/* Selection and uploaded files chips */}
+      {(uploads.length > 0 || (selection && state.providerConfig)) && (
         <div className="flex flex-wrap gap-1.5 mb-2">
+          {selection && state.providerConfig && (
+            <div
+              className={`flex items-center gap-1 px-2 py-1 text-[10px] bg-(--chat-bg-secondary) border border-(--chat-border) ${
+                includeSelection
+                  ? "text-(--chat-text-secondary)"
+                  : "text-(--chat-text-muted) line-through"
+              }`}
+              style={{ borderRadius: "var(--chat-radius)" }}
+              title={
+                includeSelection
+                  ? "Selected cells are sent with your message"
+                  : "Selected cells are not sent"
+              }
+            >
+              <Grid3x3 size={10} />
+              <span className="max-w-[160px] truncate">
+                {getSheetName(selection.sheetId)
+                  ? `${getSheetName(selection.sheetId)}!${selection.address}`
+                  : selection.address}
+              </span>
+              <button
+                type="button"
+                onClick={toggleIncludeSelection}
+                className="ml-0.5 text-(--chat-text-muted) hover:text-(--chat-text-primary) transition-colors"
+                title={
+                  includeSelection
+                    ? "Don't send the selection"
+                    : "Send the selection"
+                }
+              >
+                {includeSelection ? <X size={10} /> : <Plus size={10} />}
+              </button>
+            </div>
+          )}
           {uploads.map((file) => (
             <div
               key={file.name}
@@ -151,9 +195,11 @@ export function ChatInput() {
           onChange={handleInputChange}
           onKeyDown={handleKeyDown}
           placeholder={
-            state.providerConfig
-              ? "Type a message..."
-              : "Configure API key in settings"
+            !state.providerConfig
+              ? "Configure API key in settings"
+              : state.planMode
+                ? "Describe the change to plan..."
+                : "Type a message..."
           }
           disabled={!state.providerConfig}
           className={`
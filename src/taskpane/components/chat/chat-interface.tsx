@@ -1,6 +1,7 @@
 import {
   Check,
   ChevronDown,
+  ClipboardList,
   Eye,
   EyeOff,
   MessageSquare,
@@ -297,7 +298,7 @@ function ChatHeader({
   theme: Theme;
   onThemeToggle: () => void;
 }) {
-  const { clearMessages, state, toggleFollowMode } = useChat();
+  const { clearMessages, state, toggleFollowMode, togglePlanMode } = useChat();
   const followMode = state.providerConfig?.followMode ?? true;
 
   return (
@@ -321,6 +322,25 @@ function ChatHeader({
           </TabButton>
         </div>
         <div className="flex items-center">
+          {activeTab === "chat" && (
+            <button
+              type="button"
+              onClick={togglePlanMode}
+              disabled={state.isStreaming}
+              className={`p-1.5 transition-colors disabled:opacity-30 disabled:cursor-not-allowed ${
+                state.planMode
+                  ? "text-(--chat-accent) hover:text-(--chat-text-primary)"
+                  : "text-(--chat-text-muted) hover:text-(--chat-text-primary)"
+              }`}
+              title={
+                state.planMode
+                  ? "Plan mode: ON - read-only until you approve a plan"
+                  : "Plan mode: OFF - Click to plan before any changes"
+              }
+            >
+              <ClipboardList size={14} />
+            </button>
+          )}
           {activeTab === "chat" && (
             <button
               type="button"
@@ -1,20 +1,26 @@
 import { code } from "@streamdown/code";
 import {
   Brain,
+  Check,
   CheckCircle2,
   ChevronDown,
   ChevronRight,
+  ClipboardList,
   Edit3,
   Loader2,
+  RotateCcw,
   Wrench,
   XCircle,
 } from "lucide-react";
 import type { AnchorHTMLAttributes } from "react";
 import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { Streamdown } from "streamdown";
+import { latestRevertibleCheckpoint } from "../../../lib/checkpoints";
 import { type DirtyRange, mergeRanges } from "../../../lib/dirty-tracker";
 import { navigateTo } from "../../../lib/excel/api";
 import type { ChatMessage, MessagePart } from "../../../lib/message-utils";
+import type { TurnCheckpoint } from "../../../lib/storage";
+import type { SubmittedPlan } from "../../../lib/tools";
 import { useChat } from "./chat-context";
 
 function ThinkingBlock({
@@ -338,6 +344,80 @@ function MarkdownContent({
   );
 }
 
+function PlanBlock({ part }: { part: ToolCallPart }) {
+  const { state, approvePlan } = useChat();
+  const plan = part.args as Partial<SubmittedPlan>;
+
+  // Only the most recent plan can be approved
+  const latestPlanId = useMemo(() => {
+    for (let i = state.messages.length - 1; i >= 0; i--) {
+      const parts = state.messages[i].parts;
+      for (let j = parts.length - 1; j >= 0; j--) {
+        const p = parts[j];
+        if (p.type === "toolCall" && p.name === "submit_plan") return p.id;
+      }
+    }
+    return null;
+  }, [state.messages]);
+  const canApprove =
+    state.planMode &&
+    !state.isStreaming &&
+    part.status === "complete" &&
+    part.id === latestPlanId;
+
+  return (
+    <div className="mt-3 mb-2 border border-(--chat-border) bg-(--chat-bg) rounded-sm overflow-hidden">
+      <div className="flex items-center gap-1.5 px-2 py-1 text-[10px] uppercase tracking-wider text-(--chat-accent)">
+        <ClipboardList size={10} />
+        <span className="flex-1 font-medium">plan</span>
+        {part.status === "pending" || part.status === "running" ? (
+          <Loader2
+            size={10}
+            className="animate-spin text-(--chat-text-muted)"
+          />
+        ) : null}
+      </div>
+      <div className="px-2 py-1.5 text-xs border-t border-(--chat-border)">
+        {plan.summary && <div className="mb-1.5">{plan.summary}</div>}
+        <ol className="list-decimal pl-4 space-y-0.5">
+          {(plan.steps ?? []).map((step, idx) => (
+            <li key={`${part.id}-step-${idx}`}>
+              {step?.action}
+              {step?.target && (
+                <span className="text-(--chat-text-muted)">
+                  {" "}
+                  · {step.target}
+                </span>
+              )}
+            </li>
+          ))}
+        </ol>
+        {plan.notes && (
+          <div className="mt-1.5 text-(--chat-text-muted) whitespace-pre-wrap">
+            {plan.notes}
+          </div>
+        )}
+        {part.status === "error" && part.result && (
+          <div className="mt-1.5 text-red-400">{part.result}</div>
+        )}
+      </div>
+      {canApprove && (
+        <div className="px-2 py-1 flex items-center gap-2 text-[10px] border-t border-(--chat-border)">
+          <button
+            type="button"
+            onClick={approvePlan}
+            className="flex items-center gap-1 text-(--chat-accent) hover:text-(--chat-text-primary) transition-colors"
+          >
+            <Check size={9} />
+            approve and run
+          </button>
+          <span className="text-(--chat-text-muted)">or reply to revise</span>
+        </div>
+      )}
+    </div>
+  );
+}
+
 function renderParts(
   parts: MessagePart[],
   isStreaming: boolean,
@@ -361,6 +441,9 @@ function renderParts(
       );
     }
     if (part.type === "toolCall") {
+      if (part.name === "submit_plan") {
+        return <PlanBlock key={key} part={part} />;
+      }
       return <ToolCallBlock key={key} part={part} />;
     }
     return (
@@ -387,6 +470,70 @@ function UserBubble({ message }: { message: ChatMessage }) {
   );
 }
 
+function RevertTurnButton({ checkpoint }: { checkpoint: TurnCheckpoint }) {
+  const { revertTurn, state } = useChat();
+  const [confirming, setConfirming] = useState(false);
+  const [isReverting, setIsReverting] = useState(false);
+
+  if (checkpoint.revertedAt) {
+    return (
+      <div className="mt-1 flex items-center gap-1 text-[10px] text-(--chat-text-muted)">
+        <RotateCcw size={9} />
+        turn reverted
+      </div>
+    );
+  }
+
+  const handleClick = async () => {
+    if (!confirming) {
+      setConfirming(true);
+      return;
+    }
+    setIsReverting(true);
+    try {
+      await revertTurn(checkpoint.id);
+    } finally {
+      setIsReverting(false);
+      setConfirming(false);
+    }
+  };
+
+  // Later turns may have changed the same cells, so they go back first
+  const isLatest = latestRevertibleCheckpoint(state.checkpoints) === checkpoint;
+  const skippedNote = !isLatest
+    ? "Revert the later turns first"
+    : checkpoint.skipped.length > 0
+      ? `Some targets were not snapshotted and won't be restored:\n${checkpoint.skipped.join("\n")}`
+      : "Restore values, formulas and number formats changed in this turn, overwriting any later edits to those cells";
+
+  return (
+    <div className="mt-1 flex items-center gap-2 text-[10px]">
+      <button
+        type="button"
+        onClick={handleClick}
+        onBlur={() => setConfirming(false)}
+        disabled={state.isStreaming || isReverting || !isLatest}
+        title={skippedNote}
+        className={`flex items-center gap-1 transition-colors disabled:opacity-30 disabled:cursor-not-allowed ${
+          confirming
+            ? "text-(--chat-error)"
+            : "text-(--chat-text-muted) hover:text-(--chat-text-primary)"
+        }`}
+      >
+        {isReverting ? (
+          <Loader2 size={9} className="animate-spin" />
+        ) : (
+          <RotateCcw size={9} />
+        )}
+        {confirming ? "confirm revert?" : "revert this turn"}
+      </button>
+      {checkpoint.skipped.length > 0 && (
+        <span className="text-(--chat-warning-muted)">(partial)</span>
+      )}
+    </div>
+  );
+}
+
 function AssistantBubble({
   messages,
   isStreaming,
@@ -394,6 +541,7 @@ function AssistantBubble({
   messages: ChatMessage[];
   isStreaming: boolean;
 }) {
+  const { state } = useChat();
   const allParts: { part: MessagePart; messageId: string; isLast: boolean }[] =
     [];
   for (let i = 0; i < messages.length; i++) {
@@ -408,6 +556,15 @@ function AssistantBubble({
     }
   }
 
+  const toolCallIds = new Set(
+    allParts.flatMap(({ part }) => (part.type === "toolCall" ? [part.id] : [])),
+  );
+  const checkpoint = state.checkpoints.find(
+    (c) =>
+      c.snapshots.length > 0 &&
+      c.snapshots.some((snap) => toolCallIds.has(snap.toolCallId)),
+  );
+
   return (
     <div
       className="text-sm leading-relaxed"
@@ -428,6 +585,9 @@ function AssistantBubble({
           );
         }
         if (part.type === "toolCall") {
+          if (part.name === "submit_plan") {
+            return <PlanBlock key={key} part={part} />;
+          }
           return <ToolCallBlock key={key} part={part} />;
         }
         return (
@@ -441,6 +601,9 @@ function AssistantBubble({
       {isStreaming && allParts.length === 0 && (
         <span className="animate-pulse">▊</span>
       )}
+      {!isStreaming && checkpoint && (
+        <RevertTurnButton checkpoint={checkpoint} />
+      )}
     </div>
   );
 }
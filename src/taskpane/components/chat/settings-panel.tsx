@@ -215,6 +215,7 @@ export function SettingsPanel() {
   const [oauthCodeInput, setOauthCodeInput] = useState("");
 
   const followMode = state.providerConfig?.followMode ?? true;
+  const includeSelection = state.providerConfig?.includeSelection ?? true;
   const isCustom = provider === "custom";
 
   const updateAndSync = useCallback(
@@ -263,6 +264,7 @@ export function SettingsPanel() {
           proxyUrl: pu,
           thinking: t,
           followMode,
+          includeSelection,
           apiType: at,
           customBaseUrl: cb,
           authMethod: am,
@@ -275,6 +277,7 @@ export function SettingsPanel() {
           proxyUrl: pu,
           thinking: t,
           followMode,
+          includeSelection,
           apiType: at,
           customBaseUrl: cb,
           authMethod: am,
@@ -292,6 +295,7 @@ export function SettingsPanel() {
       customBaseUrl,
       authMethod,
       followMode,
+      includeSelection,
       setProviderConfig,
     ],
   );
@@ -0,0 +1,163 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildDependencyTrace,
+  type WorkbookSnapshot,
+} from "../src/lib/excel/dependency-trace";
+
+// Inputs: B1 = 100, B2 = growth (named Growth)
+// Model:  A1 = Inputs!B1*(1+Growth), A2 = SUM(A1, C1:C3), C1..C2 constants
+const snapshot: WorkbookSnapshot = {
+  sheets: [
+    {
+      name: "Inputs",
+      startRow: 0,
+      startCol: 1,
+      formulas: [[100], [0.1]],
+      values: [[100], [0.1]],
+    },
+    {
+      name: "Model",
+      startRow: 0,
+      startCol: 0,
+      formulas: [
+        ["=Inputs!B1*(1+Growth)", "", 5],
+        ["=SUM(A1,C1:C3)", "", 6],
+        ["=A2*2", "", ""],
+      ],
+      values: [
+        [110, "", 5],
+        [121, "", 6],
+        [242, "", ""],
+      ],
+    },
+  ],
+  names: [{ name: "Growth", formula: "=Inputs!$B$2" }],
+  tables: [],
+};
+
+describe("buildDependencyTrace", () => {
+  it("builds a precedent tree across sheets and names", () => {
+    const result = buildDependencyTrace(snapshot, "Model", "A2", {
+      direction: "precedents",
+    });
+    expect(result.precedents).toMatchObject({
+      address: "Model!A2",
+      value: 121,
+      children: [
+        {
+          address: "Model!A1",
+          children: [
+            { address: "Inputs!B1", value: 100 },
+            { address: "Inputs!B2", value: 0.1, via: "Growth" },
+          ],
+        },
+        { address: "Model!C1:C3", constants: 2 },
+      ],
+    });
+  });
+
+  it("finds dependents through names", () => {
+    const result = buildDependencyTrace(snapshot, "Inputs", "B2", {
+      direction: "dependents",
+    });
+    expect(result.dependents).toMatchObject({
+      address: "Inputs!B2",
+      children: [
+        {
+          address: "Model!A1",
+          via: "Growth",
+          children: [
+            {
+              address: "Model!A2",
+              children: [{ address: "Model!A3" }],
+            },
+          ],
+        },
+      ],
+    });
+  });
+
+  it("respects depth", () => {
+    const result = buildDependencyTrace(snapshot, "Model", "A3", {
+      direction: "precedents",
+      depth: 1,
+    });
+    expect(result.precedents.children).toEqual([
+      { address: "Model!A2", formula: "=SUM(A1,C1:C3)", value: 121 },
+    ]);
+  });
+
+  it("flags circular references", () => {
+    const circular: WorkbookSnapshot = {
+      sheets: [
+        {
+          name: "S",
+          startRow: 0,
+          startCol: 0,
+          formulas: [["=B1+1", "=C1", "=A1"]],
+          values: [[0, 0, 0]],
+        },
+      ],
+      names: [],
+      tables: [],
+    };
+    const result = buildDependencyTrace(circular, "S", "A1", {
+      direction: "precedents",
+      depth: 5,
+    });
+    expect(result.circularReferences).toEqual([["S!A1", "S!B1", "S!C1", "S!A1"]]);
+  });
+
+  it("resolves table references", () => {
+    const withTable: WorkbookSnapshot = {
+      sheets: [
+        {
+          name: "Data",
+          startRow: 0,
+          startCol: 0,
+          formulas: [
+            ["Qty", "Price", "Total"],
+            [2, 3, "=[@Qty]*[@Price]"],
+            [4, 5, "=[@Qty]*[@Price]"],
+            ["", "", "=SUM(Sales[Total])"],
+          ],
+          values: [
+            ["Qty", "Price", "Total"],
+            [2, 3, 6],
+            [4, 5, 20],
+            ["", "", 26],
+          ],
+        },
+      ],
+      names: [],
+      tables: [
+        {
+          name: "Sales",
+          sheet: "Data",
+          columns: ["Qty", "Price", "Total"],
+          startCol: 0,
+          headerRow: 0,
+          dataStartRow: 1,
+          dataEndRow: 2,
+        },
+      ],
+    };
+    const result = buildDependencyTrace(withTable, "Data", "C4", {
+      direction: "precedents",
+    });
+    expect(result.precedents.children[0]).toMatchObject({
+      address: "Data!C2:C3",
+      via: "Sales[Total]",
+      children: [
+        {
+          address: "Data!C2",
+          children: [
+            { address: "Data!A2", via: "Sales[@Qty]" },
+            { address: "Data!B2", via: "Sales[@Price]" },
+          ],
+        },
+        { address: "Data!C3" },
+      ],
+    });
+  });
+});
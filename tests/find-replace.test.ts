@@ -0,0 +1,56 @@
+import { describe, expect, it } from "vitest";
+import { createCellMatcher } from "../src/lib/excel/find-replace";
+
+describe("createCellMatcher", () => {
+  it("matches literals case-insensitively by default", () => {
+    const matcher = createCellMatcher("sku-");
+    expect(matcher.test("Order SKU-100")).toBe(true);
+    expect(matcher.replace("SKU-100, sku-200", "PRD-")).toBe(
+      "PRD-100, PRD-200",
+    );
+  });
+
+  it("respects matchCase", () => {
+    const matcher = createCellMatcher("Total", { matchCase: true });
+    expect(matcher.test("total")).toBe(false);
+    expect(matcher.replace("Total total", "Sum")).toBe("Sum total");
+  });
+
+  it("treats regex characters literally unless useRegex is set", () => {
+    expect(createCellMatcher("a.b").test("axb")).toBe(false);
+    expect(createCellMatcher("$5").replace("cost $5", "$$6")).toBe(
+      "cost $$6",
+    );
+    expect(createCellMatcher("a.b", { useRegex: true }).test("axb")).toBe(
+      true,
+    );
+  });
+
+  it("expands regex groups in the replacement", () => {
+    const matcher = createCellMatcher("(\\d{4})-Q(\\d)", { useRegex: true });
+    expect(matcher.replace("2024-Q1 and 2025-Q3", "Q$2 $1")).toBe(
+      "Q1 2024 and Q3 2025",
+    );
+  });
+
+  it("renames sheets inside formulas", () => {
+    const matcher = createCellMatcher("'Old Inputs'!", { matchCase: true });
+    expect(
+      matcher.replace("='Old Inputs'!B2*'Old Inputs'!C2", "Assumptions!"),
+    ).toBe("=Assumptions!B2*Assumptions!C2");
+  });
+
+  it("anchors entire-cell matches, including regexes", () => {
+    const literal = createCellMatcher("north", { matchEntireCell: true });
+    expect(literal.test("North")).toBe(true);
+    expect(literal.test("North East")).toBe(false);
+
+    const regex = createCellMatcher("\\d+|n/a", {
+      matchEntireCell: true,
+      useRegex: true,
+    });
+    expect(regex.test("123")).toBe(true);
+    expect(regex.test("123 units")).toBe(false);
+    expect(regex.replace("N/A", "0")).toBe("0");
+  });
+});
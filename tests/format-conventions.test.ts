@@ -0,0 +1,116 @@
+import { describe, expect, it } from "vitest";
+import {
+  classifyCell,
+  DEFAULT_CONVENTION,
+  detectNumberFormatKind,
+  mergeConvention,
+  planFormatting,
+} from "../src/lib/excel/format-conventions";
+
+describe("classifyCell", () => {
+  it("separates inputs, formulas and links", () => {
+    expect(classifyCell(0.05, "Model")).toBe("input");
+    expect(classifyCell(true, "Model")).toBe("input");
+    expect(classifyCell("Revenue", "Model")).toBeNull();
+    expect(classifyCell("", "Model")).toBeNull();
+    expect(classifyCell("=B2*(1+B3)", "Model")).toBe("formula");
+    expect(classifyCell("=Model!B2*2", "Model")).toBe("formula");
+    expect(classifyCell("=Inputs!B2*2", "Model")).toBe("crossSheet");
+    expect(classifyCell("='Q1 Plan'!C4+B2", "Model")).toBe("crossSheet");
+    expect(classifyCell("=SUM(Jan:Dec!C3)", "Model")).toBe("crossSheet");
+    expect(classifyCell("=[Budget.xlsx]Inputs!B2", "Model")).toBe("external");
+    expect(classifyCell("=Inputs!A1+[1]Sheet1!A1", "Model")).toBe("external");
+  });
+
+  it("ignores sheet names inside strings", () => {
+    expect(classifyCell('="See Inputs!B2"&A1', "Model")).toBe("formula");
+  });
+});
+
+describe("detectNumberFormatKind", () => {
+  it("recognises the common variants", () => {
+    expect(detectNumberFormatKind("$#,##0.00")).toBe("currency");
+    expect(detectNumberFormatKind("[$€-x-euro2] #,##0")).toBe("currency");
+    expect(detectNumberFormatKind("0.0%")).toBe("percent");
+    expect(detectNumberFormatKind('0.0"x"')).toBe("multiple");
+    expect(detectNumberFormatKind("0.0\\x")).toBe("multiple");
+    expect(detectNumberFormatKind("#,##0_);(#,##0)")).toBe("number");
+    expect(detectNumberFormatKind("General")).toBeNull();
+    expect(detectNumberFormatKind("m/d/yyyy")).toBeNull();
+    expect(detectNumberFormatKind('0 "units"')).toBe("number");
+  });
+});
+
+describe("mergeConvention", () => {
+  it("patches styles role by role and removes nulls", () => {
+    const merged = mergeConvention(DEFAULT_CONVENTION, {
+      roles: { input: { fillColor: "#FFFF99" }, external: null },
+      numberFormats: { multiple: null, currency: "€#,##0" },
+    });
+    expect(merged.roles.input).toEqual({
+      fontColor: "#0000FF",
+      fillColor: "#FFFF99",
+    });
+    expect(merged.roles.external).toBeUndefined();
+    expect(merged.numberFormats.multiple).toBeUndefined();
+    expect(merged.numberFormats.currency).toBe("€#,##0");
+    expect(DEFAULT_CONVENTION.roles.external).toBeDefined();
+  });
+});
+
+describe("planFormatting", () => {
+  const grid = {
+    formulas: [
+      ["Revenue", 1000, "=B1*1.1"],
+      ["Growth", 0.1, "=Inputs!B5"],
+    ],
+    values: [
+      ["Revenue", 1000, 1100],
+      ["Growth", 0.1, 0.2],
+    ],
+    numberFormats: [
+      ["General", "$#,##0", "General"],
+      ["General", "0%", '0.0%_);(0.0%);"-"_)'],
+    ],
+  };
+
+  it("styles every classified cell and counts roles", () => {
+    const plan = planFormatting(grid, "Model", DEFAULT_CONVENTION);
+    expect(plan.counts).toEqual({
+      input: 2,
+      formula: 1,
+      crossSheet: 1,
+      external: 0,
+    });
+    expect(plan.cells.map((c) => [c.row, c.col, c.role])).toEqual([
+      [0, 1, "input"],
+      [0, 2, "formula"],
+      [1, 1, "input"],
+      [1, 2, "crossSheet"],
+    ]);
+    expect(plan.cells.every((c) => !c.numberFormat)).toBe(true);
+  });
+
+  it("normalizes recognised number formats", () => {
+    const plan = planFormatting(grid, "Model", DEFAULT_CONVENTION, {
+      normalizeNumberFormats: true,
+    });
+    const formats = plan.cells.map((c) => c.numberFormat);
+    expect(formats).toEqual([
+      DEFAULT_CONVENTION.numberFormats.currency,
+      undefined,
+      DEFAULT_CONVENTION.numberFormats.percent,
+      undefined,
+    ]);
+  });
+
+  it("restricts to the requested roles and forced formats", () => {
+    const plan = planFormatting(grid, "Model", DEFAULT_CONVENTION, {
+      roles: ["input"],
+      numberFormat: "multiple",
+    });
+    expect(plan.cells).toHaveLength(2);
+    expect(plan.cells[0].numberFormat).toBe('0.0"x"');
+    expect(plan.counts.formula).toBe(0);
+  });
+});
@@ -0,0 +1,105 @@
+import { describe, expect, it } from "vitest";
+import {
+  coalesceCells,
+  extractNumberLiterals,
+  extractReferences,
+  parseArea,
+  rectToA1,
+} from "../src/lib/excel/formula-refs";
+
+describe("extractReferences", () => {
+  it("finds cells and ranges, ignoring functions and strings", () => {
+    expect(extractReferences('=SUM(A1:B$5)+$C$3*IF(D1>0,"E5",1.5)')).toEqual([
+      { kind: "range", address: "A1:B5" },
+      { kind: "range", address: "C3" },
+      { kind: "range", address: "D1" },
+    ]);
+  });
+
+  it("handles sheet prefixes, quoted names and whole rows/columns", () => {
+    expect(
+      extractReferences("=Inputs!B2+'Q1 ''Plan'''!C:C+SUM(Data!2:4)"),
+    ).toEqual([
+      { kind: "range", sheet: "Inputs", address: "B2" },
+      { kind: "range", sheet: "Q1 'Plan'", address: "C:C" },
+      { kind: "range", sheet: "Data", address: "2:4" },
+    ]);
+  });
+
+  it("detects defined names but not booleans", () => {
+    expect(extractReferences("=Revenue*(1+Revenue_Growth)*TRUE")).toEqual([
+      { kind: "name", name: "Revenue" },
+      { kind: "name", name: "Revenue_Growth" },
+    ]);
+  });
+
+  it("parses structured references", () => {
+    const [explicit, own] = extractReferences(
+      "=SUM(Sales[Amount])+[@[Unit Price]]",
+    );
+    expect(explicit).toMatchObject({
+      kind: "table",
+      table: "Sales",
+      thisRow: false,
+      ref: { section: "data", columns: ["Amount", "Amount"] },
+    });
+    expect(own).toMatchObject({
+      kind: "table",
+      table: undefined,
+      thisRow: true,
+      ref: { columns: ["Unit Price", "Unit Price"] },
+    });
+  });
+
+  it("flags external and 3D references", () => {
+    expect(
+      extractReferences("=[1]Sheet1!A1+'C:\\x\\[Book.xlsx]Data'!B2+SUM(Jan:Dec!C3)"),
+    ).toEqual([
+      { kind: "external", text: "[1]Sheet1!A1" },
+      { kind: "external", text: "'C:\\x\\[Book.xlsx]Data'!B2" },
+      { kind: "external", text: "Jan:Dec!C3" },
+    ]);
+  });
+});
+
+describe("parseArea / rectToA1", () => {
+  it("round-trips addresses", () => {
+    for (const address of ["A1", "B2:D10", "C:E", "3:7"]) {
+      expect(rectToA1(parseArea(address))).toBe(address);
+    }
+  });
+
+  it("rejects non-areas", () => {
+    expect(parseArea("Revenue")).toBeNull();
+    expect(parseArea("ABC")).toBeNull();
+  });
+});
+
+describe("extractNumberLiterals", () => {
+  it("finds typed numbers but not references, strings or 0/1", () => {
+    expect(
+      extractNumberLiterals('=B2*1.05+A1*12-C3/100+1-0+IF(D1="7",2.5%,1E+3)'),
+    ).toEqual(["1.05", "12", "100", "2.5%", "1E+3"]);
+  });
+
+  it("ignores sheet names, row ranges and structural arguments", () => {
+    expect(
+      extractNumberLiterals(
+        "='2024 Plan'!B7+SUM(3:3)+VLOOKUP(A1,B:D,3,FALSE)+ROUND(A2*0.2,2)",
+      ),
+    ).toEqual(["0.2"]);
+  });
+});
+
+describe("coalesceCells", () => {
+  it("merges runs within rows and identical runs across rows", () => {
+    const cells = [
+      { row: 0, col: 0 },
+      { row: 0, col: 1 },
+      { row: 1, col: 1 },
+      { row: 1, col: 0 },
+      { row: 3, col: 0 },
+    ];
+    expect(coalesceCells(cells).map(rectToA1)).toEqual(["A1:B2", "A4"]);
+  });
+});
@@ -0,0 +1,147 @@
+import { describe, expect, it } from "vitest";
+import {
+  compareScores,
+  constraintExcess,
+  minimize,
+  type Score,
+  seekRoot,
+} from "../src/lib/excel/goal-seek";
+
+const sync =
+  <T, R>(fn: (x: T) => R) =>
+  async (x: T) =>
+    fn(x);
+
+describe("seekRoot", () => {
+  it("solves a smooth model with secant steps", async () => {
+    // EBITDA = revenue * (1 + growth) * margin
+    const ebitda = sync((growth: number) => 1000 * (1 + growth) * 0.2);
+    const result = await seekRoot(ebitda, { target: 250, initial: 0.05 });
+    expect(result.converged).toBe(true);
+    expect(result.input).toBeCloseTo(0.25, 6);
+    expect(result.iterations).toBeLessThan(10);
+  });
+
+  it("brackets with bounds on kinked models", async () => {
+    const tax = sync((income: number) =>
+      income <= 50_000 ? income * 0.1 : 5000 + (income - 50_000) * 0.4,
+    );
+    const result = await seekRoot(tax, {
+      target: 9000,
+      initial: 1000,
+      min: 0,
+      max: 200_000,
+    });
+    expect(result.converged).toBe(true);
+    expect(result.input).toBeCloseTo(60_000, 2);
+  });
+
+  it("stays within bounds and reports the closest point on failure", async () => {
+    const square = sync((x: number) => x * x);
+    const result = await seekRoot(square, {
+      target: -4,
+      initial: 1,
+      min: -3,
+      max: 3,
+      maxIterations: 30,
+    });
+    expect(result.converged).toBe(false);
+    expect(Math.abs(result.input)).toBeLessThanOrEqual(3);
+    expect(result.output).toBeGreaterThanOrEqual(0);
+  });
+
+  it("recovers from error values by stepping back", async () => {
+    const model = sync((x: number) =>
+      x > 10 ? Number.NaN : Math.log(x + 1) * 10,
+    );
+    const result = await seekRoot(model, { target: 20, initial: 1 });
+    expect(result.converged).toBe(true);
+    expect(result.input).toBeCloseTo(Math.exp(2) - 1, 5);
+  });
+});
+
+describe("compareScores", () => {
+  it("ranks feasibility before objective", () => {
+    const feasible: Score = { objective: 100, violation: 0 };
+    const infeasible: Score = { objective: 1, violation: 0.5 };
+    const broken: Score = { objective: Number.NaN, violation: 0 };
+    expect(compareScores(feasible, infeasible)).toBeLessThan(0);
+    expect(compareScores(infeasible, broken)).toBeLessThan(0);
+    expect(
+      compareScores({ objective: 1, violation: 0 }, feasible),
+    ).toBeLessThan(0);
+  });
+});
+
+describe("minimize", () => {
+  it("finds the minimum of a bounded quadratic", async () => {
+    const result = await minimize(
+      sync(([x, y]: number[]) => ({
+        objective: (x - 3) ** 2 + (y + 1) ** 2,
+        violation: 0,
+      })),
+      [0, 0],
+      {
+        bounds: [
+          { min: -10, max: 10 },
+          { min: 0, max: 10 },
+        ],
+        maxEvaluations: 400,
+      },
+    );
+    expect(result.inputs[0]).toBeCloseTo(3, 2);
+    expect(result.inputs[1]).toBeCloseTo(0, 2);
+  });
+
+  it("respects constraints without penalty weights", async () => {
+    // Maximize price * volume where volume = 100 - price, subject to volume >= 60
+    const result = await minimize(
+      sync(([price]: number[]) => {
+        const volume = 100 - price;
+        return {
+          objective: -(price * volume),
+          violation: Math.max(0, 60 - volume),
+        };
+      }),
+      [10],
+      { bounds: [{ min: 0, max: 100 }], maxEvaluations: 200 },
+    );
+    expect(result.score.violation).toBe(0);
+    expect(result.inputs[0]).toBeCloseTo(40, 2);
+  });
+});
+
+describe("constraintExcess", () => {
+  it("treats values within the tolerance as satisfied", () => {
+    const equal = { operator: "=", value: 1000 } as const;
+    expect(constraintExcess(1000.00005, equal, 1e-7)).toBe(0);
+    expect(constraintExcess(1000.01, equal, 1e-7)).toBeCloseTo(0.0099, 6);
+    expect(constraintExcess(5, { operator: "<=", value: 4 }, 1e-7)).toBeCloseTo(
+      1,
+      6,
+    );
+    expect(constraintExcess(5, { operator: ">=", value: 4 }, 1e-7)).toBe(0);
+    expect(constraintExcess(Number.NaN, equal, 1e-7)).toBe(Infinity);
+  });
+
+  it("lets minimize meet equality constraints", async () => {
+    // Minimize cost x + 2y subject to x + y = 10
+    const result = await minimize(
+      sync(([x, y]: number[]) => ({
+        objective: x + 2 * y,
+        violation: constraintExcess(x + y, { operator: "=", value: 10 }, 1e-7),
+      })),
+      [1, 1],
+      {
+        bounds: [
+          { min: 0, max: 20 },
+          { min: 0, max: 20 },
+        ],
+        maxEvaluations: 400,
+      },
+    );
+    expect(result.score.violation).toBe(0);
+    expect(result.inputs[0]).toBeCloseTo(10, 2);
+    expect(result.inputs[1]).toBeCloseTo(0, 2);
+  });
+});
@@ -0,0 +1,159 @@
+import { describe, expect, it } from "vitest";
+import { diffGrids, valuesEqual } from "../src/lib/excel/range-diff";
+
+const grid = (values: unknown[][], startRow = 0, startCol = 0) => ({
+  startRow,
+  startCol,
+  values,
+});
+
+describe("valuesEqual", () => {
+  it("compares numbers numerically across text and numbers", () => {
+    expect(valuesEqual("1,200", 1200)).toBe(true);
+    expect(valuesEqual(0.1 + 0.2, 0.3, 1e-9)).toBe(true);
+    expect(valuesEqual(100, 101)).toBe(false);
+  });
+
+  it("treats empty cells, booleans and padding consistently", () => {
+    expect(valuesEqual(null, "")).toBe(true);
+    expect(valuesEqual(true, "true")).toBe(true);
+    expect(valuesEqual(" North ", "North")).toBe(true);
+    expect(valuesEqual("north", "North")).toBe(false);
+  });
+});
+
+describe("diffGrids by position", () => {
+  it("reports changed cells with addresses on both sides", () => {
+    const left = grid(
+      [
+        ["Region", "Sales"],
+        ["North", 100],
+      ],
+      0,
+      0,
+    );
+    const right = grid(
+      [
+        ["Region", "Sales"],
+        ["North", 120],
+      ],
+      4,
+      2,
+    );
+    const diff = diffGrids(left, right);
+    expect(diff.identical).toBe(false);
+    expect(diff.differences).toEqual([
+      { kind: "value", left: "B2", right: "D6", before: 100, after: 120 },
+    ]);
+  });
+
+  it("reports cells outside the smaller range", () => {
+    const diff = diffGrids(grid([[1]]), grid([[1, 2]]));
+    expect(diff.differences).toEqual([
+      { kind: "value", left: null, right: "B1", before: "", after: 2 },
+    ]);
+  });
+
+  it("compares R1C1 formulas so copies at another offset match", () => {
+    const left = {
+      ...grid([[10, 20]]),
+      formulas: [[10, "=A1*2"]],
+      formulasR1C1: [[10, "=RC[-1]*2"]],
+    };
+    const right = {
+      ...grid([[10, 30]], 9, 0),
+      formulas: [[10, "=A10*3"]],
+      formulasR1C1: [[10, "=RC[-1]*3"]],
+    };
+    const same = { ...right, values: [[10, 20]], formulasR1C1: [[10, "=RC[-1]*2"]] };
+    expect(diffGrids(left, same, { compareFormulas: true }).identical).toBe(
+      true,
+    );
+
+    const diff = diffGrids(left, right, { compareFormulas: true });
+    expect(diff.differences.map((d) => d.kind)).toEqual(["value", "formula"]);
+    expect(diff.differences[1]).toMatchObject({
+      before: "=A1*2",
+      after: "=A10*3",
+    });
+  });
+
+  it("lists only the format properties that differ", () => {
+    const left = { ...grid([[1]]), formats: [[{ bold: true, fill: "#FFFF00" }]] };
+    const right = { ...grid([[1]]), formats: [[{ bold: true, fill: null }]] };
+    const diff = diffGrids(left, right, { compareFormats: true });
+    expect(diff.differences).toEqual([
+      {
+        kind: "format",
+        left: "A1",
+        right: "A1",
+        before: { fill: "#FFFF00" },
+        after: { fill: null },
+      },
+    ]);
+  });
+
+  it("caps listed differences but counts them all", () => {
+    const diff = diffGrids(grid([[1, 2, 3]]), grid([[4, 5, 6]]), {
+      maxDifferences: 2,
+    });
+    expect(diff.totalDifferences).toBe(3);
+    expect(diff.differences).toHaveLength(2);
+    expect(diff.truncated).toBe(true);
+  });
+});
+
+describe("diffGrids by key", () => {
+  const march = grid([
+    ["SKU", "Name", "Qty"],
+    ["A-1", "Widget", 10],
+    ["B-2", "Gadget", 5],
+    ["C-3", "Gizmo", 7],
+  ]);
+
+  it("matches re-sorted rows and reordered columns", () => {
+    const april = grid([
+      ["Qty", "SKU", "Name"],
+      [7, "C-3", "Gizmo"],
+      [12, "A-1", "Widget"],
+      [5, "B-2", "Gadget"],
+    ]);
+    const diff = diffGrids(march, april, { keyColumns: ["SKU"] });
+    expect(diff.matchedBy).toBe("key");
+    expect(diff.differences).toEqual([
+      {
+        kind: "value",
+        left: "C2",
+        right: "A3",
+        column: "Qty",
+        key: "A-1",
+        before: 10,
+        after: 12,
+      },
+    ]);
+  });
+
+  it("reports added and removed rows, columns and duplicate keys", () => {
+    const april = grid([
+      ["SKU", "Name", "Qty", "Price"],
+      ["A-1", "Widget", 10, 2],
+      ["D-4", "Doohickey", 1, 3],
+      ["D-4", "Doohickey", 2, 3],
+    ]);
+    const diff = diffGrids(march, april, { keyColumns: ["sku"] });
+    expect(diff.identical).toBe(false);
+    expect(diff.rowsOnlyInLeft).toEqual([
+      { key: "B-2", row: 3 },
+      { key: "C-3", row: 4 },
+    ]);
+    expect(diff.rowsOnlyInRight).toEqual([{ key: "D-4", row: 3 }]);
+    expect(diff.columnsOnlyInRight).toEqual(["Price"]);
+    expect(diff.duplicateKeys).toEqual(["D-4"]);
+  });
+
+  it("rejects key columns missing from either header row", () => {
+    expect(() =>
+      diffGrids(march, grid([["Code", "Qty"]]), { keyColumns: ["SKU"] }),
+    ).toThrow("Key column SKU not found");
+  });
+});
@@ -0,0 +1,108 @@
+import { describe, expect, it } from "vitest";
+import {
+  layoutSensitivity,
+  scenarios,
+  sensitivityExtent,
+  sensitivityRange,
+} from "../src/lib/excel/sensitivity";
+
+describe("scenarios", () => {
+  it("lists every combination with the row input first", () => {
+    expect(scenarios([1, 2], [10, 20, 30])).toEqual([
+      [1, 10],
+      [1, 20],
+      [1, 30],
+      [2, 10],
+      [2, 20],
+      [2, 30],
+    ]);
+    expect(scenarios([1, 2])).toEqual([[1], [2]]);
+  });
+});
+
+describe("layoutSensitivity", () => {
+  it("puts one input down the side with a column per output", () => {
+    const layout = layoutSensitivity({
+      rowInput: { label: "Inputs!B2", values: [0.1, 0.2] },
+      outputs: ["Model!C5", "Model!C6"],
+      results: [
+        [100, 5],
+        [200, Number.NaN],
+      ],
+    });
+    expect(layout.values).toEqual([
+      ["Inputs!B2", "Model!C5", "Model!C6"],
+      [0.1, 100, 5],
+      [0.2, 200, "#N/A"],
+    ]);
+    expect(layout.results).toEqual([
+      { row: 1, col: 1, rows: 2, cols: 1 },
+      { row: 1, col: 2, rows: 2, cols: 1 },
+    ]);
+    expect(layout.colInputs).toEqual([]);
+  });
+
+  it("stacks a two-way grid per output", () => {
+    const rowValues = [0.08, 0.1];
+    const colValues = [1, 2, 3];
+    const results = scenarios(rowValues, colValues).map(([wacc, g]) => [
+      wacc * 100 + g,
+      -g,
+    ]);
+    const layout = layoutSensitivity({
+      rowInput: { label: "WACC", values: rowValues },
+      colInput: { label: "Growth", values: colValues },
+      outputs: ["EV", "Price"],
+      results,
+    });
+    expect(layout.values).toEqual([
+      ["EV", "", "", ""],
+      ["WACC ↓ / Growth →", 1, 2, 3],
+      [0.08, 9, 10, 11],
+      [0.1, 11, 12, 13],
+      ["", "", "", ""],
+      ["Price", "", "", ""],
+      ["WACC ↓ / Growth →", 1, 2, 3],
+      [0.08, -1, -2, -3],
+      [0.1, -1, -2, -3],
+    ]);
+    expect(layout.results[1]).toEqual({ row: 7, col: 1, rows: 2, cols: 3 });
+    expect(layout.colInputs[1]).toEqual({ row: 6, col: 1, rows: 1, cols: 3 });
+  });
+
+  it("matches the extent used to check the destination", () => {
+    for (const [n, m, outputs] of [
+      [3, undefined, 2],
+      [4, 5, 1],
+      [2, 3, 3],
+    ] as const) {
+      const combos = scenarios(
+        Array.from({ length: n }, (_, i) => i),
+        m === undefined ? undefined : Array.from({ length: m }, (_, i) => i),
+      );
+      const layout = layoutSensitivity({
+        rowInput: { label: "r", values: Array.from({ length: n }, () => 0) },
+        colInput:
+          m === undefined
+            ? undefined
+            : { label: "c", values: Array.from({ length: m }, () => 0) },
+        outputs: Array.from({ length: outputs }, (_, i) => `o${i}`),
+        results: combos.map(() => Array(outputs).fill(0)),
+      });
+      expect(sensitivityExtent(n, m, outputs)).toEqual({
+        rows: layout.values.length,
+        cols: layout.values[0].length,
+      });
+      expect(
+        layout.values.every((row) => row.length === layout.values[0].length),
+      ).toBe(true);
+    }
+  });
+});
+
+describe("sensitivityRange", () => {
+  it("anchors the extent at the target cell", () => {
+    expect(sensitivityRange("$B$3", { rows: 4, cols: 3 })).toBe("B3:D6");
+    expect(sensitivityRange("Table1", { rows: 4, cols: 3 })).toBeNull();
+  });
+});
@@ -0,0 +1,128 @@
+import { describe, expect, it } from "vitest";
+import {
+  binLabel,
+  createRandom,
+  type Distribution,
+  histogram,
+  percentile,
+  sample,
+  summarize,
+  validateDistribution,
+} from "../src/lib/excel/simulation";
+
+const draw = (dist: Distribution, n = 20_000, seed = 42) => {
+  const random = createRandom(seed);
+  return Array.from({ length: n }, () => sample(dist, random));
+};
+
+describe("createRandom", () => {
+  it("repeats a sequence for the same seed", () => {
+    const a = createRandom(7);
+    const b = createRandom(7);
+    const xs = Array.from({ length: 5 }, () => a());
+    expect(Array.from({ length: 5 }, () => b())).toEqual(xs);
+    expect(xs.every((x) => x >= 0 && x < 1)).toBe(true);
+    expect(createRandom(8)()).not.toBe(xs[0]);
+  });
+});
+
+describe("sample", () => {
+  it("matches the moments of a normal", () => {
+    const s = summarize(draw({ type: "normal", mean: 100, stdDev: 15 }));
+    expect(s.mean).toBeCloseTo(100, 0);
+    expect(s.stdDev).toBeGreaterThan(14.5);
+    expect(s.stdDev).toBeLessThan(15.5);
+  });
+
+  it("truncates normals to their bounds", () => {
+    const xs = draw({ type: "normal", mean: 0, stdDev: 1, min: 0, max: 0.5 });
+    expect(Math.min(...xs)).toBeGreaterThanOrEqual(0);
+    expect(Math.max(...xs)).toBeLessThanOrEqual(0.5);
+  });
+
+  it("centres triangular samples on (min + mode + max) / 3", () => {
+    const xs = draw({ type: "triangular", min: 0, mode: 3, max: 9 });
+    expect(summarize(xs).mean).toBeCloseTo(4, 1);
+    expect(Math.min(...xs)).toBeGreaterThanOrEqual(0);
+    expect(Math.max(...xs)).toBeLessThanOrEqual(9);
+  });
+
+  it("keeps uniform samples in range", () => {
+    const s = summarize(draw({ type: "uniform", min: 10, max: 20 }));
+    expect(s.min).toBeGreaterThanOrEqual(10);
+    expect(s.max).toBeLessThan(20);
+    expect(s.mean).toBeCloseTo(15, 0);
+  });
+
+  it("picks discrete values by weight", () => {
+    const xs = draw({
+      type: "discrete",
+      values: [1, 2, 3],
+      weights: [1, 0, 3],
+    });
+    expect(xs.includes(2)).toBe(false);
+    const share = xs.filter((x) => x === 3).length / xs.length;
+    expect(share).toBeCloseTo(0.75, 1);
+  });
+});
+
+describe("validateDistribution", () => {
+  it("rejects impossible parameters", () => {
+    expect(() =>
+      validateDistribution({ type: "triangular", min: 0, mode: 5, max: 4 }),
+    ).toThrow(/min <= mode <= max/);
+    expect(() =>
+      validateDistribution({ type: "normal", mean: 0, stdDev: -1 }),
+    ).toThrow(/stdDev/);
+    expect(() =>
+      validateDistribution({ type: "discrete", values: [1, 2], weights: [1] }),
+    ).toThrow(/one to one/);
+    expect(() =>
+      validateDistribution({ type: "discrete", values: [1], weights: [0] }),
+    ).toThrow(/not all 0/);
+  });
+});
+
+describe("summarize", () => {
+  it("interpolates percentiles like PERCENTILE.INC", () => {
+    const sorted = [1, 2, 3, 4, 5];
+    expect(percentile(sorted, 0.5)).toBe(3);
+    expect(percentile(sorted, 0.1)).toBeCloseTo(1.4);
+    expect(percentile(sorted, 0.95)).toBeCloseTo(4.8);
+  });
+
+  it("counts non-numeric outputs as errors", () => {
+    const s = summarize([3, Number.NaN, 1, 2], 2);
+    expect(s).toMatchObject({ count: 3, errors: 1, mean: 2, min: 1, max: 3 });
+    expect(s.stdDev).toBeCloseTo(1);
+    expect(s.percentiles.p50).toBe(2);
+    expect(Object.keys(s.percentiles)).toEqual([
+      "p5",
+      "p10",
+      "p25",
+      "p50",
+      "p75",
+      "p90",
+      "p95",
+    ]);
+  });
+});
+
+describe("histogram", () => {
+  it("bins over the range with max in the last bin", () => {
+    const bins = histogram([0, 1, 2, 3, 4, 10], 5);
+    expect(bins.map((b) => b.count)).toEqual([2, 2, 1, 0, 1]);
+    expect(bins[4]).toMatchObject({ from: 8, to: 10 });
+    expect(bins.reduce((sum, b) => sum + b.count, 0)).toBe(6);
+  });
+
+  it("uses a single bin for constant outputs", () => {
+    expect(histogram([5, 5, 5], 10)).toEqual([{ from: 5, to: 5, count: 3 }]);
+  });
+
+  it("labels bins compactly", () => {
+    expect(binLabel({ from: 1234.5678, to: 1500, count: 0 })).toBe(
+      "1,235 – 1,500",
+    );
+  });
+});
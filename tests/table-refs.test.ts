@@ -0,0 +1,91 @@
+import { describe, expect, it } from "vitest";
+import {
+  columnReference,
+  parseStructuredReference,
+  parseTotalsFormula,
+  totalsFormula,
+} from "../src/lib/excel/table-refs";
+
+describe("parseStructuredReference", () => {
+  it("parses a single column", () => {
+    expect(parseStructuredReference("Sales[Amount]")).toEqual({
+      table: "Sales",
+      section: "data",
+      columns: ["Amount", "Amount"],
+    });
+  });
+
+  it("parses sections", () => {
+    expect(parseStructuredReference("Sales[#All]")).toEqual({
+      table: "Sales",
+      section: "all",
+    });
+    expect(parseStructuredReference("Sales[#headers]")).toEqual({
+      table: "Sales",
+      section: "headers",
+    });
+    expect(parseStructuredReference("Sales[]")).toEqual({
+      table: "Sales",
+      section: "data",
+    });
+  });
+
+  it("parses a section combined with a column", () => {
+    expect(parseStructuredReference("Sales[[#Totals],[Amount]]")).toEqual({
+      table: "Sales",
+      section: "totals",
+      columns: ["Amount", "Amount"],
+    });
+  });
+
+  it("parses column spans", () => {
+    expect(parseStructuredReference("Sales[[Q1]:[Q4]]")).toEqual({
+      table: "Sales",
+      section: "data",
+      columns: ["Q1", "Q4"],
+    });
+    expect(parseStructuredReference("Sales[[#All],[Q1]:[Q4]]")).toEqual({
+      table: "Sales",
+      section: "all",
+      columns: ["Q1", "Q4"],
+    });
+  });
+
+  it("unescapes special characters in column names", () => {
+    expect(parseStructuredReference("Sales[[Price '[USD']]]")).toEqual({
+      table: "Sales",
+      section: "data",
+      columns: ["Price [USD]", "Price [USD]"],
+    });
+  });
+
+  it("rejects non-references and unsupported forms", () => {
+    expect(parseStructuredReference("A1:B2")).toBeNull();
+    expect(parseStructuredReference("Revenue_Growth")).toBeNull();
+    expect(parseStructuredReference("Sales[#This Row]")).toBeNull();
+    expect(parseStructuredReference("Sales[[A],[B]]")).toBeNull();
+  });
+});
+
+describe("totals formulas", () => {
+  it("round-trips aggregations", () => {
+    const formula = totalsFormula("Sales", "Amount", "average");
+    expect(formula).toBe("=SUBTOTAL(101,Sales[Amount])");
+    expect(parseTotalsFormula(formula)).toBe("average");
+    expect(parseTotalsFormula("=SUBTOTAL(9,[Amount])")).toBe("sum");
+  });
+
+  it("escapes column names", () => {
+    expect(columnReference("Sales", "Price [USD]")).toBe(
+      "Sales[Price '[USD']]",
+    );
+  });
+
+  it("keeps custom formulas and ignores labels", () => {
+    expect(parseTotalsFormula("=MEDIAN(Sales[Amount])")).toBe(
+      "=MEDIAN(Sales[Amount])",
+    );
+    expect(parseTotalsFormula("Total")).toBeNull();
+    expect(parseTotalsFormula("")).toBeNull();
+  });
+});
@@ -0,0 +1,158 @@
+import { describe, expect, it } from "vitest";
+import {
+  createChangeLog,
+  formatUserChanges,
+} from "../src/lib/excel/user-changes";
+
+describe("createChangeLog", () => {
+  it("drops the agent's late events for ignored ranges until they expire", () => {
+    let time = 0;
+    const log = createChangeLog(50, () => time);
+    log.ignore([
+      { sheetId: 1, range: "A1:C10" },
+      { sheetId: 2, range: "*" },
+    ]);
+    const edit = (sheetId: number, address: string) =>
+      log.record({ sheetId, address, changeType: "RangeEdited" });
+    edit(1, "B5");
+    edit(1, "C10:D12");
+    edit(2, "Z99");
+    edit(1, "D1");
+    edit(3, "A1");
+    time = 6000;
+    edit(1, "B5");
+    expect(log.drain().changes.map((c) => `${c.sheetId}!${c.address}`)).toEqual(
+      ["1!D1", "3!A1", "1!B5"],
+    );
+  });
+
+  it("collapses repeated edits of a cell into first before, latest after", () => {
+    const log = createChangeLog();
+    log.record({
+      sheetId: 1,
+      address: "B3",
+      changeType: "RangeEdited",
+      before: 0.05,
+      after: 0.06,
+    });
+    log.record({
+      sheetId: 2,
+      address: "A1",
+      changeType: "RangeEdited",
+      before: "",
+      after: "x",
+    });
+    log.record({
+      sheetId: 1,
+      address: "B3",
+      changeType: "RangeEdited",
+      before: 0.06,
+      after: 0.07,
+    });
+    const { changes } = log.drain();
+    expect(changes).toEqual([
+      {
+        sheetId: 2,
+        address: "A1",
+        changeType: "RangeEdited",
+        before: "",
+        after: "x",
+      },
+      {
+        sheetId: 1,
+        address: "B3",
+        changeType: "RangeEdited",
+        before: 0.05,
+        after: 0.07,
+      },
+    ]);
+  });
+
+  it("drops cells edited back to their original value", () => {
+    const log = createChangeLog();
+    log.record({
+      sheetId: 1,
+      address: "B3",
+      changeType: "RangeEdited",
+      before: 1,
+      after: 2,
+    });
+    log.record({
+      sheetId: 1,
+      address: "B3",
+      changeType: "RangeEdited",
+      before: 2,
+      after: 1,
+    });
+    expect(log.drain().changes).toEqual([]);
+  });
+
+  it("counts changes past the limit and starts over after draining", () => {
+    const log = createChangeLog(2);
+    for (const address of ["A1", "A2", "A3", "A4"]) {
+      log.record({ sheetId: 1, address, changeType: "RangeEdited" });
+    }
+    log.select({ sheetId: 1, address: "C5" });
+    const first = log.drain();
+    expect(first.changes.map((c) => c.address)).toEqual(["A1", "A2"]);
+    expect(first.omitted).toBe(2);
+    expect(first.selection).toEqual({ sheetId: 1, address: "C5" });
+    expect(log.drain()).toEqual({
+      changes: [],
+      omitted: 0,
+      selection: undefined,
+    });
+  });
+});
+
+describe("formatUserChanges", () => {
+  it("lists edits with values, structural changes and the selection", () => {
+    const log = createChangeLog(2);
+    log.record({
+      sheetId: 2,
+      address: "B3",
+      changeType: "RangeEdited",
+      before: 0.05,
+      after: 0.07,
+    });
+    log.record({ sheetId: 1, address: "5:6", changeType: "RowInserted" });
+    log.record({ sheetId: 1, address: "C1:C9", changeType: "RangeEdited" });
+    log.select({ sheetId: 1, address: "D12" });
+    expect(formatUserChanges(log.drain(), { 1: "Model", 2: "Inputs" })).toBe(
+      [
+        "Edits by the user since your last turn, oldest first:",
+        "- Inputs (id 2) B3: 0.05 → 0.07",
+        "- Model (id 1) 5:6 rows inserted",
+        "- ...and 1 more changes",
+        "Current selection: Model (id 1) D12",
+      ].join("\n"),
+    );
+  });
+
+  it("quotes text, marks empty cells and shortens long values", () => {
+    const log = createChangeLog();
+    log.record({
+      sheetId: 3,
+      address: "A1",
+      changeType: "RangeEdited",
+      before: null,
+      after: "Q1 plan",
+    });
+    log.record({
+      sheetId: 3,
+      address: "A2",
+      changeType: "RangeEdited",
+      before: "y".repeat(60),
+      after: "",
+    });
+    const text = formatUserChanges(log.drain()) ?? "";
+    expect(text).toContain('sheet (id 3) A1: (empty) → "Q1 plan"');
+    expect(text).toContain(`A2: "${"y".repeat(36)}... → (empty)`);
+  });
+
+  it("returns null when nothing changed", () => {
+    const log = createChangeLog();
+    log.select({ sheetId: 1, address: "A1" });
+    expect(formatUserChanges(log.drain())).toBeNull();
+  });
+});
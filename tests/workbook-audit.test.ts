@@ -0,0 +1,119 @@
+import { describe, expect, it } from "vitest";
+import type { WorkbookSnapshot } from "../src/lib/excel/dependency-trace";
+import { auditWorkbookSnapshot } from "../src/lib/excel/workbook-audit";
+
+// Inputs!B1:B3 are inputs; B3 is never used.
+// Model row 1 projects revenue across A1:G1, with D1 typed over and F1
+// pointing at the wrong row. A2 divides by an empty cell.
+const snapshot: WorkbookSnapshot = {
+  sheets: [
+    {
+      name: "Inputs",
+      startRow: 0,
+      startCol: 1,
+      formulas: [[100], [0.1], [42]],
+      values: [[100], [0.1], [42]],
+    },
+    {
+      name: "Model",
+      startRow: 0,
+      startCol: 0,
+      formulas: [
+        [
+          "=Inputs!B1",
+          "=A1*(1+Inputs!$B$2)",
+          "=B1*(1+Inputs!$B$2)",
+          130,
+          "=D1*(1+Inputs!$B$2)",
+          "=E2*(1+Inputs!$B$2)",
+          "=F1*(1+Inputs!$B$2)",
+        ],
+        ["=A1/H2", "=B1*1.2", "=C1*1.2", "", "", "", "", ""],
+      ],
+      formulasR1C1: [
+        [
+          "=Inputs!R1C2",
+          "=RC[-1]*(1+Inputs!R2C2)",
+          "=RC[-1]*(1+Inputs!R2C2)",
+          130,
+          "=RC[-1]*(1+Inputs!R2C2)",
+          "=R[1]C[-1]*(1+Inputs!R2C2)",
+          "=RC[-1]*(1+Inputs!R2C2)",
+        ],
+        ["=RC[-1]/RC[7]", "=R[-1]C*1.2", "=R[-1]C*1.2", "", "", "", "", ""],
+      ],
+      values: [
+        [100, 110, 121, 130, 143, 0, 0],
+        ["#DIV/0!", 132, 145.2, "", "", "", "", ""],
+      ],
+    },
+  ],
+  names: [],
+  tables: [],
+};
+
+const findings = (sheet: string) =>
+  auditWorkbookSnapshot(snapshot).sheets.find((s) => s.sheet === sheet)?.findings ??
+  [];
+
+describe("auditWorkbookSnapshot", () => {
+  it("reports error values", () => {
+    expect(findings("Model")).toContainEqual(
+      expect.objectContaining({ check: "errors", address: "A2" }),
+    );
+  });
+
+  it("reports formulas that break the pattern of their neighbours", () => {
+    const inconsistent = findings("Model").filter(
+      (f) => f.check === "inconsistentFormulas",
+    );
+    expect(inconsistent.map((f) => f.address)).toEqual(["F1"]);
+  });
+
+  it("reports numbers typed between formulas", () => {
+    expect(findings("Model")).toContainEqual(
+      expect.objectContaining({
+        check: "overwrittenFormulas",
+        address: "D1",
+        value: 130,
+      }),
+    );
+  });
+
+  it("groups copied formulas with hard-coded constants into one range", () => {
+    const hardcoded = findings("Model").filter(
+      (f) => f.check === "hardcodedConstants",
+    );
+    expect(hardcoded).toEqual([
+      expect.objectContaining({
+        address: "B2:C2",
+        message: "Hard-coded 1.2 in formula",
+      }),
+    ]);
+  });
+
+  it("reports references to empty cells", () => {
+    expect(findings("Model")).toContainEqual(
+      expect.objectContaining({
+        check: "emptyReferences",
+        address: "A2",
+        message: "References empty cell H2",
+      }),
+    );
+  });
+
+  it("reports inputs nothing refers to", () => {
+    expect(findings("Inputs")).toEqual([
+      expect.objectContaining({ check: "unusedInputs", address: "B3" }),
+    ]);
+  });
+
+  it("limits checks and sheets", () => {
+    const result = auditWorkbookSnapshot(snapshot, {
+      sheets: ["Model"],
+      checks: ["errors"],
+    });
+    expect(result.sheets).toHaveLength(1);
+    expect(result.totals).toEqual({ errors: 1 });
+  });
+});